@@ -0,0 +1,188 @@
+import { Devvit, useState } from '@devvit/public-api';
+import {
+  AlertView,
+  describeAlert,
+  getMyAlerts,
+  getMyInbox,
+  Inbox as InboxData,
+  markInboxRead,
+  removePriceAlert,
+  updateMyNotificationPreferences,
+} from '../server/notifications';
+import { Notification, NotificationKind, NotificationPreferences } from '../storage/notifications';
+import { useService } from './useService';
+
+type InboxSection = 'notifications' | 'alerts' | 'settings';
+
+const SECTIONS: { id: InboxSection; label: string }[] = [
+  { id: 'notifications', label: 'Notifications' },
+  { id: 'alerts', label: 'Price alerts' },
+  { id: 'settings', label: 'Settings' },
+];
+
+const KIND_ICONS: Record<NotificationKind, string> = {
+  'price-alert': '🔔',
+  'order-filled': '✅',
+  'order-failed': '⚠️',
+  'milestone': '🏆',
+};
+
+const PREFERENCES: { key: keyof NotificationPreferences; label: string }[] = [
+  { key: 'privateMessages', label: 'Also send notifications as Reddit messages' },
+  { key: 'orderFills', label: 'Resting orders filling or failing' },
+  { key: 'milestones', label: 'My memes passing market cap milestones' },
+];
+
+function formatTimeAgo(iso: string): string {
+  const minutes = Math.floor((Date.now() - Date.parse(iso)) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (24 * 60))}d ago`;
+}
+
+function NotificationRow({ notification, unread }: { notification: Notification; unread: boolean }) {
+  return (
+    <hstack gap="small" padding="xsmall" border="thin" cornerRadius="small">
+      <text>{KIND_ICONS[notification.kind]}</text>
+      <vstack grow>
+        <hstack>
+          <text size="small" weight="bold" grow overflow="ellipsis">{notification.subject}</text>
+          <text size="xsmall" color={unread ? 'primary-plain' : 'neutral-content-weak'}>
+            {unread ? 'New · ' : ''}{formatTimeAgo(notification.createdAt)}
+          </text>
+        </hstack>
+        <text size="xsmall" wrap>{notification.text}</text>
+      </vstack>
+    </hstack>
+  );
+}
+
+function AlertRow({ view, onRemove }: { view: AlertView; onRemove: () => void }) {
+  return (
+    <hstack gap="small" alignment="middle" padding="xsmall" border="thin" cornerRadius="small">
+      <vstack grow>
+        <text size="small" weight="bold" overflow="ellipsis">{view.memeTitle}</text>
+        <text size="xsmall" color="neutral-content-weak">
+          When it {describeAlert(view.alert)}
+          {view.currentPrice !== null ? ` · now ₽${view.currentPrice.toFixed(2)}` : ''}
+        </text>
+      </vstack>
+      <button size="small" appearance="secondary" icon="delete" onPress={onRemove} />
+    </hstack>
+  );
+}
+
+// The current user's notifications, price alerts and notification settings.
+// Calls `onRead` once the inbox is marked read, so the tab badge can update.
+export default function Inbox({ onRead }: { onRead: () => void }, context: Devvit.Context) {
+  const { ui } = context;
+  const [section, setSection] = useState<InboxSection>('notifications');
+  const [refresh, setRefresh] = useState(0);
+
+  const { data: inbox, loading } = useService<InboxData>(() => getMyInbox({}, context), [refresh]);
+  const { data: alerts } = useService<AlertView[]>(() => getMyAlerts({}, context), [refresh]);
+
+  if (!inbox) {
+    return (
+      <vstack grow alignment="center middle">
+        <text>{loading ? 'Loading inbox...' : 'Your inbox could not be loaded'}</text>
+      </vstack>
+    );
+  }
+
+  const markRead = async () => {
+    try {
+      await markInboxRead({}, context);
+      setRefresh(refresh + 1);
+      onRead();
+    } catch (error) {
+      console.error('Error marking inbox read:', error);
+      ui.showToast(error instanceof Error ? error.message : 'Could not mark your inbox read');
+    }
+  };
+
+  const removeAlert = async (alertId: string) => {
+    try {
+      await removePriceAlert({ alertId }, context);
+      setRefresh(refresh + 1);
+    } catch (error) {
+      console.error('Error removing price alert:', error);
+      ui.showToast(error instanceof Error ? error.message : 'Could not remove this alert');
+    }
+  };
+
+  const togglePreference = async (key: keyof NotificationPreferences) => {
+    try {
+      await updateMyNotificationPreferences({ ...inbox.preferences, [key]: !inbox.preferences[key] }, context);
+      setRefresh(refresh + 1);
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      ui.showToast(error instanceof Error ? error.message : 'Could not save your settings');
+    }
+  };
+
+  return (
+    <vstack gap="small" padding="small" grow>
+      <hstack gap="small" alignment="middle">
+        {SECTIONS.map(tab => (
+          <button size="small" appearance={section === tab.id ? 'primary' : 'secondary'} onPress={() => setSection(tab.id)}>
+            {tab.id === 'notifications' && inbox.unread > 0 ? `${tab.label} (${inbox.unread})` : tab.label}
+          </button>
+        ))}
+        <spacer grow />
+        {section === 'notifications' && inbox.unread > 0 && (
+          <button size="small" appearance="plain" onPress={markRead}>
+            Mark all read
+          </button>
+        )}
+      </hstack>
+
+      {section === 'notifications' && (
+        <vstack gap="small" grow>
+          {inbox.notifications.length === 0 ? (
+            <text size="small" color="neutral-content-weak">
+              Nothing yet. Set a price alert from any meme's page, or place a resting order.
+            </text>
+          ) : (
+            inbox.notifications.map((notification, index) => (
+              <NotificationRow notification={notification} unread={index < inbox.unread} />
+            ))
+          )}
+        </vstack>
+      )}
+
+      {section === 'alerts' && (
+        <vstack gap="small" grow>
+          {(alerts ?? []).length === 0 ? (
+            <text size="small" color="neutral-content-weak">
+              No price alerts. Open a meme and tap the bell to set one.
+            </text>
+          ) : (
+            (alerts ?? []).map(view => <AlertRow view={view} onRemove={() => removeAlert(view.alert.id)} />)
+          )}
+        </vstack>
+      )}
+
+      {section === 'settings' && (
+        <vstack gap="small" grow>
+          <text size="xsmall" color="neutral-content-weak">
+            Everything lands here in your inbox. Price alerts you set always notify you.
+          </text>
+          {PREFERENCES.map(({ key, label }) => (
+            <hstack gap="small" alignment="middle">
+              <text size="small" grow>{label}</text>
+              <button
+                size="small"
+                appearance={inbox.preferences[key] ? 'primary' : 'secondary'}
+                onPress={() => togglePreference(key)}
+              >
+                {inbox.preferences[key] ? 'On' : 'Off'}
+              </button>
+            </hstack>
+          ))}
+        </vstack>
+      )}
+    </vstack>
+  );
+}
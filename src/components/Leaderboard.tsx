@@ -0,0 +1,96 @@
+import { Devvit, useState } from '@devvit/public-api';
+import {
+  getLeaderboard,
+  LeaderboardEntry,
+  LeaderboardId,
+  LeaderboardPage,
+  LEADERBOARDS
+} from '../server/leaderboards';
+import { useService } from './useService';
+
+const BOARD_TABS: { id: LeaderboardId; label: string }[] = [
+  { id: 'net-worth', label: 'Net Worth' },
+  { id: 'return-day', label: 'Day' },
+  { id: 'return-week', label: 'Week' },
+  { id: 'return-season', label: 'Season' },
+  { id: 'creators', label: 'Creators' },
+];
+
+// Rows that fit in a tall post under the board tabs
+const BOARD_SIZE = 10;
+
+export function formatScore(board: LeaderboardId, score: number): string {
+  if (board.startsWith('return-')) {
+    return `${score > 0 ? '+' : ''}${score.toFixed(2)}%`;
+  }
+  return `₽${score.toFixed(2)}`;
+}
+
+function LeaderboardRow({ board, entry, highlight }: { board: LeaderboardId; entry: LeaderboardEntry; highlight?: boolean }) {
+  return (
+    <hstack alignment="middle" padding="xsmall" backgroundColor={highlight ? 'neutral-background-strong' : undefined}>
+      <text weight="bold" width="40px">#{entry.rank}</text>
+      <text weight={highlight ? 'bold' : 'regular'} grow overflow="ellipsis">u/{entry.username}</text>
+      <text weight="bold">{formatScore(board, entry.score)}</text>
+    </hstack>
+  );
+}
+
+export default function Leaderboard(_props: {}, context: Devvit.Context) {
+  const [board, setBoard] = useState<LeaderboardId>('net-worth');
+
+  const { data: page, loading } = useService<LeaderboardPage>(
+    () => getLeaderboard({ board, limit: BOARD_SIZE }, context),
+    [board]
+  );
+
+  // The current user's row is pinned below the list when they aren't in it
+  const showMyRank = !!page?.me && !page.entries.some(entry => entry.userId === page.me!.userId);
+
+  return (
+    <vstack gap="small" padding="small" grow>
+      <vstack>
+        <text size="large" weight="bold">Leaderboards</text>
+        <text size="small" color="neutral-content-weak">{LEADERBOARDS[board].label} · updated every market tick</text>
+      </vstack>
+
+      <hstack gap="small">
+        {BOARD_TABS.map(tab => (
+          <button
+            size="small"
+            appearance={board === tab.id ? 'primary' : 'secondary'}
+            onPress={() => setBoard(tab.id)}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </hstack>
+
+      {loading || !page ? (
+        <vstack grow alignment="center middle">
+          <text>Loading leaderboard...</text>
+        </vstack>
+      ) : page.entries.length === 0 ? (
+        <vstack grow alignment="center middle">
+          <text>No rankings yet. Check back after the next market tick!</text>
+        </vstack>
+      ) : (
+        <vstack gap="none">
+          {page.entries.map(entry => (
+            <LeaderboardRow
+              board={board}
+              entry={entry}
+              highlight={entry.userId === page.me?.userId}
+            />
+          ))}
+
+          {showMyRank && (
+            <vstack border="thin" cornerRadius="small">
+              <LeaderboardRow board={board} entry={page.me!} highlight />
+            </vstack>
+          )}
+        </vstack>
+      )}
+    </vstack>
+  );
+}
@@ -1,253 +1,294 @@
-import { useState, useEffect, useCallback } from 'react';
-import {
-  Box,
-  VStack,
-  HStack,
-  Text,
-  Heading,
-  Divider,
-  Button,
-  Tabs,
-  Tab,
-  Image,
-  Pill,
-  Spinner,
-  Card
-} from '@devvit/components';
-import { getTrendingMemes } from '../server/memeEngine';
-import { MemeData } from '../storage/memeRegistry';
-import { TradingModal } from './Trading';
-import { useRedditApi } from '@devvit/hooks';
-
-// Categories for filtering
+import { Devvit, useForm, useInterval, useState } from '@devvit/public-api';
+import { listMemes, MarketplaceSort, MemePage } from '../server/memeEngine';
+import { MEME_CATEGORIES } from '../storage/categoryRegistry';
+import { getPriceChangePercent, MemeData } from '../storage/memeRegistry';
+import MemeDetail from './MemeDetail';
+import { TradingPanel } from './Trading';
+import { useService } from './useService';
+
+// Categories for filtering. 'trending' and 'new' are shortcuts that switch the
+// sort order rather than filtering by a category.
+const SORT_SHORTCUTS: Record<string, MarketplaceSort> = {
+  trending: 'trending',
+  new: 'new',
+};
+
 const CATEGORIES = [
   { id: 'all', label: 'All Memes' },
   { id: 'trending', label: '🔥 Trending' },
   { id: 'new', label: '🆕 New IPOs' },
-  { id: 'reaction', label: 'Reaction' },
-  { id: 'gaming', label: 'Gaming' },
-  { id: 'politics', label: 'Politics' },
-  { id: 'movies', label: 'Movies/TV' },
-  { id: 'animals', label: 'Animals' },
-  { id: 'tech', label: 'Tech' },
-  { id: 'sports', label: 'Sports' },
+  ...MEME_CATEGORIES,
+];
+
+const SORTS: { id: MarketplaceSort; label: string }[] = [
+  { id: 'trending', label: 'Trending' },
+  { id: 'new', label: 'Newest' },
+  { id: 'price-high', label: 'Price (High)' },
+  { id: 'price-low', label: 'Price (Low)' },
+  { id: 'volume', label: 'Volume' },
+  { id: 'market-cap', label: 'Market Cap' },
 ];
 
-export default function Marketplace() {
-  const [memes, setMemes] = useState<MemeData[]>([]);
-  const [loading, setLoading] = useState(true);
+// Rows that fit in a tall post alongside the filters and pager
+const PAGE_SIZE = 4;
+
+const REFRESH_INTERVAL_MS = 30000;
+
+function formatPriceChange(meme: MemeData): string {
+  const changePercent = getPriceChangePercent(meme) * 100;
+  const prefix = changePercent > 0 ? '+' : '';
+  return `${prefix}${changePercent.toFixed(2)}%`;
+}
+
+function priceChangeColor(meme: MemeData): string {
+  const change = getPriceChangePercent(meme);
+  return change > 0 ? 'success-plain' : change < 0 ? 'danger-plain' : 'neutral-content-weak';
+}
+
+function MemeRow({ meme, onTrade, onDetails }: {
+  meme: MemeData;
+  onTrade: () => void;
+  onDetails: () => void;
+}) {
+  return (
+    <hstack gap="small" alignment="middle" padding="xsmall" border="thin" cornerRadius="small">
+      <image
+        url={meme.templateUrl}
+        description={meme.title}
+        imageHeight={64}
+        imageWidth={64}
+        resizeMode="cover"
+      />
+
+      <vstack grow>
+        <text weight="bold" overflow="ellipsis">{meme.title}</text>
+        <text size="xsmall" color="neutral-content-weak" overflow="ellipsis">
+          by u/{meme.creatorName} · {meme.categories.join(', ')}
+        </text>
+        <hstack gap="small">
+          <text size="small" weight="bold">₽{meme.currentSharePrice.toFixed(2)}</text>
+          <text size="small" color={priceChangeColor(meme)}>{formatPriceChange(meme)}</text>
+          <text size="xsmall" color="neutral-content-weak">
+            {meme.availableShares}/{meme.totalShares} available
+          </text>
+        </hstack>
+      </vstack>
+
+      <vstack gap="small">
+        <button size="small" appearance="primary" onPress={onTrade}>
+          Trade
+        </button>
+        <button size="small" appearance="secondary" onPress={onDetails}>
+          Details
+        </button>
+      </vstack>
+    </hstack>
+  );
+}
+
+export default function Marketplace(_props: {}, context: Devvit.Context) {
+  const { ui } = context;
   const [selectedCategory, setSelectedCategory] = useState('all');
-  const [sortBy, setSortBy] = useState('trending');
-  const [selectedMeme, setSelectedMeme] = useState<MemeData | null>(null);
-  const [showTradingModal, setShowTradingModal] = useState(false);
-  
-  const reddit = useRedditApi();
-  
-  // Load memes
-  const loadMemes = useCallback(async () => {
-    setLoading(true);
-    
-    try {
-      // Fetch memes based on category and sort
-      const category = selectedCategory !== 'all' ? selectedCategory : null;
-      const memeData = await getTrendingMemes({ limit: 20, category });
-      
-      // Apply sorting
-      let sortedMemes = [...memeData];
-      
-      if (sortBy === 'trending') {
-        // Already sorted by trending in the server function
-      } else if (sortBy === 'new') {
-        sortedMemes.sort((a, b) => 
-          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
-      } else if (sortBy === 'price-high') {
-        sortedMemes.sort((a, b) => b.currentSharePrice - a.currentSharePrice);
-      } else if (sortBy === 'price-low') {
-        sortedMemes.sort((a, b) => a.currentSharePrice - b.currentSharePrice);
-      } else if (sortBy === 'volume') {
-        sortedMemes.sort((a, b) => b.tradeVolume - a.tradeVolume);
+  const [sortBy, setSortBy] = useState<MarketplaceSort>('trending');
+  const [minPrice, setMinPrice] = useState<number | null>(null);
+  const [maxPrice, setMaxPrice] = useState<number | null>(null);
+  const [creator, setCreator] = useState<{ id: string; username: string } | null>(null);
+  // Where each page after the first starts; the last one is the page shown
+  const [pageCursors, setPageCursors] = useState<string[]>([]);
+  const [tradingMemeId, setTradingMemeId] = useState<string | null>(null);
+  const [detailMemeId, setDetailMemeId] = useState<string | null>(null);
+  const [refresh, setRefresh] = useState(0);
+
+  // Prices move on every market tick and trade, so keep the listing fresh
+  useInterval(() => setRefresh(refresh + 1), REFRESH_INTERVAL_MS).start();
+
+  const cursor = pageCursors.length > 0 ? pageCursors[pageCursors.length - 1] : null;
+
+  // Sorting and filtering both happen on the server
+  const { data: listing, loading } = useService<MemePage>(async () => {
+    const category = selectedCategory !== 'all' && !SORT_SHORTCUTS[selectedCategory]
+      ? selectedCategory
+      : null;
+
+    return await listMemes({
+      sort: sortBy,
+      category,
+      minPrice: minPrice ?? undefined,
+      maxPrice: maxPrice ?? undefined,
+      creatorId: creator?.id,
+      cursor,
+      limit: PAGE_SIZE,
+    }, context);
+  }, [selectedCategory, sortBy, minPrice, maxPrice, creator?.id ?? null, cursor, refresh]);
+
+  const filterForm = useForm(
+    () => ({
+      title: 'Filter memes',
+      fields: [
+        {
+          type: 'select',
+          name: 'category',
+          label: 'Category',
+          options: CATEGORIES.map(category => ({ label: category.label, value: category.id })),
+          defaultValue: [selectedCategory],
+        },
+        {
+          type: 'select',
+          name: 'sort',
+          label: 'Sort by',
+          options: SORTS.map(sort => ({ label: sort.label, value: sort.id })),
+          defaultValue: [sortBy],
+        },
+        {
+          type: 'number',
+          name: 'minPrice',
+          label: 'Lowest price (₽)',
+          helpText: 'Leave empty for no minimum',
+          defaultValue: minPrice ?? undefined,
+        },
+        {
+          type: 'number',
+          name: 'maxPrice',
+          label: 'Highest price (₽)',
+          helpText: 'Leave empty for no maximum',
+          defaultValue: maxPrice ?? undefined,
+        },
+        {
+          type: 'string',
+          name: 'creator',
+          label: 'Creator',
+          placeholder: 'u/someone',
+          helpText: 'Only memes launched by this user',
+          defaultValue: creator ? `u/${creator.username}` : '',
+        },
+      ],
+      acceptLabel: 'Apply',
+    }),
+    async values => {
+      const { reddit } = context;
+
+      const lowest = values.minPrice ?? null;
+      const highest = values.maxPrice ?? null;
+      if ((lowest !== null && lowest < 0) || (highest !== null && highest < 0)) {
+        ui.showToast('Prices can\'t be negative');
+        return;
       }
-      
-      setMemes(sortedMemes);
-    } catch (error) {
-      console.error('Error loading memes:', error);
-    } finally {
-      setLoading(false);
+      if (lowest !== null && highest !== null && lowest > highest) {
+        ui.showToast('The lowest price must not be above the highest');
+        return;
+      }
+
+      const creatorName = (values.creator ?? '').trim().replace(/^u\//i, '');
+      let creatorUser: { id: string; username: string } | null = null;
+      if (creatorName) {
+        try {
+          const user = await reddit.getUserByUsername(creatorName);
+          if (!user) {
+            ui.showToast(`User not found: u/${creatorName}`);
+            return;
+          }
+          creatorUser = { id: user.id, username: user.username };
+        } catch (error) {
+          console.error(`Error looking up u/${creatorName}:`, error);
+          ui.showToast(`User not found: u/${creatorName}`);
+          return;
+        }
+      }
+
+      const category = values.category?.[0] ?? 'all';
+      setSelectedCategory(category);
+      setSortBy(SORT_SHORTCUTS[category] ?? (values.sort?.[0] as MarketplaceSort) ?? sortBy);
+      setMinPrice(lowest);
+      setMaxPrice(highest);
+      setCreator(creatorUser);
+      setPageCursors([]);
     }
-  }, [selectedCategory, sortBy]);
-  
-  useEffect(() => {
-    loadMemes();
-    
-    // Set up refresh interval (every 30 seconds)
-    const interval = setInterval(loadMemes, 30000);
-    
-    return () => clearInterval(interval);
-  }, [loadMemes]);
-  
-  const handleCategoryChange = useCallback((category: string) => {
-    setSelectedCategory(category);
-  }, []);
-  
-  const handleSortChange = useCallback((sort: string) => {
-    setSortBy(sort);
-  }, []);
-  
-  const handleTradePress = useCallback((meme: MemeData) => {
-    setSelectedMeme(meme);
-    setShowTradingModal(true);
-  }, []);
-  
-  const handleCloseTrading = useCallback(() => {
-    setShowTradingModal(false);
-    // Refresh data after trading
-    loadMemes();
-  }, [loadMemes]);
-  
-  const getPriceChangeClass = useCallback((meme: MemeData) => {
-    if (meme.priceHistory.length < 2) return 'neutral';
-    
-    const current = meme.priceHistory[meme.priceHistory.length - 1].price;
-    const previous = meme.priceHistory[meme.priceHistory.length - 2].price;
-    const change = current - previous;
-    
-    return change > 0 ? 'positive' : change < 0 ? 'negative' : 'neutral';
-  }, []);
-  
-  const formatPriceChange = useCallback((meme: MemeData) => {
-    if (meme.priceHistory.length < 2) return '+0.00%';
-    
-    const current = meme.priceHistory[meme.priceHistory.length - 1].price;
-    const previous = meme.priceHistory[meme.priceHistory.length - 2].price;
-    const changePercent = ((current - previous) / previous) * 100;
-    
-    const prefix = changePercent > 0 ? '+' : '';
-    return `${prefix}${changePercent.toFixed(2)}%`;
-  }, []);
+  );
+
+  if (tradingMemeId) {
+    return (
+      <TradingPanel
+        memeId={tradingMemeId}
+        onClose={() => {
+          setTradingMemeId(null);
+          // Refresh data after trading
+          setRefresh(refresh + 1);
+        }}
+      />
+    );
+  }
+
+  // Trading from the detail page returns to it afterwards
+  if (detailMemeId) {
+    return (
+      <MemeDetail
+        memeId={detailMemeId}
+        onClose={() => setDetailMemeId(null)}
+        onTrade={() => setTradingMemeId(detailMemeId)}
+      />
+    );
+  }
+
+  const categoryLabel = CATEGORIES.find(category => category.id === selectedCategory)?.label ?? 'All Memes';
+  const sortLabel = SORTS.find(sort => sort.id === sortBy)?.label ?? 'Trending';
+  const filterLabels = [
+    minPrice !== null || maxPrice !== null
+      ? `₽${(minPrice ?? 0).toFixed(2)}–${maxPrice !== null ? `₽${maxPrice.toFixed(2)}` : 'any'}`
+      : null,
+    creator ? `by u/${creator.username}` : null,
+  ].filter(label => label !== null);
 
   return (
-    <Box padding="medium">
-      <Heading level="2">Meme Marketplace</Heading>
-      <Text color="secondary">Buy, sell, and trade shares in the hottest memes!</Text>
-      <Divider />
-      
-      {/* Category filters */}
-      <Box marginY="medium">
-        <HStack gap="small" wrap="wrap">
-          {CATEGORIES.map(category => (
-            <Pill
-              key={category.id}
-              variant={selectedCategory === category.id ? "primary" : "secondary"}
-              onPress={() => handleCategoryChange(category.id)}
-            >
-              {category.label}
-            </Pill>
-          ))}
-        </HStack>
-      </Box>
-      
-      {/* Sorting options */}
-      <Box marginY="medium">
-        <Tabs
-          value={sortBy}
-          onChange={value => handleSortChange(value as string)}
-        >
-          <Tab value="trending" label="Trending" />
-          <Tab value="new" label="Newest" />
-          <Tab value="price-high" label="Price (High)" />
-          <Tab value="price-low" label="Price (Low)" />
-          <Tab value="volume" label="Volume" />
-        </Tabs>
-      </Box>
-      
-      {/* Meme listings */}
-      {loading ? (
-        <Box height="200px" display="flex" alignItems="center" justifyContent="center">
-          <Spinner size="large" />
-        </Box>
-      ) : memes.length === 0 ? (
-        <Box padding="large" display="flex" alignItems="center" justifyContent="center">
-          <Text>No memes found for this category</Text>
-        </Box>
+    <vstack gap="small" padding="small" grow>
+      <hstack alignment="middle">
+        <vstack grow>
+          <text size="large" weight="bold">Meme Marketplace</text>
+          <text size="small" color="neutral-content-weak" overflow="ellipsis">
+            {[categoryLabel, ...filterLabels].join(' · ')} · sorted by {sortLabel}
+          </text>
+        </vstack>
+        <button size="small" appearance="secondary" icon="filter" onPress={() => ui.showForm(filterForm)}>
+          Filter
+        </button>
+      </hstack>
+
+      {loading && !listing ? (
+        <vstack grow alignment="center middle">
+          <text>Loading memes...</text>
+        </vstack>
+      ) : !listing || listing.memes.length === 0 ? (
+        <vstack grow alignment="center middle">
+          <text>No memes match these filters</text>
+        </vstack>
       ) : (
-        <VStack gap="medium">
-          {memes.map(meme => (
-            <Card key={meme.id}>
-              <HStack gap="medium" alignItems="stretch">
-                {/* Meme preview */}
-                <Box width="120px" height="120px">
-                  <Image 
-                    src={meme.templateUrl} 
-                    aspectRatio={1}
-                    borderRadius="medium"
-                  />
-                </Box>
-                
-                {/* Meme details */}
-                <VStack flex={1} gap="xsmall" justifyContent="space-between">
-                  <HStack justifyContent="space-between" alignItems="flex-start">
-                    <Heading level="3">{meme.title}</Heading>
-                    <HStack gap="xsmall">
-                      {meme.categories.map(cat => (
-                        <Pill key={cat} size="small">{cat}</Pill>
-                      ))}
-                    </HStack>
-                  </HStack>
-                  
-                  <Text size="small" color="secondary">
-                    Created by u/{meme.creatorName}
-                  </Text>
-                  
-                  <HStack justifyContent="space-between" alignItems="center">
-                    <HStack gap="small">
-                      <Text weight="bold">₽{meme.currentSharePrice.toFixed(2)}</Text>
-                      <Text 
-                        className={getPriceChangeClass(meme)}
-                        color={getPriceChangeClass(meme) === 'positive' ? 'green' : 
-                               getPriceChangeClass(meme) === 'negative' ? 'red' : 'secondary'}
-                      >
-                        {formatPriceChange(meme)}
-                      </Text>
-                    </HStack>
-                    
-                    <Text size="small">
-                      Available: {meme.availableShares}/{meme.totalShares} shares
-                    </Text>
-                  </HStack>
-                </VStack>
-                
-                {/* Actions */}
-                <VStack justifyContent="center" gap="small">
-                  <Button
-                    variant="primary"
-                    onPress={() => handleTradePress(meme)}
-                  >
-                    Trade
-                  </Button>
-                  <Button
-                    variant="secondary"
-                    onPress={() => {
-                      // Navigate to meme detail page (would be implemented in full app)
-                      console.log(`View details for ${meme.id}`);
-                    }}
-                  >
-                    Details
-                  </Button>
-                </VStack>
-              </HStack>
-            </Card>
+        <vstack gap="small" grow>
+          {listing.memes.map(meme => (
+            <MemeRow
+              meme={meme}
+              onTrade={() => setTradingMemeId(meme.id)}
+              onDetails={() => setDetailMemeId(meme.id)}
+            />
           ))}
-        </VStack>
+        </vstack>
       )}
-      
-      {/* Trading modal */}
-      {showTradingModal && selectedMeme && (
-        <TradingModal
-          meme={selectedMeme}
-          onClose={handleCloseTrading}
-        />
+
+      {(pageCursors.length > 0 || !!listing?.nextCursor) && (
+        <hstack gap="small" alignment="center middle">
+          <button
+            size="small"
+            icon="back"
+            disabled={loading || pageCursors.length === 0}
+            onPress={() => setPageCursors(pageCursors.slice(0, -1))}
+          />
+          <text size="small" color="neutral-content-weak">Page {pageCursors.length + 1}</text>
+          <button
+            size="small"
+            icon="forward"
+            disabled={loading || !listing?.nextCursor}
+            onPress={() => setPageCursors([...pageCursors, listing!.nextCursor!])}
+          />
+        </hstack>
       )}
-    </Box>
+    </vstack>
   );
-}
\ No newline at end of file
+}
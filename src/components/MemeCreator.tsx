@@ -1,220 +1,220 @@
-import { 
-    useState, 
-    useCallback 
-  } from 'react';
-  import {
-    Box,
-    Button,
-    Form,
-    Select,
-    Text,
-    TextInput,
-    useForm,
-    VStack,
-    Image,
-    HStack,
-    Heading,
-    Divider,
-    Pill
-  } from '@devvit/components';
-  import { createMeme } from '../server/memeEngine';
-  import { useRedditApi } from '@devvit/hooks';
-  
-  // Sample templates to get started
-  const MEME_TEMPLATES = [
-    { id: 'drake', name: 'Drake Hotline Bling', imageUrl: 'https://i.imgur.com/dZLQxdu.png' },
-    { id: 'distracted', name: 'Distracted Boyfriend', imageUrl: 'https://i.imgur.com/tpLdFRn.png' },
-    { id: 'button', name: 'Two Buttons', imageUrl: 'https://i.imgur.com/sYkuXlX.png' },
-    { id: 'change', name: "Change My Mind", imageUrl: 'https://i.imgur.com/tKDx1uo.jpeg' },
-    { id: 'custom', name: '✨ Upload Custom Template', imageUrl: '' }
-  ];
-  
-  // Categories to tag memes
-  const MEME_CATEGORIES = [
-    { value: 'reaction', label: 'Reaction' },
-    { value: 'gaming', label: 'Gaming' },
-    { value: 'politics', label: 'Politics' },
-    { value: 'movies', label: 'Movies/TV' },
-    { value: 'animals', label: 'Animals' },
-    { value: 'tech', label: 'Tech' },
-    { value: 'sports', label: 'Sports' },
-  ];
-  
-  export default function MemeCreator({ onMemeCreated }) {
-    const reddit = useRedditApi();
-    const [selectedTemplate, setSelectedTemplate] = useState(MEME_TEMPLATES[0]);
-    const [selectedCategories, setSelectedCategories] = useState([]);
-    const [isUploading, setIsUploading] = useState(false);
-    const [customTemplateUrl, setCustomTemplateUrl] = useState('');
-    
-    const form = useForm({
-      title: '',
-      topText: '',
-      bottomText: '',
-      initialSharePrice: '10',
-      categories: []
-    });
-  
-    const handleTemplateChange = useCallback((templateId) => {
-      const template = MEME_TEMPLATES.find(t => t.id === templateId);
-      setSelectedTemplate(template);
-    }, []);
-  
-    const handleCategoryChange = useCallback((category) => {
-      setSelectedCategories(prev => {
-        if (prev.includes(category)) {
-          return prev.filter(c => c !== category);
-        } else {
-          return [...prev, category];
-        }
-      });
-    }, []);
-  
-    const handleCustomUpload = useCallback(async () => {
-      // In a real implementation, this would integrate with Reddit's image upload API
-      // For hackathon purposes, we can simulate with a placeholder
-      setIsUploading(true);
-      
+import { Devvit, useForm, useState } from '@devvit/public-api';
+import { getIpoTerms } from '../server/marketControls';
+import { createMeme } from '../server/memeEngine';
+import { getTemplateLibrary, TemplateEntry, uploadCustomTemplate } from '../server/templateLibrary';
+import { fieldHelp, ValidationError } from '../server/validation';
+import { MEME_CATEGORIES } from '../storage/categoryRegistry';
+import { MemeListing } from '../storage/memeisting';
+import { TemplateStats } from '../storage/templateRegistry';
+import { useService } from './useService';
+
+// One line on how a template's memes have done, to help creators pick
+function formatTemplateStats(stats: TemplateStats): string {
+  if (stats.uses === 0 || stats.averageReturn === null) {
+    return 'No memes listed with this template yet';
+  }
+
+  const average = `${stats.averageReturn > 0 ? '+' : ''}${stats.averageReturn.toFixed(1)}%`;
+  const best = stats.best ? ` · best: ${stats.best.title}` : '';
+  return `Used by ${stats.uses} memes · avg ${average} since IPO${best}`;
+}
+
+export default function MemeCreator(
+  { onMemeCreated }: { onMemeCreated?: (listing: MemeListing) => void },
+  context: Devvit.Context
+) {
+  const { ui } = context;
+  const [templateIndex, setTemplateIndex] = useState(0);
+  // The creator's own upload, which sits after the library in the picker
+  const [customTemplate, setCustomTemplate] = useState<{ id: string; name: string; imageUrl: string } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: library, loading } = useService<TemplateEntry[]>(() => getTemplateLibrary({}, context));
+  const templates = library ?? [];
+  const { data: terms } = useService(() => getIpoTerms({}, context));
+
+  const isCustomSlot = templateIndex >= templates.length;
+  const selected = isCustomSlot ? null : templates[templateIndex];
+  const templateId = selected ? selected.template.id : customTemplate?.id ?? '';
+  const templateName = selected ? selected.template.name : customTemplate?.name ?? '✨ Upload Custom Template';
+  const templateUrl = selected ? selected.template.imageUrl : customTemplate?.imageUrl ?? '';
+
+  const uploadForm = useForm(
+    {
+      title: 'Upload a custom template',
+      description: 'Upload an image or link one directly. Linked images are copied to Reddit.',
+      fields: [
+        { type: 'string', name: 'name', label: 'Template name', required: true },
+        { type: 'image', name: 'image', label: 'Upload an image' },
+        { type: 'string', name: 'imageUrl', label: 'Or link an image', placeholder: 'https://…/template.png' },
+      ],
+      acceptLabel: 'Upload',
+    },
+    async values => {
+      const imageUrl = values.image || values.imageUrl;
+      if (!imageUrl) {
+        ui.showToast('Upload or link an image for your template');
+        return;
+      }
+
       try {
-        // Simplified for demo - would use reddit.uploadMedia() in production
-        setTimeout(() => {
-          setCustomTemplateUrl('https://i.imgur.com/placeholder.png');
-          setIsUploading(false);
-        }, 1500);
+        const template = await uploadCustomTemplate({ name: values.name ?? '', imageUrl }, context);
+        setCustomTemplate({ id: template.id, name: template.name, imageUrl: template.imageUrl });
       } catch (error) {
-        console.error("Error uploading image:", error);
-        setIsUploading(false);
+        console.error('Error uploading template:', error);
+        ui.showToast(error instanceof Error ? error.message : 'Could not upload your template');
       }
-    }, []);
-  
-    const handleSubmit = useCallback(async (data) => {
+    }
+  );
+
+  // Shown again with the creator's entries and an error under each field
+  // the server refused
+  const memeForm = useForm(
+    (data) => ({
+      title: 'Launch your meme IPO',
+      description: 'Moderators review every new meme before it lists. Your fee is refunded if it\'s rejected.',
+      fields: [
+        {
+          type: 'string',
+          name: 'title',
+          label: 'Meme Title',
+          helpText: fieldHelp(data.errors, 'title', 'Give your meme a catchy name'),
+          defaultValue: data.title,
+          required: true,
+        },
+        { type: 'string', name: 'topText', label: 'Top Text', helpText: fieldHelp(data.errors, 'topText'), defaultValue: data.topText },
+        { type: 'string', name: 'bottomText', label: 'Bottom Text', helpText: fieldHelp(data.errors, 'bottomText'), defaultValue: data.bottomText },
+        {
+          type: 'select',
+          name: 'categories',
+          label: 'Categories',
+          helpText: fieldHelp(data.errors, 'categories'),
+          options: MEME_CATEGORIES.map(category => ({ label: category.label, value: category.id })),
+          defaultValue: data.categories,
+          multiSelect: true,
+        },
+        {
+          type: 'number',
+          name: 'initialSharePrice',
+          label: 'Initial Price (₽)',
+          helpText: fieldHelp(
+            data.errors,
+            'initialSharePrice',
+            terms
+              ? `Set between ₽${terms.minIpoPrice} and ₽${terms.maxIpoPrice}; the listing fee is ${terms.ipoFeeMultiplier}× this. Higher values indicate higher confidence!`
+              : 'Higher values indicate higher confidence!'
+          ),
+          defaultValue: data.initialSharePrice ?? 10,
+          required: true,
+        },
+      ],
+      acceptLabel: 'Submit Meme IPO for Review',
+    }),
+    async values => {
+      setSubmitting(true);
+
+      const submission = {
+        templateId,
+        title: values.title ?? '',
+        topText: values.topText,
+        bottomText: values.bottomText,
+        categories: values.categories ?? [],
+        initialSharePrice: values.initialSharePrice ?? 10,
+      };
+
       try {
-        const memeData = {
-          ...data,
-          templateId: selectedTemplate.id,
-          templateUrl: selectedTemplate.id === 'custom' ? customTemplateUrl : selectedTemplate.imageUrl,
-          createdAt: new Date().toISOString(),
-          categories: selectedCategories,
-          initialSharePrice: parseFloat(data.initialSharePrice)
-        };
-        
-        // Call server function to create the meme
-        const newMeme = await createMeme(memeData);
-        
+        // Call the service to submit the meme for review
+        const listing = await createMeme(submission, context);
+
         if (onMemeCreated) {
-          onMemeCreated(newMeme);
+          onMemeCreated(listing);
         }
-        
-        // Reset form
-        form.reset();
-        setSelectedCategories([]);
-        setSelectedTemplate(MEME_TEMPLATES[0]);
-        setCustomTemplateUrl('');
-        
+
+        // Reset the template picker
+        setTemplateIndex(0);
+        setCustomTemplate(null);
       } catch (error) {
         console.error("Error creating meme:", error);
+        const errors = error instanceof ValidationError ? error.byField() : null;
+        if (errors && !errors.templateId) {
+          ui.showForm(memeForm, {
+            title: submission.title,
+            topText: submission.topText ?? '',
+            bottomText: submission.bottomText ?? '',
+            categories: submission.categories,
+            initialSharePrice: submission.initialSharePrice,
+            errors,
+          });
+        } else {
+          ui.showToast(error instanceof Error ? error.message : 'Could not submit your meme');
+        }
+      } finally {
+        setSubmitting(false);
       }
-    }, [selectedTemplate, customTemplateUrl, selectedCategories, onMemeCreated, form]);
-  
-    return (
-      <Box padding="medium">
-        <Heading level="2">Meme Creator Studio</Heading>
-        <Text color="secondary">Launch your meme IPO on the MemeTycoon marketplace!</Text>
-        <Divider />
-        
-        <Form onSubmit={handleSubmit} form={form}>
-          <VStack gap="medium">
-            <Box>
-              <Text weight="bold">1. Choose a template</Text>
-              <Select
-                name="templateId"
-                options={MEME_TEMPLATES.map(template => ({
-                  value: template.id,
-                  label: template.name
-                }))}
-                onChange={handleTemplateChange}
-              />
-              
-              {selectedTemplate.id === 'custom' && (
-                <VStack gap="small" padding="small">
-                  <Button 
-                    variant="secondary" 
-                    onPress={handleCustomUpload}
-                    loading={isUploading}
-                  >
-                    Upload Custom Template
-                  </Button>
-                  {customTemplateUrl && (
-                    <Image src={customTemplateUrl} aspectRatio={16/9} />
-                  )}
-                </VStack>
-              )}
-              
-              {selectedTemplate.id !== 'custom' && selectedTemplate.imageUrl && (
-                <Box padding="small">
-                  <Image src={selectedTemplate.imageUrl} aspectRatio={16/9} />
-                </Box>
-              )}
-            </Box>
-            
-            <Box>
-              <Text weight="bold">2. Add your text</Text>
-              <VStack gap="small">
-                <TextInput
-                  name="title"
-                  label="Meme Title"
-                  placeholder="Give your meme a catchy name"
-                  required
-                />
-                <TextInput
-                  name="topText"
-                  label="Top Text"
-                  placeholder="Text for the top of the meme"
-                />
-                <TextInput
-                  name="bottomText"
-                  label="Bottom Text"
-                  placeholder="Text for the bottom of the meme"
-                />
-              </VStack>
-            </Box>
-            
-            <Box>
-              <Text weight="bold">3. Set categories</Text>
-              <HStack gap="small" wrap="wrap">
-                {MEME_CATEGORIES.map(category => (
-                  <Pill
-                    key={category.value}
-                    variant={selectedCategories.includes(category.value) ? "primary" : "secondary"}
-                    onPress={() => handleCategoryChange(category.value)}
-                  >
-                    {category.label}
-                  </Pill>
-                ))}
-              </HStack>
-            </Box>
-            
-            <Box>
-              <Text weight="bold">4. Set initial share price</Text>
-              <TextInput
-                name="initialSharePrice"
-                label="Initial Price (₽)"
-                defaultValue="10"
-                type="number"
-                min="1"
-                max="100"
-                required
-              />
-              <Text size="small" color="secondary">
-                Set between 1-100 MemeCoins (₽). Higher values indicate higher confidence!
-              </Text>
-            </Box>
-            
-            <Button type="submit" variant="primary" size="large">
-              Launch Meme IPO
-            </Button>
-          </VStack>
-        </Form>
-      </Box>
-    );
-  }
\ No newline at end of file
+    }
+  );
+
+  return (
+    <vstack gap="small" padding="small" grow>
+      <vstack>
+        <text size="large" weight="bold">Meme Creator Studio</text>
+        <text size="small" color="neutral-content-weak">Launch your meme IPO on the MemeTycoon marketplace!</text>
+      </vstack>
+
+      <text weight="bold">1. Choose a template</text>
+      <hstack gap="small" alignment="middle">
+        <button
+          size="small"
+          icon="back"
+          disabled={templateIndex === 0}
+          onPress={() => setTemplateIndex(templateIndex - 1)}
+        />
+        <text grow alignment="center">{templateName}</text>
+        <button
+          size="small"
+          icon="forward"
+          disabled={templateIndex >= templates.length}
+          onPress={() => setTemplateIndex(templateIndex + 1)}
+        />
+      </hstack>
+      {selected ? (
+        <text size="xsmall" color="neutral-content-weak" alignment="center" overflow="ellipsis">
+          {selected.template.tags.map(tag => `#${tag}`).join(' ')} {formatTemplateStats(selected.stats)}
+        </text>
+      ) : customTemplate ? (
+        <button size="small" appearance="plain" onPress={() => ui.showForm(uploadForm)}>
+          Upload a different image
+        </button>
+      ) : null}
+
+      <vstack grow alignment="center middle">
+        {loading ? (
+          <text>Loading templates...</text>
+        ) : templateUrl ? (
+          <image
+            url={templateUrl}
+            description={templateName}
+            imageHeight={512}
+            imageWidth={512}
+            height="100%"
+            width="100%"
+            resizeMode="fit"
+          />
+        ) : (
+          <button appearance="secondary" icon="upload" onPress={() => ui.showForm(uploadForm)}>
+            Upload Custom Template
+          </button>
+        )}
+      </vstack>
+
+      <text weight="bold">2. Add your text, categories and price</text>
+      <button
+        appearance="primary"
+        disabled={submitting || !templateUrl}
+        onPress={() => ui.showForm(memeForm, {})}
+      >
+        {submitting ? 'Submitting...' : 'Write your meme'}
+      </button>
+    </vstack>
+  );
+}
@@ -0,0 +1,291 @@
+import { Devvit, useForm, useState } from '@devvit/public-api';
+import { getMemeDetail, MemeDetail as MemeDetailData } from '../server/memeDetail';
+import { createPriceAlert, describeAlert } from '../server/notifications';
+import { fieldHelp, ValidationError } from '../server/validation';
+import { MemeImage } from '../posts/memePost';
+import { Candle, CandleResolution } from '../storage/marketHistory';
+import { getPriceChangePercent } from '../storage/memeRegistry';
+import { AlertKind } from '../storage/notifications';
+import { useService } from './useService';
+
+type DetailSection = 'chart' | 'trades' | 'holders';
+
+const SECTIONS: { id: DetailSection; label: string }[] = [
+  { id: 'chart', label: 'Chart' },
+  { id: 'trades', label: 'Trades' },
+  { id: 'holders', label: 'Holders' },
+];
+
+const RESOLUTIONS: { id: CandleResolution; label: string }[] = [
+  { id: 'hour', label: '24H' },
+  { id: 'day', label: '30D' },
+  { id: 'week', label: '6M' },
+];
+
+function formatCoins(amount: number): string {
+  return `₽${amount.toFixed(2)}`;
+}
+
+// Compact amounts for the stats row, e.g. ₽12.4k
+function formatCompact(amount: number): string {
+  if (amount >= 1000000) return `₽${(amount / 1000000).toFixed(1)}M`;
+  if (amount >= 1000) return `₽${(amount / 1000).toFixed(1)}k`;
+  return formatCoins(amount);
+}
+
+function formatTimeAgo(iso: string): string {
+  const minutes = Math.floor((Date.now() - Date.parse(iso)) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (24 * 60))}d ago`;
+}
+
+function Stat({ label, value, color }: { label: string; value: string; color?: string }) {
+  return (
+    <vstack>
+      <text size="xsmall" color="neutral-content-weak">{label}</text>
+      <text size="small" weight="bold" color={color}>{value}</text>
+    </vstack>
+  );
+}
+
+// One bar per candle spanning its low to high, colored by whether it closed
+// above its open
+function PriceChart({ candles }: { candles: Candle[] }) {
+  if (candles.length === 0) {
+    return (
+      <vstack height="96px" alignment="center middle">
+        <text size="small" color="neutral-content-weak">No trading history yet</text>
+      </vstack>
+    );
+  }
+
+  const low = Math.min(...candles.map(candle => candle.low));
+  const high = Math.max(...candles.map(candle => candle.high));
+  const range = high - low || 1;
+  const percentOf = (price: number) => Math.round(((price - low) / range) * 100);
+
+  return (
+    <vstack gap="none">
+      <hstack height="96px" width="100%" gap="none">
+        {candles.map(candle => (
+          <vstack grow height="100%" alignment="center" padding="none">
+            <spacer height={`${100 - Math.max(percentOf(candle.high), percentOf(candle.low) + 4)}%`} />
+            <vstack
+              height={`${Math.max(4, percentOf(candle.high) - percentOf(candle.low))}%`}
+              width="70%"
+              backgroundColor={candle.close >= candle.open ? 'success-plain' : 'danger-plain'}
+              cornerRadius="small"
+            />
+          </vstack>
+        ))}
+      </hstack>
+      <hstack>
+        <text size="xsmall" color="neutral-content-weak" grow>Low {formatCoins(low)}</text>
+        <text size="xsmall" color="neutral-content-weak">High {formatCoins(high)}</text>
+      </hstack>
+    </vstack>
+  );
+}
+
+function TradeTape({ detail }: { detail: MemeDetailData }) {
+  if (detail.trades.length === 0) {
+    return <text size="small" color="neutral-content-weak">Nobody has traded this meme yet</text>;
+  }
+
+  return (
+    <vstack gap="none">
+      {detail.trades.map(trade => (
+        <hstack>
+          <text size="small" weight="bold" width="44px" color={trade.side === 'buy' ? 'success-plain' : 'danger-plain'}>
+            {trade.side === 'buy' ? 'BUY' : 'SELL'}
+          </text>
+          <text size="small" grow>{trade.shares} at {formatCoins(trade.price)}</text>
+          <text size="xsmall" color="neutral-content-weak">{formatTimeAgo(trade.timestamp)}</text>
+        </hstack>
+      ))}
+    </vstack>
+  );
+}
+
+function HolderList({ detail }: { detail: MemeDetailData }) {
+  if (detail.holders.length === 0) {
+    return <text size="small" color="neutral-content-weak">Nobody holds this meme</text>;
+  }
+
+  return (
+    <vstack gap="none">
+      {detail.holders.map(holder => (
+        <hstack>
+          <text size="small" weight="bold" width="32px">#{holder.rank}</text>
+          <text size="small" grow overflow="ellipsis">
+            u/{holder.username}{holder.userId === detail.meme.creatorId ? ' 🎨' : ''}
+          </text>
+          <text size="small">
+            {holder.score} shares · {((holder.score / detail.meme.totalShares) * 100).toFixed(1)}%
+          </text>
+        </hstack>
+      ))}
+      {detail.holderCount > detail.holders.length && (
+        <text size="xsmall" color="neutral-content-weak">
+          and {detail.holderCount - detail.holders.length} more
+        </text>
+      )}
+    </vstack>
+  );
+}
+
+// Full page for one meme: the composed image, its price chart and market
+// stats, the latest trades, its biggest holders and a link to its post
+export default function MemeDetail(
+  { memeId, onClose, onTrade }: { memeId: string; onClose: () => void; onTrade: () => void },
+  context: Devvit.Context
+) {
+  const { reddit, ui } = context;
+  const [section, setSection] = useState<DetailSection>('chart');
+  const [resolution, setResolution] = useState<CandleResolution>('hour');
+
+  const { data: detail, loading } = useService<MemeDetailData>(
+    () => getMemeDetail({ memeId, resolution }, context),
+    [memeId, resolution]
+  );
+
+  const alertForm = useForm(
+    (data) => ({
+      title: 'Set a price alert',
+      description: 'You\'ll get a notification in your inbox, and a Reddit message unless you\'ve turned those off.',
+      fields: [
+        {
+          type: 'select',
+          name: 'kind',
+          label: 'Notify me when the price',
+          options: [
+            { label: 'Rises to', value: 'above' },
+            { label: 'Falls to', value: 'below' },
+            { label: 'Moves by this % in one tick', value: 'move' },
+          ],
+          helpText: fieldHelp(data.errors, 'kind'),
+          defaultValue: [data.kind ?? 'above'],
+          required: true,
+        },
+        {
+          type: 'number',
+          name: 'threshold',
+          label: 'Price (₽) or move (%)',
+          helpText: fieldHelp(data.errors, 'threshold'),
+          defaultValue: data.threshold,
+          required: true,
+        },
+      ],
+      acceptLabel: 'Set alert',
+    }),
+    async values => {
+      const kind = values.kind[0] as AlertKind;
+      const threshold = values.threshold ?? 0;
+
+      try {
+        const alert = await createPriceAlert({ memeId, kind, threshold }, context);
+        ui.showToast(`We'll let you know when it ${describeAlert(alert)}`);
+      } catch (error) {
+        console.error('Error setting price alert:', error);
+        if (error instanceof ValidationError && !error.byField().memeId) {
+          ui.showForm(alertForm, { kind, threshold, errors: error.byField() });
+        } else {
+          ui.showToast(error instanceof Error ? error.message : 'Could not set this alert');
+        }
+      }
+    }
+  );
+
+  if (!detail) {
+    return (
+      <vstack grow gap="small" alignment="center middle">
+        <text>{loading ? 'Loading meme...' : 'This meme could not be loaded'}</text>
+        <button size="small" appearance="secondary" onPress={onClose}>
+          Back to marketplace
+        </button>
+      </vstack>
+    );
+  }
+
+  const { meme, day } = detail;
+  const change = getPriceChangePercent(meme) * 100;
+
+  const openPost = async () => {
+    if (!meme.postId) return;
+    try {
+      ui.navigateTo(await reddit.getPostById(meme.postId));
+    } catch (error) {
+      console.error(`Error opening post for meme ${meme.id}:`, error);
+      ui.showToast('That post could not be opened');
+    }
+  };
+
+  return (
+    <vstack gap="small" padding="small" grow>
+      <hstack gap="small" alignment="middle">
+        <button size="small" icon="back" appearance="secondary" onPress={onClose} />
+        <vstack grow>
+          <text weight="bold" overflow="ellipsis">{meme.title}</text>
+          <text size="xsmall" color="neutral-content-weak" overflow="ellipsis">
+            by u/{meme.creatorName} · {meme.categories.join(', ')}
+          </text>
+        </vstack>
+        <button size="small" icon="notification" appearance="secondary" disabled={!!meme.delistedAt} onPress={() => ui.showForm(alertForm, {})} />
+        <vstack alignment="end">
+          <text weight="bold">{formatCoins(meme.currentSharePrice)}</text>
+          <text size="xsmall" color={change > 0 ? 'success-plain' : change < 0 ? 'danger-plain' : 'neutral-content-weak'}>
+            {change > 0 ? '+' : ''}{change.toFixed(2)}%
+          </text>
+        </vstack>
+      </hstack>
+
+      <MemeImage meme={meme} height="140px" />
+
+      <hstack gap="medium">
+        <Stat label="Market cap" value={formatCompact(detail.marketCap)} />
+        <Stat label="24h range" value={day ? `${formatCoins(day.low)}–${formatCoins(day.high)}` : '–'} />
+        <Stat label="24h volume" value={day ? `${day.volume} shares` : '0 shares'} />
+      </hstack>
+
+      <hstack gap="small">
+        {SECTIONS.map(tab => (
+          <button size="small" appearance={section === tab.id ? 'primary' : 'secondary'} onPress={() => setSection(tab.id)}>
+            {tab.label}
+          </button>
+        ))}
+      </hstack>
+
+      <vstack grow>
+        {section === 'chart' && (
+          <vstack gap="small">
+            <PriceChart candles={detail.chart} />
+            <hstack gap="small">
+              {RESOLUTIONS.map(option => (
+                <button
+                  size="small"
+                  appearance={resolution === option.id ? 'primary' : 'plain'}
+                  onPress={() => setResolution(option.id)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </hstack>
+          </vstack>
+        )}
+        {section === 'trades' && <TradeTape detail={detail} />}
+        {section === 'holders' && <HolderList detail={detail} />}
+      </vstack>
+
+      <hstack gap="small">
+        <button appearance="primary" grow disabled={!!meme.delistedAt} onPress={onTrade}>
+          Trade
+        </button>
+        <button appearance="secondary" grow icon="external" disabled={!meme.postId} onPress={openPost}>
+          View post
+        </button>
+      </hstack>
+    </vstack>
+  );
+}
@@ -0,0 +1,412 @@
+import { Devvit, useInterval, useState } from '@devvit/public-api';
+import { cancelOrder, listMyOrders, Order, OrderType } from '../server/orderBook';
+import { getMyPortfolio, HoldingValuation, MyPortfolio } from '../server/portfolioEngine';
+import { getMemes } from '../storage/memeRegistry';
+import { getMyLedger, LedgerEntry, LedgerReason } from '../storage/userPortfolios';
+import { TradingPanel } from './Trading';
+import { useService } from './useService';
+
+// Holdings shown per page
+const PAGE_SIZE = 3;
+
+// Ledger entries shown per page
+const LEDGER_PAGE_SIZE = 8;
+
+// Open orders shown per page
+const ORDERS_PAGE_SIZE = 5;
+
+type PortfolioView = 'holdings' | 'orders' | 'ledger';
+
+const VIEWS: { id: PortfolioView; label: string }[] = [
+  { id: 'holdings', label: 'Holdings' },
+  { id: 'orders', label: 'Orders' },
+  { id: 'ledger', label: 'Ledger' },
+];
+
+const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  'limit-buy': 'Limit buy',
+  'limit-sell': 'Limit sell',
+  'stop-loss': 'Stop-loss',
+};
+
+interface OpenOrderView {
+  order: Order;
+  memeTitle: string;
+}
+
+const REFRESH_INTERVAL_MS = 30000;
+
+function formatCoins(amount: number): string {
+  return `₽${amount.toFixed(2)}`;
+}
+
+// Signed amount, e.g. +₽12.50 or -₽3.00
+function formatPnl(amount: number): string {
+  const prefix = amount > 0 ? '+' : amount < 0 ? '-' : '';
+  return `${prefix}${formatCoins(Math.abs(amount))}`;
+}
+
+function pnlColor(amount: number): string {
+  return amount > 0 ? 'success-plain' : amount < 0 ? 'danger-plain' : 'neutral-content-weak';
+}
+
+function Stat({ label, value, color }: { label: string; value: string; color?: string }) {
+  return (
+    <vstack>
+      <text size="xsmall" color="neutral-content-weak">{label}</text>
+      <text weight="bold" color={color}>{value}</text>
+    </vstack>
+  );
+}
+
+function IncomeLine({ entry }: { entry: LedgerEntry }) {
+  return (
+    <hstack>
+      <text size="xsmall" grow overflow="ellipsis">
+        {entry.reason === 'royalty' ? '🎨 Royalty from a trade' : '💸 Dividend'}
+        {' · '}{new Date(entry.timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+      </text>
+      <text size="xsmall" color="success-plain">{formatPnl(entry.amount)}</text>
+    </hstack>
+  );
+}
+
+const LEDGER_LABELS: Record<LedgerReason, string> = {
+  grant: 'Starting grant',
+  stipend: 'Daily stipend',
+  ipo: 'IPO fee',
+  refund: 'Delisting refund',
+  buy: 'Bought shares',
+  sell: 'Sold shares',
+  royalty: 'Royalty from a trade',
+  dividend: 'Dividend',
+  fee: 'Royalty paid',
+  adjustment: 'Mod adjustment',
+  season: 'Season reset',
+};
+
+function LedgerLine({ entry }: { entry: LedgerEntry }) {
+  // Mod adjustments carry the mod's reason as their reference
+  const label = entry.reason === 'adjustment' && entry.reference
+    ? `${LEDGER_LABELS.adjustment}: ${entry.reference}`
+    : LEDGER_LABELS[entry.reason];
+
+  return (
+    <hstack gap="small">
+      <text size="xsmall" color="neutral-content-weak">
+        {new Date(entry.timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+      </text>
+      <text size="xsmall" grow overflow="ellipsis">{label}</text>
+      <text size="xsmall" color={pnlColor(entry.amount)}>{formatPnl(entry.amount)}</text>
+      <text size="xsmall" color="neutral-content-weak">{formatCoins(entry.balanceAfter)}</text>
+    </hstack>
+  );
+}
+
+// Every credit and debit to the current user's wallet, newest first
+function LedgerHistory({ refresh }: { refresh: number }, context: Devvit.Context) {
+  const [page, setPage] = useState(0);
+
+  // One extra entry tells whether there is an older page
+  const { data: entries, loading } = useService<LedgerEntry[]>(
+    () => getMyLedger({ limit: LEDGER_PAGE_SIZE + 1, offset: page * LEDGER_PAGE_SIZE }, context),
+    [page, refresh]
+  );
+
+  if (!entries) {
+    return <text size="small">{loading ? 'Loading ledger...' : 'Your ledger could not be loaded'}</text>;
+  }
+
+  return (
+    <vstack gap="small" grow>
+      <vstack gap="none" grow>
+        {entries.length === 0 && <text size="small" color="neutral-content-weak">No entries yet</text>}
+        {entries.slice(0, LEDGER_PAGE_SIZE).map(entry => <LedgerLine entry={entry} />)}
+      </vstack>
+      {(page > 0 || entries.length > LEDGER_PAGE_SIZE) && (
+        <hstack gap="small" alignment="center middle">
+          <button size="small" icon="back" disabled={page === 0} onPress={() => setPage(page - 1)} />
+          <text size="small" color="neutral-content-weak">Page {page + 1}</text>
+          <button
+            size="small"
+            icon="forward"
+            disabled={entries.length <= LEDGER_PAGE_SIZE}
+            onPress={() => setPage(page + 1)}
+          />
+        </hstack>
+      )}
+    </vstack>
+  );
+}
+
+function OrderRow({ view, onCancel }: { view: OpenOrderView; onCancel: () => void }) {
+  const { order } = view;
+  return (
+    <hstack gap="small" alignment="middle" padding="xsmall" border="thin" cornerRadius="small">
+      <vstack grow>
+        <text size="small" weight="bold" overflow="ellipsis">{view.memeTitle}</text>
+        <text size="xsmall" color="neutral-content-weak">
+          {ORDER_TYPE_LABELS[order.type]} {order.shares} shares at {formatCoins(order.triggerPrice)}
+          {order.filledShares ? ` · ${order.filledShares} filled` : ''}
+          {order.expiresAt
+            ? ` · expires ${new Date(order.expiresAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`
+            : ' · good until cancelled'}
+        </text>
+      </vstack>
+      <button size="small" appearance="secondary" onPress={onCancel}>
+        Cancel
+      </button>
+    </hstack>
+  );
+}
+
+// The current user's resting orders, newest first, each with a cancel button
+function OpenOrders({ refresh }: { refresh: number }, context: Devvit.Context) {
+  const { ui } = context;
+  const [page, setPage] = useState(0);
+  const [cancelled, setCancelled] = useState(0);
+
+  const { data: orders, loading } = useService<OpenOrderView[]>(async () => {
+    const open = await listMyOrders({ status: 'open' }, context);
+    const memes = await getMemes(Array.from(new Set(open.map(order => order.memeId))), context);
+    return open.map(order => ({
+      order,
+      memeTitle: memes.find(meme => meme.id === order.memeId)?.title ?? order.memeId,
+    }));
+  }, [refresh, cancelled]);
+
+  if (!orders) {
+    return <text size="small">{loading ? 'Loading orders...' : 'Your orders could not be loaded'}</text>;
+  }
+
+  const cancel = async (orderId: string) => {
+    try {
+      await cancelOrder({ orderId }, context);
+      ui.showToast('Order cancelled');
+      setCancelled(cancelled + 1);
+    } catch (error) {
+      console.error('Error cancelling order:', error);
+      ui.showToast(error instanceof Error ? error.message : 'Could not cancel this order');
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(orders.length / ORDERS_PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+
+  return (
+    <vstack gap="small" grow>
+      <vstack gap="small" grow>
+        {orders.length === 0 && (
+          <text size="small" color="neutral-content-weak">
+            No open orders. Place a limit or stop-loss order from any meme's trade panel.
+          </text>
+        )}
+        {orders.slice(currentPage * ORDERS_PAGE_SIZE, (currentPage + 1) * ORDERS_PAGE_SIZE).map(view => (
+          <OrderRow view={view} onCancel={() => cancel(view.order.id)} />
+        ))}
+      </vstack>
+      {pageCount > 1 && (
+        <hstack gap="small" alignment="center middle">
+          <button size="small" icon="back" disabled={currentPage === 0} onPress={() => setPage(currentPage - 1)} />
+          <text size="small" color="neutral-content-weak">{currentPage + 1} of {pageCount}</text>
+          <button
+            size="small"
+            icon="forward"
+            disabled={currentPage + 1 >= pageCount}
+            onPress={() => setPage(currentPage + 1)}
+          />
+        </hstack>
+      )}
+    </vstack>
+  );
+}
+
+function HoldingRow({ holding, onTrade }: { holding: HoldingValuation; onTrade: () => void }) {
+  return (
+    <hstack gap="small" alignment="middle" padding="xsmall" border="thin" cornerRadius="small">
+      <image
+        url={holding.meme.templateUrl}
+        description={holding.meme.title}
+        imageHeight={56}
+        imageWidth={56}
+        resizeMode="cover"
+      />
+
+      <vstack grow>
+        <hstack>
+          <text weight="bold" overflow="ellipsis" grow>{holding.meme.title}</text>
+          <text weight="bold">{formatCoins(holding.marketValue)}</text>
+        </hstack>
+
+        <text size="xsmall" color="neutral-content-weak">
+          {holding.shares} shares at {formatCoins(holding.meme.currentSharePrice)}
+        </text>
+
+        {holding.boughtShares > 0 && (
+          <hstack gap="small">
+            <text size="xsmall">
+              {holding.boughtShares} bought at {formatCoins(holding.averageBuyPrice)} avg
+            </text>
+            <text size="xsmall" color={pnlColor(holding.unrealizedPnl)}>
+              {formatPnl(holding.unrealizedPnl)}
+              {holding.changePercent !== null &&
+                ` (${holding.changePercent > 0 ? '+' : ''}${holding.changePercent.toFixed(2)}%)`}
+            </text>
+          </hstack>
+        )}
+
+        {holding.grantedShares > 0 && (
+          <text size="xsmall" color="neutral-content-weak">
+            🎨 {holding.grantedShares} creator shares granted at IPO · worth {formatCoins(holding.grantedValue)}
+          </text>
+        )}
+
+        {holding.realizedPnl !== 0 && (
+          <text size="xsmall" color={pnlColor(holding.realizedPnl)}>
+            Realized {formatPnl(holding.realizedPnl)}
+          </text>
+        )}
+      </vstack>
+
+      <button size="small" appearance="secondary" onPress={onTrade}>
+        Trade
+      </button>
+    </hstack>
+  );
+}
+
+export default function Portfolio(_props: {}, context: Devvit.Context) {
+  const [page, setPage] = useState(0);
+  const [tradingMemeId, setTradingMemeId] = useState<string | null>(null);
+  const [view, setView] = useState<PortfolioView>('holdings');
+  const [refresh, setRefresh] = useState(0);
+
+  // Prices move on every market tick and trade, so keep values fresh
+  useInterval(() => setRefresh(refresh + 1), REFRESH_INTERVAL_MS).start();
+
+  const { data: summary, loading, error } = useService<MyPortfolio>(
+    () => getMyPortfolio({}, context),
+    [refresh]
+  );
+
+  if (tradingMemeId) {
+    return (
+      <TradingPanel
+        memeId={tradingMemeId}
+        onClose={() => {
+          setTradingMemeId(null);
+          // Refresh values after trading
+          setRefresh(refresh + 1);
+        }}
+      />
+    );
+  }
+
+  if (loading && !summary) {
+    return (
+      <vstack grow alignment="center middle">
+        <text>Loading portfolio...</text>
+      </vstack>
+    );
+  }
+
+  // getMyPortfolio has already logged the failure
+  if (!summary) {
+    return (
+      <vstack grow gap="small" alignment="center middle">
+        <text color="danger-plain">Your portfolio could not be loaded</text>
+        {!!error && <text size="small" color="neutral-content-weak" wrap>{error.message}</text>}
+      </vstack>
+    );
+  }
+
+  const pageCount = Math.max(1, Math.ceil(summary.holdings.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const holdings = summary.holdings.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  return (
+    <vstack gap="small" padding="small" grow>
+      <hstack alignment="middle">
+        <vstack grow>
+          <text size="large" weight="bold">My Portfolio</text>
+          <text size="small" color="neutral-content-weak">Valued at current prices</text>
+        </vstack>
+        <hstack gap="small">
+          {VIEWS.map(option => (
+            <button size="small" appearance={view === option.id ? 'primary' : 'secondary'} onPress={() => setView(option.id)}>
+              {option.label}
+            </button>
+          ))}
+        </hstack>
+      </hstack>
+
+      {/* Totals */}
+      <hstack gap="medium">
+        <Stat label="Net worth" value={formatCoins(summary.netWorth)} />
+        <Stat label="Cash" value={formatCoins(summary.cash)} />
+        <Stat label="Holdings" value={formatCoins(summary.holdingsValue)} />
+        <Stat label="Unrealized P&L" value={formatPnl(summary.unrealizedPnl)} color={pnlColor(summary.unrealizedPnl)} />
+        <Stat label="Realized P&L" value={formatPnl(summary.realizedPnl)} color={pnlColor(summary.realizedPnl)} />
+      </hstack>
+
+      {summary.grantedValue > 0 && (
+        <text size="xsmall" color="neutral-content-weak">
+          Includes {formatCoins(summary.grantedValue)} in creator shares, which are left out of P&L
+        </text>
+      )}
+      {summary.grantProceeds > 0 && (
+        <text size="xsmall" color="neutral-content-weak">
+          {formatCoins(summary.grantProceeds)} taken for selling creator shares, also left out of P&L
+        </text>
+      )}
+
+      {/* Income */}
+      {(summary.royalties > 0 || summary.dividends > 0) && (
+        <vstack gap="none">
+          <hstack gap="medium">
+            <Stat label="Royalties earned" value={formatCoins(summary.royalties)} color="success-plain" />
+            <Stat label="Dividends earned" value={formatCoins(summary.dividends)} color="success-plain" />
+          </hstack>
+          {summary.recentIncome.map(entry => <IncomeLine entry={entry} />)}
+        </vstack>
+      )}
+
+      {/* Allocation by category */}
+      {summary.allocation.length > 0 && (
+        <text size="xsmall" overflow="ellipsis">
+          {summary.allocation.map(slice => `${slice.category} ${slice.percent.toFixed(1)}%`).join(' · ')}
+        </text>
+      )}
+
+      {/* Holdings, open orders or ledger */}
+      {view === 'ledger' ? (
+        <LedgerHistory refresh={refresh} />
+      ) : view === 'orders' ? (
+        <OpenOrders refresh={refresh} />
+      ) : summary.holdings.length === 0 ? (
+        <vstack grow alignment="center middle">
+          <text>You don't hold any shares yet. Visit the marketplace to buy some!</text>
+        </vstack>
+      ) : (
+        <vstack gap="small" grow>
+          {holdings.map(holding => (
+            <HoldingRow holding={holding} onTrade={() => setTradingMemeId(holding.meme.id)} />
+          ))}
+        </vstack>
+      )}
+
+      {view === 'holdings' && pageCount > 1 && (
+        <hstack gap="small" alignment="center middle">
+          <button size="small" icon="back" disabled={currentPage === 0} onPress={() => setPage(currentPage - 1)} />
+          <text size="small" color="neutral-content-weak">{currentPage + 1} of {pageCount}</text>
+          <button
+            size="small"
+            icon="forward"
+            disabled={currentPage + 1 >= pageCount}
+            onPress={() => setPage(currentPage + 1)}
+          />
+        </hstack>
+      )}
+    </vstack>
+  );
+}
@@ -0,0 +1,170 @@
+import { Devvit, useState } from '@devvit/public-api';
+import { LeaderboardId, LEADERBOARDS } from '../server/leaderboards';
+import { getSeasonDetails, getSeasonOverview, SeasonDetails, SeasonOverview } from '../server/seasons';
+import { Season } from '../storage/seasonRegistry';
+import { formatScore } from './Leaderboard';
+import { useService } from './useService';
+
+// Past seasons listed per page
+const PAGE_SIZE = 5;
+
+// Rows of each archived board and of closing prices that fit beside the rest
+const ARCHIVE_ROWS = 5;
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+// What the market is doing right now, season-wise
+function SeasonBanner({ current, next }: { current: Season | null; next: Season | null }) {
+  if (!current) {
+    return <text size="small" color="neutral-content-weak">No season is running. The market is open all the time.</text>;
+  }
+
+  switch (current.status) {
+    case 'scheduled':
+      return <text size="small" wrap>{current.name} opens {formatDate(current.startsAt)}. Trading is paused until then.</text>;
+    case 'closing':
+      return <text size="small" wrap>{current.name} has ended. Final standings are being archived.</text>;
+    default:
+      return (
+        <vstack>
+          <text size="small" weight="bold">{current.name} ends {formatDate(current.endsAt)}</text>
+          {next && (
+            <text size="xsmall" color="neutral-content-weak">
+              Up next: {next.name}, from {formatDate(next.startsAt)}
+            </text>
+          )}
+        </vstack>
+      );
+  }
+}
+
+// A finished season's final standings and closing prices, read-only
+function SeasonArchiveView({ seasonId, onBack }: { seasonId: string; onBack: () => void }, context: Devvit.Context) {
+  const [board, setBoard] = useState<LeaderboardId>('net-worth');
+  const { data: details, loading } = useService<SeasonDetails>(
+    () => getSeasonDetails({ seasonId }, context),
+    [seasonId]
+  );
+
+  if (loading || !details) {
+    return (
+      <vstack grow gap="small" alignment="center middle">
+        <text>{loading ? 'Loading season...' : 'This season could not be loaded'}</text>
+        <button size="small" appearance="secondary" onPress={onBack}>
+          All seasons
+        </button>
+      </vstack>
+    );
+  }
+
+  const { archive, closingPrices } = details;
+
+  return (
+    <vstack gap="small">
+      <hstack alignment="middle">
+        <vstack grow>
+          <text weight="bold">{archive.season.name}</text>
+          <text size="xsmall" color="neutral-content-weak">
+            {formatDate(archive.season.startsAt)} – {formatDate(archive.season.endsAt)} ·
+            memes {archive.memePolicy === 'delist' ? 'delisted' : 'carried over'}
+          </text>
+        </vstack>
+        <button size="small" appearance="secondary" onPress={onBack}>
+          All seasons
+        </button>
+      </hstack>
+
+      {archive.winners.length > 0 && (
+        <text size="small" overflow="ellipsis">
+          {archive.winners.map(winner => `🏆 #${winner.rank} u/${winner.username}`).join('  ')}
+        </text>
+      )}
+
+      <hstack gap="small">
+        {(Object.keys(LEADERBOARDS) as LeaderboardId[]).map(id => (
+          <button size="small" appearance={board === id ? 'primary' : 'secondary'} onPress={() => setBoard(id)}>
+            {LEADERBOARDS[id].label}
+          </button>
+        ))}
+      </hstack>
+
+      <vstack>
+        {archive.leaderboards[board].length === 0 ? (
+          <text size="small" color="neutral-content-weak">Nobody placed on this board</text>
+        ) : (
+          archive.leaderboards[board].slice(0, ARCHIVE_ROWS).map(entry => (
+            <hstack>
+              <text size="small" grow>#{entry.rank} u/{entry.username}</text>
+              <text size="small" weight="bold">{formatScore(board, entry.score)}</text>
+            </hstack>
+          ))
+        )}
+      </vstack>
+
+      <text weight="bold">Closing prices</text>
+      <vstack>
+        {closingPrices.slice(0, ARCHIVE_ROWS).map(price => (
+          <hstack>
+            <text size="small" grow overflow="ellipsis">{price.title} by u/{price.creatorName}</text>
+            <text size="small">₽{price.closingPrice.toFixed(2)} · cap ₽{price.marketCap.toFixed(0)}</text>
+          </hstack>
+        ))}
+      </vstack>
+    </vstack>
+  );
+}
+
+export default function Seasons(_props: {}, context: Devvit.Context) {
+  const [seasonId, setSeasonId] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+
+  const { data: overview, loading } = useService<SeasonOverview>(() => getSeasonOverview({}, context));
+
+  const past = overview?.past ?? [];
+  const pageCount = Math.max(1, Math.ceil(past.length / PAGE_SIZE));
+
+  return (
+    <vstack gap="small" padding="small" grow>
+      <text size="large" weight="bold">Seasons</text>
+      {overview && <SeasonBanner current={overview.current} next={overview.next} />}
+
+      {loading ? (
+        <vstack grow alignment="center middle">
+          <text>Loading seasons...</text>
+        </vstack>
+      ) : seasonId ? (
+        <SeasonArchiveView seasonId={seasonId} onBack={() => setSeasonId(null)} />
+      ) : past.length === 0 ? (
+        <vstack grow alignment="center middle">
+          <text>No seasons have finished yet</text>
+        </vstack>
+      ) : (
+        <vstack gap="small">
+          {past.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE).map(season => (
+            <hstack alignment="middle" padding="xsmall" border="thin" cornerRadius="small">
+              <vstack grow>
+                <text weight="bold">{season.name}</text>
+                <text size="xsmall" color="neutral-content-weak">
+                  {formatDate(season.startsAt)} – {formatDate(season.endsAt)}
+                </text>
+              </vstack>
+              <button size="small" appearance="secondary" onPress={() => setSeasonId(season.id)}>
+                View results
+              </button>
+            </hstack>
+          ))}
+
+          {pageCount > 1 && (
+            <hstack gap="small" alignment="center middle">
+              <button size="small" icon="back" disabled={page === 0} onPress={() => setPage(page - 1)} />
+              <text size="small" color="neutral-content-weak">{page + 1} of {pageCount}</text>
+              <button size="small" icon="forward" disabled={page + 1 >= pageCount} onPress={() => setPage(page + 1)} />
+            </hstack>
+          )}
+        </vstack>
+      )}
+    </vstack>
+  );
+}
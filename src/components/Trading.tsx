@@ -0,0 +1,257 @@
+import { Devvit, useForm, useState } from '@devvit/public-api';
+import { getOrderBook, OrderBookDepth, OrderBookLevel, OrderType, placeOrder } from '../server/orderBook';
+import { buyShares, OrderQuote, quoteTrade, sellShares, TradeError } from '../server/tradingEngine';
+import { ValidationError } from '../server/validation';
+import { getMeme, MemeData } from '../storage/memeRegistry';
+import { useService } from './useService';
+
+// Orders fail rather than fill more than this far past the quoted price
+const SLIPPAGE_TOLERANCE = 0.01;
+
+type OrderKind = 'market' | 'limit' | 'stop';
+
+// Price levels shown on each side of the order book
+const BOOK_DEPTH = 3;
+
+function BookSide({ label, levels, color }: { label: string; levels: OrderBookLevel[]; color: string }) {
+  return (
+    <vstack grow>
+      <text size="xsmall" weight="bold">{label}</text>
+      {levels.length === 0 ? (
+        <text size="xsmall" color="neutral-content-weak">None resting</text>
+      ) : (
+        levels.slice(0, BOOK_DEPTH).map(level => (
+          <text size="xsmall" color={color}>₽{level.price.toFixed(2)} · {level.shares} shares</text>
+        ))
+      )}
+    </vstack>
+  );
+}
+
+// Order entry for one meme, shown in place of the screen that opened it
+export function TradingPanel({ memeId, onClose }: { memeId: string; onClose: () => void }, context: Devvit.Context) {
+  const { data: meme, loading } = useService<MemeData | null>(() => getMeme(memeId, context));
+
+  if (loading) {
+    return (
+      <vstack grow alignment="center middle">
+        <text>Loading meme...</text>
+      </vstack>
+    );
+  }
+
+  if (!meme) {
+    return (
+      <vstack grow gap="small" alignment="center middle">
+        <text>This meme is no longer listed</text>
+        <button appearance="secondary" onPress={onClose}>
+          Close
+        </button>
+      </vstack>
+    );
+  }
+
+  return <OrderEntry meme={meme} onClose={onClose} />;
+}
+
+function OrderEntry({ meme, onClose }: { meme: MemeData; onClose: () => void }, context: Devvit.Context) {
+  const { ui } = context;
+  const [side, setSide] = useState<'buy' | 'sell'>('buy');
+  const [orderKind, setOrderKind] = useState<OrderKind>('market');
+  const [shares, setShares] = useState(1);
+  const [triggerPrice, setTriggerPrice] = useState(meme.currentSharePrice);
+  const [expiresInHours, setExpiresInHours] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [ordersPlaced, setOrdersPlaced] = useState(0);
+
+  // Re-quote whenever the order changes so slippage is visible before confirming
+  const { data: quote } = useService<OrderQuote | null>(
+    async () => (shares > 0 ? await quoteTrade({ memeId: meme.id, side, shares }, context) : null),
+    [meme.id, side, shares]
+  );
+
+  // Resting limit orders, reloaded after each order placed here
+  const { data: book } = useService<OrderBookDepth>(
+    () => getOrderBook({ memeId: meme.id }, context),
+    [meme.id, ordersPlaced]
+  );
+
+  const orderForm = useForm(
+    () => ({
+      title: `Trade ${meme.title}`,
+      fields: [
+        { type: 'number', name: 'shares', label: 'Shares', defaultValue: shares, required: true },
+        ...(orderKind === 'market' ? [] : [
+          {
+            type: 'number' as const,
+            name: 'triggerPrice',
+            label: orderKind === 'stop' ? 'Sell if price falls to (₽)' : 'Limit price (₽)',
+            defaultValue: triggerPrice,
+            required: true,
+          },
+          {
+            type: 'number' as const,
+            name: 'expiresInHours',
+            label: 'Expires after (hours)',
+            helpText: 'Leave at 0 to keep the order until it fills or you cancel it',
+            defaultValue: expiresInHours,
+          },
+        ]),
+      ],
+      acceptLabel: 'Update order',
+    }),
+    values => {
+      setShares(Math.max(0, Math.floor(values.shares ?? 0)));
+      if (values.triggerPrice !== undefined) setTriggerPrice(values.triggerPrice);
+      if (values.expiresInHours !== undefined) setExpiresInHours(Math.max(0, values.expiresInHours));
+    }
+  );
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError('');
+    setConfirmation('');
+
+    try {
+      // Resting orders go on the book and fill later, when the price crosses
+      if (orderKind !== 'market') {
+        const type: OrderType = orderKind === 'stop' ? 'stop-loss' : side === 'buy' ? 'limit-buy' : 'limit-sell';
+        const order = await placeOrder({
+          memeId: meme.id,
+          type,
+          shares,
+          triggerPrice,
+          expiresInHours: expiresInHours || undefined,
+        }, context);
+        setOrdersPlaced(ordersPlaced + 1);
+        setConfirmation(
+          order.status === 'filled'
+            ? `Your ${type} order filled at ₽${order.fillPrice!.toFixed(2)} per share`
+            : order.filledShares
+              ? `Your ${type} order filled ${order.filledShares} shares at ₽${order.fillPrice!.toFixed(2)}; the rest is on the book`
+              : `Your ${type} order is on the book at ₽${order.triggerPrice.toFixed(2)}`
+        );
+        return;
+      }
+
+      const order = side === 'buy' ? buyShares : sellShares;
+      const limitPrice = quote
+        ? quote.averagePrice * (side === 'buy' ? 1 + SLIPPAGE_TOLERANCE : 1 - SLIPPAGE_TOLERANCE)
+        : undefined;
+      const result = await order({ memeId: meme.id, shares, limitPrice }, context);
+
+      const verb = side === 'buy' ? 'Bought' : 'Sold';
+      setConfirmation(
+        `${verb} ${result.trade.shares} shares for ₽${result.trade.total.toFixed(2)}. ` +
+        `Balance: ₽${result.balance.toFixed(2)}`
+      );
+    } catch (err) {
+      // Trade and validation errors carry a user-facing message; anything
+      // else is unexpected
+      setError(
+        err instanceof TradeError || err instanceof ValidationError
+          ? err.message
+          : 'Something went wrong placing your order'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const chooseSide = (value: 'buy' | 'sell') => {
+    setSide(value);
+    // Stop-losses only exist on the sell side
+    if (value === 'buy' && orderKind === 'stop') setOrderKind('market');
+  };
+
+  return (
+    <vstack gap="small" padding="small">
+      <hstack alignment="middle">
+        <vstack grow>
+          <text size="large" weight="bold" overflow="ellipsis">Trade {meme.title}</text>
+          <text size="small" color="neutral-content-weak">
+            Spot ₽{meme.currentSharePrice.toFixed(2)} per share · {meme.availableShares} available
+          </text>
+        </vstack>
+        <button size="small" appearance="secondary" icon="close" onPress={onClose} />
+      </hstack>
+
+      {book && (
+        <hstack gap="medium">
+          <BookSide label="Bids" levels={book.bids} color="success-plain" />
+          <BookSide label="Asks" levels={book.asks} color="danger-plain" />
+        </hstack>
+      )}
+
+      <hstack gap="small">
+        <button size="small" appearance={side === 'buy' ? 'primary' : 'secondary'} onPress={() => chooseSide('buy')}>
+          Buy
+        </button>
+        <button size="small" appearance={side === 'sell' ? 'primary' : 'secondary'} onPress={() => chooseSide('sell')}>
+          Sell
+        </button>
+        <spacer size="medium" />
+        <button size="small" appearance={orderKind === 'market' ? 'primary' : 'secondary'} onPress={() => setOrderKind('market')}>
+          Market
+        </button>
+        <button size="small" appearance={orderKind === 'limit' ? 'primary' : 'secondary'} onPress={() => setOrderKind('limit')}>
+          Limit
+        </button>
+        {side === 'sell' && (
+          <button size="small" appearance={orderKind === 'stop' ? 'primary' : 'secondary'} onPress={() => setOrderKind('stop')}>
+            Stop-loss
+          </button>
+        )}
+      </hstack>
+
+      <hstack gap="small" alignment="middle">
+        <button size="small" icon="subtract" disabled={shares <= 1} onPress={() => setShares(shares - 1)} />
+        <text weight="bold">{shares} shares</text>
+        <button size="small" icon="add" onPress={() => setShares(shares + 1)} />
+        <button size="small" appearance="plain" onPress={() => ui.showForm(orderForm)}>
+          Edit order
+        </button>
+      </hstack>
+
+      {orderKind !== 'market' && (
+        <text size="small">
+          {orderKind === 'stop' ? 'Sell if price falls to' : 'Limit price'} ₽{triggerPrice.toFixed(2)}
+          {expiresInHours > 0 ? ` · expires after ${expiresInHours}h` : ' · good until cancelled'}
+        </text>
+      )}
+
+      {orderKind === 'market' && quote && (
+        <vstack gap="none">
+          <text>
+            Estimated {side === 'buy' ? 'cost' : 'proceeds'}: ₽{(side === 'buy' ? quote.total + quote.royalty : quote.total - quote.royalty).toFixed(2)}
+          </text>
+          {quote.royalty > 0 && (
+            <text size="small" color="neutral-content-weak">
+              Includes a ₽{quote.royalty.toFixed(2)} royalty to the meme's creator
+            </text>
+          )}
+          <text size="small" color="neutral-content-weak">
+            Average ₽{quote.averagePrice.toFixed(2)} per share · {(quote.slippage * 100).toFixed(2)}% slippage
+          </text>
+          <text size="small" color="neutral-content-weak">
+            Price after this order: ₽{quote.spotAfter.toFixed(2)}
+          </text>
+        </vstack>
+      )}
+
+      {error !== '' && <text color="danger-plain" wrap>{error}</text>}
+      {confirmation !== '' && <text color="success-plain" wrap>{confirmation}</text>}
+
+      <hstack gap="small" alignment="end">
+        <button appearance="secondary" onPress={onClose}>
+          Close
+        </button>
+        <button appearance="primary" onPress={handleSubmit} disabled={submitting || shares <= 0}>
+          {orderKind !== 'market' ? 'Place Order' : side === 'buy' ? 'Buy Shares' : 'Sell Shares'}
+        </button>
+      </hstack>
+    </vstack>
+  );
+}
@@ -0,0 +1,13 @@
+import { JSONValue, useAsync, UseAsyncResult } from '@devvit/public-api';
+
+// Services are plain async functions taking `(args, context)`, so render
+// handlers call them directly. This loads one while rendering: results cross
+// the render boundary as JSON, and come back out under their declared type.
+// The call reruns whenever anything in `depends` changes.
+export function useService<T>(
+  call: () => Promise<T>,
+  depends: JSONValue[] = []
+): UseAsyncResult<T> {
+  const { data, loading, error } = useAsync(async () => (await call()) as JSONValue, { depends });
+  return { data: data as T | null, loading, error };
+}
@@ -1,57 +1,55 @@
-// Learn more at developers.reddit.com/docs
-import { Devvit, useState } from '@devvit/public-api';
+import { Devvit } from '@devvit/public-api';
+import { useService } from './components/useService';
+import { LoadingPreview, MarketPost } from './posts/marketPost';
+import { MarketReportPost } from './posts/marketReport';
+import { ListingQueuePost } from './posts/memeisting';
+import { MemePost } from './posts/memePost';
+import { PortfolioStatementPost } from './posts/portfolioStatement';
+import { getPostRecord, PostRecord } from './storage/postRegistry';
+
+// Registered for their settings, jobs, triggers and menu items
+import './server/settings';
+import './server/scheduler';
+import './server/seasons';
+import './server/safeguards';
+import './server/templateLibrary';
+import './server/marketControls';
+import './server/backtest';
 
 Devvit.configure({
   redditAPI: true,
+  redis: true,
+  media: true,
 });
 
-// Add a menu item to the subreddit menu for instantiating the new experience post
-Devvit.addMenuItem({
-  label: 'Add my post',
-  location: 'subreddit',
-  forUserType: 'moderator',
-  onPress: async (_event, context) => {
-    const { reddit, ui } = context;
-    ui.showToast("Submitting your post - upon completion you'll navigate there.");
-
-    const subreddit = await reddit.getCurrentSubreddit();
-    const post = await reddit.submitPost({
-      title: 'My devvit post',
-      subredditName: subreddit.name,
-      // The preview appears while the post loads
-      preview: (
-        <vstack height="100%" width="100%" alignment="middle center">
-          <text size="large">Loading ...</text>
-        </vstack>
-      ),
-    });
-    ui.navigateTo(post);
-  },
-});
-
-// Add a post type definition
+// The app's single custom post type. Each post renders whatever its record
+// says it is; posts without one get the market.
 Devvit.addCustomPostType({
-  name: 'Experience Post',
-  height: 'regular',
-  render: (_context) => {
-    const [counter, setCounter] = useState(0);
+  name: 'MemeTycoon',
+  height: 'tall',
+  render: (context) => {
+    const { postId } = context;
 
-    return (
-      <vstack height="100%" width="100%" gap="medium" alignment="center middle">
-        <image
-          url="logo.png"
-          description="logo"
-          imageHeight={256}
-          imageWidth={256}
-          height="48px"
-          width="48px"
-        />
-        <text size="large">{`Click counter: ${counter}`}</text>
-        <button appearance="primary" onPress={() => setCounter((counter) => counter + 1)}>
-          Click me!
-        </button>
-      </vstack>
+    const { data: record, loading } = useService<PostRecord | null>(
+      async () => (postId ? await getPostRecord(postId, context) : null)
     );
+
+    if (loading) {
+      return <LoadingPreview />;
+    }
+
+    switch (record?.kind) {
+      case 'meme':
+        return <MemePost memeId={record.memeId} />;
+      case 'market-report':
+        return <MarketReportPost reportId={record.reportId} />;
+      case 'portfolio-statement':
+        return <PortfolioStatementPost statementId={record.statementId} />;
+      case 'listing-queue':
+        return <ListingQueuePost />;
+      default:
+        return <MarketPost />;
+    }
   },
 });
 
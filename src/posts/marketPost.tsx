@@ -0,0 +1,102 @@
+import { Devvit, JSONObject, Post, useState } from '@devvit/public-api';
+import Inbox from '../components/Inbox';
+import Leaderboard from '../components/Leaderboard';
+import Marketplace from '../components/Marketplace';
+import MemeCreator from '../components/MemeCreator';
+import Portfolio from '../components/Portfolio';
+import Seasons from '../components/Seasons';
+import { useService } from '../components/useService';
+import { getUnreadCount } from '../server/notifications';
+import { savePostRecord } from '../storage/postRegistry';
+
+type AppTab = 'market' | 'create' | 'portfolio' | 'leaderboard' | 'seasons' | 'inbox';
+
+const TABS: { id: AppTab; label: string }[] = [
+  { id: 'market', label: 'Market' },
+  { id: 'create', label: 'Create' },
+  { id: 'portfolio', label: 'Portfolio' },
+  { id: 'leaderboard', label: 'Leaderboard' },
+  { id: 'seasons', label: 'Seasons' },
+  { id: 'inbox', label: 'Inbox' },
+];
+
+// Shown while any of the app's posts load
+export function LoadingPreview({ label = 'Loading MemeTycoon...' }: { label?: string }) {
+  return (
+    <vstack height="100%" width="100%" gap="small" alignment="center middle">
+      <text size="xxlarge">📈</text>
+      <text size="large" weight="bold">MemeTycoon</text>
+      <text color="neutral-content-weak">{label}</text>
+    </vstack>
+  );
+}
+
+// The main market post: the whole app behind a row of tabs
+export function MarketPost(_props: JSONObject, context: Devvit.Context) {
+  const { ui } = context;
+  const [tab, setTab] = useState<AppTab>('market');
+  const [inboxReads, setInboxReads] = useState(0);
+
+  // The inbox badge; rechecked on every tab change
+  const { data: unread } = useService<number>(() => getUnreadCount({}, context), [tab, inboxReads]);
+
+  return (
+    <vstack height="100%" width="100%" gap="small" padding="small">
+      <hstack gap="small" alignment="middle">
+        <text size="large" weight="bold" grow>📈 MemeTycoon</text>
+        {TABS.map(({ id, label }) => (
+          <button
+            size="small"
+            appearance={tab === id ? 'primary' : 'secondary'}
+            onPress={() => setTab(id)}
+          >
+            {id === 'inbox' && unread ? `${label} (${unread})` : label}
+          </button>
+        ))}
+      </hstack>
+
+      <vstack grow width="100%">
+        {tab === 'market' && <Marketplace />}
+        {tab === 'create' && (
+          <MemeCreator onMemeCreated={() => ui.showToast('Submitted! Moderators will review your meme soon.')} />
+        )}
+        {tab === 'portfolio' && <Portfolio />}
+        {tab === 'leaderboard' && <Leaderboard />}
+        {tab === 'seasons' && <Seasons />}
+        {tab === 'inbox' && <Inbox onRead={() => setInboxReads(inboxReads + 1)} />}
+      </vstack>
+    </vstack>
+  );
+}
+
+// Submit a market post and record it so it renders the app
+export async function submitMarketPost(context: Devvit.Context): Promise<Post> {
+  const { reddit } = context;
+
+  const subreddit = await reddit.getCurrentSubreddit();
+  const post = await reddit.submitPost({
+    title: '📈 MemeTycoon: the meme stock market',
+    subredditName: subreddit.name,
+    preview: <LoadingPreview />,
+  });
+  await savePostRecord(post.id, { kind: 'market' }, context);
+  return post;
+}
+
+Devvit.addMenuItem({
+  label: 'Install the market post',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (_event, context) => {
+    const { ui } = context;
+    ui.showToast('Submitting the market post - you\'ll be taken there when it\'s up.');
+
+    try {
+      const post = await submitMarketPost(context);
+      ui.navigateTo(post);
+    } catch (error) {
+      console.error('Error installing market post:', error);
+      ui.showToast('Could not create the market post');
+    }
+  },
+});
@@ -0,0 +1,360 @@
+import { Devvit, JobContext, Post, useState } from '@devvit/public-api';
+import { useService } from '../components/useService';
+import { getMarketReportSettings } from '../server/settings';
+import {
+  advanceMarketReport,
+  clearMarketReportDraft,
+  createMarketReportDraft,
+  finishMarketReport,
+  getMarketReport,
+  getMarketReportDraft,
+  MarketReport,
+  ReportMover,
+  saveMarketReport,
+  saveMarketReportDraft,
+} from '../storage/marketReports';
+import { savePostRecord } from '../storage/postRegistry';
+import { isMarketOpen } from '../storage/seasonRegistry';
+
+export const MARKET_REPORT_JOB = 'marketReport';
+
+// Checks hourly, a few minutes after the market tick, and posts when the
+// configured hour comes round in the configured timezone
+const MARKET_REPORT_CRON = '5 * * * *';
+
+// Claimed per local date so a retried or overlapping run can't post twice
+const REPORT_CLAIM_TTL_MS = 48 * 60 * 60 * 1000;
+
+// Compiling a report scans the whole market, so like the market tick it
+// works in batches. When a run goes over its time budget it saves its place
+// and hands the rest to a follow-up run.
+const REPORT_TIME_BUDGET_MS = 25 * 1000;
+
+// Held while a run compiles the report; expires on its own if the run dies
+const REPORT_LOCK_KEY = 'report:lock';
+const REPORT_LOCK_TTL_MS = 2 * REPORT_TIME_BUDGET_MS;
+
+type ReportSection = 'movers' | 'traded' | 'ipos' | 'trades';
+
+const SECTIONS: { id: ReportSection; label: string }[] = [
+  { id: 'movers', label: 'Movers' },
+  { id: 'traded', label: 'Most traded' },
+  { id: 'ipos', label: 'New IPOs' },
+  { id: 'trades', label: 'Big trades' },
+];
+
+function formatChange(percent: number): string {
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(2)}%`;
+}
+
+function changeColor(percent: number): string {
+  return percent > 0 ? 'success-plain' : percent < 0 ? 'danger-plain' : 'neutral-content-weak';
+}
+
+// The local calendar date and hour of `time` in a timezone
+function localDateAndHour(time: number, timezone: string): { date: string; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(time));
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+
+  return { date: `${part('year')}-${part('month')}-${part('day')}`, hour: parseInt(part('hour'), 10) };
+}
+
+function MoverRow({ mover }: { mover: ReportMover }) {
+  return (
+    <hstack alignment="middle" gap="small">
+      <text grow overflow="ellipsis">{mover.title}</text>
+      <text size="small" color="neutral-content-weak">₽{mover.closePrice.toFixed(2)}</text>
+      <text size="small" weight="bold" color={changeColor(mover.changePercent)}>
+        {formatChange(mover.changePercent)}
+      </text>
+    </hstack>
+  );
+}
+
+function SectionBody({ report, section }: { report: MarketReport; section: ReportSection }) {
+  switch (section) {
+    case 'movers':
+      return (
+        <vstack gap="small">
+          <text weight="bold">Top gainers</text>
+          {report.gainers.length === 0
+            ? <text size="small" color="neutral-content-weak">Nothing rose today</text>
+            : report.gainers.map(mover => <MoverRow mover={mover} />)}
+          <text weight="bold">Top losers</text>
+          {report.losers.length === 0
+            ? <text size="small" color="neutral-content-weak">Nothing fell today</text>
+            : report.losers.map(mover => <MoverRow mover={mover} />)}
+        </vstack>
+      );
+    case 'traded':
+      return (
+        <vstack gap="small">
+          {report.mostTraded.length === 0
+            ? <text size="small" color="neutral-content-weak">No trades today</text>
+            : report.mostTraded.map(mover => (
+              <hstack alignment="middle" gap="small">
+                <text grow overflow="ellipsis">{mover.title}</text>
+                <text size="small">{mover.volume} shares</text>
+                <text size="small" color="neutral-content-weak">₽{mover.turnover.toFixed(2)}</text>
+              </hstack>
+            ))}
+        </vstack>
+      );
+    case 'ipos':
+      return (
+        <vstack gap="small">
+          {report.newIpos.length === 0
+            ? <text size="small" color="neutral-content-weak">No new listings today</text>
+            : report.newIpos.map(ipo => (
+              <hstack alignment="middle" gap="small">
+                <vstack grow>
+                  <text overflow="ellipsis">{ipo.title}</text>
+                  <text size="xsmall" color="neutral-content-weak">by u/{ipo.creatorName}</text>
+                </vstack>
+                <text size="small">₽{ipo.initialSharePrice.toFixed(2)} → ₽{ipo.closePrice.toFixed(2)}</text>
+              </hstack>
+            ))}
+        </vstack>
+      );
+    case 'trades':
+      return (
+        <vstack gap="small">
+          {report.biggestTrades.length === 0
+            ? <text size="small" color="neutral-content-weak">No trades today</text>
+            : report.biggestTrades.map(trade => (
+              <hstack alignment="middle" gap="small">
+                <text grow overflow="ellipsis">{trade.title}</text>
+                <text size="small" color={trade.side === 'buy' ? 'success-plain' : 'danger-plain'}>
+                  {trade.side === 'buy' ? 'Bought' : 'Sold'} {trade.shares}
+                </text>
+                <text size="small" weight="bold">₽{trade.total.toFixed(2)}</text>
+              </hstack>
+            ))}
+        </vstack>
+      );
+  }
+}
+
+// Shown while a freshly submitted report post loads
+export function MarketReportPreview({ report }: { report: MarketReport }) {
+  return (
+    <vstack height="100%" width="100%" gap="small" alignment="center middle">
+      <text size="xlarge" weight="bold">📊 Market Report</text>
+      <text color="neutral-content-weak">{report.date}</text>
+    </vstack>
+  );
+}
+
+// Post body for a daily report. Everything shown is the snapshot taken when
+// the report was posted.
+export function MarketReportPost({ reportId }: { reportId: string }, context: Devvit.Context) {
+  const [section, setSection] = useState<ReportSection>('movers');
+  const { data: report, loading } = useService<MarketReport | null>(() => getMarketReport(reportId, context));
+
+  if (loading) {
+    return (
+      <vstack height="100%" width="100%" alignment="center middle">
+        <text>Loading report...</text>
+      </vstack>
+    );
+  }
+
+  if (!report) {
+    return (
+      <vstack height="100%" width="100%" alignment="center middle">
+        <text>This report is no longer available</text>
+      </vstack>
+    );
+  }
+
+  return (
+    <vstack height="100%" width="100%" gap="small" padding="medium">
+      <hstack alignment="middle">
+        <vstack grow>
+          <text size="large" weight="bold">📊 Market Report</text>
+          <text size="small" color="neutral-content-weak">{report.date} · {report.timezone}</text>
+        </vstack>
+        <vstack alignment="end">
+          <text weight="bold">₽{report.totalMarketCap.toFixed(0)} market cap</text>
+          {report.marketCapChangePercent !== null && (
+            <text size="small" color={changeColor(report.marketCapChangePercent)}>
+              {formatChange(report.marketCapChangePercent)} since last report
+            </text>
+          )}
+        </vstack>
+      </hstack>
+      <text size="small" color="neutral-content-weak">
+        {report.memeCount} memes · {report.totalVolume} shares traded · ₽{report.totalTurnover.toFixed(2)} turnover
+      </text>
+
+      <hstack gap="small">
+        {SECTIONS.map(({ id, label }) => (
+          <button
+            size="small"
+            appearance={section === id ? 'primary' : 'secondary'}
+            onPress={() => setSection(id)}
+          >
+            {label}
+          </button>
+        ))}
+      </hstack>
+
+      <SectionBody report={report} section={section} />
+    </vstack>
+  );
+}
+
+// Submit a custom post showing the report. The caller records the post.
+export async function submitMarketReportPost(report: MarketReport, context: JobContext): Promise<Post> {
+  const { reddit } = context;
+
+  const subreddit = await reddit.getCurrentSubreddit();
+  return await reddit.submitPost({
+    title: `📊 Market Report: ${report.date}`,
+    subredditName: subreddit.name,
+    preview: <MarketReportPreview report={report} />,
+  });
+}
+
+// Claim the local `date` and start compiling its report. Returns false if
+// that date's report has already gone out or is underway.
+async function startMarketReport(
+  date: string,
+  timezone: string,
+  context: JobContext,
+  now: number
+): Promise<boolean> {
+  const { redis } = context;
+
+  const claimed = await redis.set(`report:posted:${date}`, '1', {
+    nx: true,
+    expiration: new Date(now + REPORT_CLAIM_TTL_MS),
+  });
+  if (!claimed) return false;
+
+  await saveMarketReportDraft(createMarketReportDraft(date, timezone, now), context);
+  return true;
+}
+
+// Work on the report underway until the run's time is up, and post it once
+// the whole market is in. Returns the report once it has been posted.
+async function continueMarketReport(context: JobContext): Promise<MarketReport | null> {
+  const { redis, scheduler } = context;
+  const runStartedAt = Date.now();
+
+  const lockId = `report_${runStartedAt}_${Math.floor(Math.random() * 1000)}`;
+  const locked = await redis.set(REPORT_LOCK_KEY, lockId, {
+    nx: true,
+    expiration: new Date(runStartedAt + REPORT_LOCK_TTL_MS),
+  });
+  if (!locked) return null;
+
+  try {
+    const draft = await getMarketReportDraft(context);
+    if (!draft) return null;
+
+    const done = await advanceMarketReport(draft, runStartedAt + REPORT_TIME_BUDGET_MS, context);
+    await saveMarketReportDraft(draft, context);
+    if (!done) {
+      await scheduler.runJob({ name: MARKET_REPORT_JOB, runAt: new Date(Date.now() + 1000) });
+      return null;
+    }
+
+    const report = await finishMarketReport(draft, context);
+    await saveMarketReport(report, context);
+
+    const post = await submitMarketReportPost(report, context);
+    await savePostRecord(post.id, { kind: 'market-report', reportId: report.id }, context);
+    report.postId = post.id;
+    await saveMarketReport(report, context);
+    await clearMarketReportDraft(context);
+
+    return report;
+  } finally {
+    if ((await redis.get(REPORT_LOCK_KEY)) === lockId) {
+      await redis.del(REPORT_LOCK_KEY);
+    }
+  }
+}
+
+// Carry on with a report underway, or start today's if it's time and it
+// hasn't gone out yet. Returns the report once it has been posted.
+export async function runMarketReport(context: JobContext): Promise<MarketReport | null> {
+  if (await getMarketReportDraft(context)) {
+    return await continueMarketReport(context);
+  }
+
+  const { enabled, hour, timezone } = await getMarketReportSettings(context);
+  if (!enabled) return null;
+
+  const now = Date.now();
+  const local = localDateAndHour(now, timezone);
+  if (local.hour !== hour) return null;
+
+  // Nothing trades between seasons
+  if (!(await isMarketOpen(context))) return null;
+
+  if (!(await startMarketReport(local.date, timezone, context, now))) return null;
+  return await continueMarketReport(context);
+}
+
+// Replace any scheduled report job with the hourly check
+export async function scheduleMarketReport(context: JobContext): Promise<void> {
+  const { scheduler } = context;
+
+  const jobs = await scheduler.listJobs();
+  for (const job of jobs) {
+    if (job.name === MARKET_REPORT_JOB) {
+      await scheduler.cancelJob(job.id);
+    }
+  }
+
+  await scheduler.runJob({ name: MARKET_REPORT_JOB, cron: MARKET_REPORT_CRON });
+}
+
+Devvit.addSchedulerJob({
+  name: MARKET_REPORT_JOB,
+  onRun: async (_event, context) => {
+    try {
+      const report = await runMarketReport(context);
+      if (report) {
+        console.log(`Posted market report ${report.id}`);
+      }
+    } catch (error) {
+      console.error('Error posting market report:', error);
+    }
+  },
+});
+
+// Post today's report straight away rather than waiting for the configured
+// hour. It is compiled by the report job, which then skips today.
+Devvit.addMenuItem({
+  label: 'Post today\'s market report',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (_event, context) => {
+    const { scheduler, ui } = context;
+
+    try {
+      const { timezone } = await getMarketReportSettings(context);
+      const now = Date.now();
+      if (!(await startMarketReport(localDateAndHour(now, timezone).date, timezone, context, now))) {
+        ui.showToast('Today\'s report has already been posted');
+        return;
+      }
+
+      await scheduler.runJob({ name: MARKET_REPORT_JOB, runAt: new Date() });
+      ui.showToast('Compiling today\'s report; it will be posted shortly');
+    } catch (error) {
+      console.error('Error posting market report:', error);
+      ui.showToast('Could not post the market report');
+    }
+  },
+});
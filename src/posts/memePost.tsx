@@ -0,0 +1,148 @@
+import { Devvit, Post } from '@devvit/public-api';
+import { useService } from '../components/useService';
+import { getMeme, getMemes, linkMemePost, MemeData, readMemeIndex } from '../storage/memeRegistry';
+import { assertModerator } from '../server/permissions';
+
+// The meme image with its top and bottom text laid over it
+export function MemeImage({ meme, height = '240px' }: { meme: MemeData; height?: Devvit.Blocks.SizeString }) {
+  return (
+    <zstack height={height} width="100%" alignment="center middle">
+      <image
+        url={meme.templateUrl}
+        description={meme.title}
+        imageHeight={512}
+        imageWidth={512}
+        height="100%"
+        width="100%"
+        resizeMode="fit"
+      />
+      <vstack height="100%" width="100%" alignment="center" padding="small">
+        <text size="xlarge" weight="bold" color="white" outline="thick" wrap alignment="center">
+          {meme.topText.toUpperCase()}
+        </text>
+        <spacer grow />
+        <text size="xlarge" weight="bold" color="white" outline="thick" wrap alignment="center">
+          {meme.bottomText.toUpperCase()}
+        </text>
+      </vstack>
+    </zstack>
+  );
+}
+
+// Shown while a freshly submitted meme post loads
+export function MemePreview({ meme }: { meme: MemeData }) {
+  return (
+    <vstack height="100%" width="100%" gap="small" alignment="center middle">
+      <MemeImage meme={meme} />
+      <text size="large" weight="bold">{meme.title}</text>
+      <text color="neutral-content-weak">IPO at ₽{meme.initialSharePrice.toFixed(2)}</text>
+    </vstack>
+  );
+}
+
+// Post body for a listed meme: the image, its creator and its live share price
+export function MemePost({ memeId }: { memeId: string }, context: Devvit.Context) {
+  const { data: meme, loading } = useService<MemeData | null>(() => getMeme(memeId, context));
+
+  if (loading) {
+    return (
+      <vstack height="100%" width="100%" alignment="center middle">
+        <text>Loading meme...</text>
+      </vstack>
+    );
+  }
+
+  if (!meme) {
+    return (
+      <vstack height="100%" width="100%" alignment="center middle">
+        <text>This meme is no longer listed</text>
+      </vstack>
+    );
+  }
+
+  return (
+    <vstack height="100%" width="100%" gap="small" padding="medium">
+      <MemeImage meme={meme} />
+      <hstack alignment="middle">
+        <vstack grow>
+          <text size="large" weight="bold">{meme.title}</text>
+          <text size="small" color="neutral-content-weak">Created by u/{meme.creatorName}</text>
+        </vstack>
+        <text size="xlarge" weight="bold">₽{meme.currentSharePrice.toFixed(2)}</text>
+      </hstack>
+      <text size="small" color="neutral-content-weak">
+        Upvotes and comments on this post move the share price
+      </text>
+    </vstack>
+  );
+}
+
+// Submit a custom post showing the meme. The caller links it to the meme.
+export async function submitMemePost(meme: MemeData, context: Devvit.Context): Promise<Post> {
+  const { reddit } = context;
+
+  const subreddit = await reddit.getCurrentSubreddit();
+  return await reddit.submitPost({
+    title: `📈 IPO: ${meme.title}`,
+    subredditName: subreddit.name,
+    preview: <MemePreview meme={meme} />,
+  });
+}
+
+// Lets a moderator pick which meme an existing post should back
+const attachPostForm = Devvit.createForm(
+  (data) => ({
+    title: 'Attach post to meme',
+    description: 'Karma and comments on this post will drive the meme\'s price.',
+    fields: [
+      {
+        type: 'string',
+        name: 'postId',
+        label: 'Post',
+        defaultValue: data.postId,
+        disabled: true,
+      },
+      {
+        type: 'select',
+        name: 'memeId',
+        label: 'Meme',
+        options: data.memes,
+        required: true,
+      },
+    ],
+    acceptLabel: 'Attach',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    try {
+      await assertModerator(context, 'attach posts to memes');
+      const meme = await linkMemePost(values.memeId[0], values.postId!, context);
+      ui.showToast(`Attached to ${meme.title}`);
+    } catch (error) {
+      console.error('Error attaching post to meme:', error);
+      ui.showToast(error instanceof Error ? error.message : 'Could not attach post');
+    }
+  }
+);
+
+Devvit.addMenuItem({
+  label: 'Attach to meme',
+  location: 'post',
+  forUserType: 'moderator',
+  onPress: async (event, context) => {
+    const { ui } = context;
+
+    // Offer the most recent listings
+    const memes = await getMemes(await readMemeIndex('created', context, { count: 50 }), context);
+    if (memes.length === 0) {
+      ui.showToast('There are no memes to attach this post to');
+      return;
+    }
+
+    ui.showForm(attachPostForm, {
+      postId: event.targetId,
+      memes: memes.map(meme => ({ label: meme.title, value: meme.id })),
+    });
+  },
+});
@@ -0,0 +1,394 @@
+import { Devvit, JSONObject, useForm, useState } from '@devvit/public-api';
+import { useService } from '../components/useService';
+import { approveListing, rejectListing, requestListingChanges, resubmitListing } from '../server/memeEngine';
+import { isModerator } from '../server/permissions';
+import { fieldHelp, ValidationError } from '../server/validation';
+import {
+  countPendingListings,
+  getListing,
+  getListings,
+  MemeListing,
+  readCreatorListingIds,
+  readPendingListingIds,
+} from '../storage/memeisting';
+import { savePostRecord } from '../storage/postRegistry';
+import { MemeImage } from './memePost';
+
+// Listings offered in the review and edit pickers
+const PICKER_LIMIT = 50;
+
+type ReviewDecision = 'approve' | 'request-changes' | 'reject';
+
+// Carry out a mod's decision and describe the outcome for a toast
+async function applyReview(
+  listingId: string,
+  decision: ReviewDecision,
+  note: string,
+  context: Devvit.Context
+): Promise<string> {
+  switch (decision) {
+    case 'approve': {
+      const meme = await approveListing(listingId, context);
+      return `${meme.title} is now listed`;
+    }
+    case 'request-changes': {
+      if (!note) throw new Error('Tell the creator what to change');
+      const listing = await requestListingChanges(listingId, note, context);
+      return `Sent ${listing.draft.title} back for edits`;
+    }
+    case 'reject': {
+      if (!note) throw new Error('Give a reason for the rejection');
+      const listing = await rejectListing(listingId, note, context);
+      return `Rejected ${listing.draft.title} and refunded ₽${listing.fee.toFixed(2)}`;
+    }
+  }
+}
+
+function ListingSummary({ listing }: { listing: MemeListing }) {
+  const { draft } = listing;
+
+  return (
+    <vstack gap="small">
+      <MemeImage meme={draft} height="180px" />
+      <hstack alignment="middle">
+        <vstack grow>
+          <text size="large" weight="bold" overflow="ellipsis">{draft.title}</text>
+          <text size="small" color="neutral-content-weak">
+            by u/{draft.creatorName} · {draft.categories.join(', ') || 'no categories'}
+          </text>
+        </vstack>
+        <vstack alignment="end">
+          <text weight="bold">IPO ₽{draft.initialSharePrice.toFixed(2)}</text>
+          <text size="small" color="neutral-content-weak">fee ₽{listing.fee.toFixed(2)}</text>
+        </vstack>
+      </hstack>
+      {listing.revision > 1 && (
+        <text size="small" color="neutral-content-weak">
+          Revision {listing.revision}, after edits were asked for: "{listing.reviewNote ?? ''}"
+        </text>
+      )}
+    </vstack>
+  );
+}
+
+interface ReviewQueuePage {
+  total: number;
+  listing: MemeListing | null;
+  canReview: boolean;
+}
+
+// Post body for the review queue. Everyone can see what's waiting; only mods
+// get the review buttons.
+export function ListingQueuePost(_props: JSONObject, context: Devvit.Context) {
+  const { ui } = context;
+  const [position, setPosition] = useState(0);
+  const [version, setVersion] = useState(0);
+
+  const { data: queue, loading } = useService<ReviewQueuePage>(async () => {
+    const [total, listingIds, canReview] = await Promise.all([
+      countPendingListings(context),
+      readPendingListingIds(context, position, 1),
+      isModerator(context),
+    ]);
+    const listing = listingIds.length > 0 ? await getListing(listingIds[0], context) : null;
+    return { total, listing, canReview };
+  }, [position, version]);
+
+  const review = async (decision: ReviewDecision, note = '') => {
+    if (!queue?.listing) return;
+
+    try {
+      ui.showToast(await applyReview(queue.listing.id, decision, note, context));
+    } catch (error) {
+      console.error('Error reviewing listing:', error);
+      ui.showToast(error instanceof Error ? error.message : 'Could not review this listing');
+    }
+    // The reviewed listing has left the queue, so the same position now
+    // holds the next one
+    setVersion(version + 1);
+  };
+
+  const changesForm = useForm(
+    {
+      title: 'Ask for edits',
+      fields: [{ type: 'paragraph', name: 'note', label: 'What should the creator change?', required: true }],
+      acceptLabel: 'Send back',
+    },
+    async values => review('request-changes', values.note?.trim() ?? '')
+  );
+
+  const rejectForm = useForm(
+    {
+      title: 'Reject listing',
+      description: 'The creator gets their IPO fee back.',
+      fields: [{ type: 'paragraph', name: 'reason', label: 'Reason', required: true }],
+      acceptLabel: 'Reject',
+    },
+    async values => review('reject', values.reason?.trim() ?? '')
+  );
+
+  if (loading || !queue) {
+    return (
+      <vstack height="100%" width="100%" alignment="center middle">
+        <text>Loading review queue...</text>
+      </vstack>
+    );
+  }
+
+  if (!queue.listing) {
+    return (
+      <vstack height="100%" width="100%" gap="small" alignment="center middle">
+        <text size="large" weight="bold">🗂️ Meme listings</text>
+        <text color="neutral-content-weak">No memes are waiting for review</text>
+        {position > 0 && (
+          <button size="small" appearance="secondary" onPress={() => setPosition(0)}>
+            Back to start
+          </button>
+        )}
+      </vstack>
+    );
+  }
+
+  return (
+    <vstack height="100%" width="100%" gap="small" padding="medium">
+      <hstack alignment="middle">
+        <text size="large" weight="bold" grow>🗂️ Meme listings</text>
+        <text size="small" color="neutral-content-weak">{position + 1} of {queue.total} waiting</text>
+      </hstack>
+
+      <ListingSummary listing={queue.listing} />
+
+      <hstack gap="small" alignment="middle">
+        <button size="small" icon="back" disabled={position === 0} onPress={() => setPosition(position - 1)} />
+        <button
+          size="small"
+          icon="forward"
+          disabled={position + 1 >= queue.total}
+          onPress={() => setPosition(position + 1)}
+        />
+        <spacer grow />
+        {queue.canReview && (
+          <hstack gap="small">
+            <button size="small" appearance="destructive" onPress={() => ui.showForm(rejectForm)}>
+              Reject
+            </button>
+            <button size="small" appearance="secondary" onPress={() => ui.showForm(changesForm)}>
+              Ask for edits
+            </button>
+            <button size="small" appearance="primary" onPress={() => review('approve')}>
+              Approve
+            </button>
+          </hstack>
+        )}
+      </hstack>
+    </vstack>
+  );
+}
+
+// Review any pending listing without opening the queue post
+const reviewForm = Devvit.createForm(
+  (data) => ({
+    title: 'Review pending memes',
+    description: 'Rejected listings get their IPO fee refunded.',
+    fields: [
+      {
+        type: 'select',
+        name: 'listingId',
+        label: 'Listing',
+        options: data.listings,
+        required: true,
+      },
+      {
+        type: 'select',
+        name: 'decision',
+        label: 'Decision',
+        options: [
+          { label: 'Approve and list', value: 'approve' },
+          { label: 'Ask for edits', value: 'request-changes' },
+          { label: 'Reject', value: 'reject' },
+        ],
+        defaultValue: ['approve'],
+        required: true,
+      },
+      {
+        type: 'paragraph',
+        name: 'note',
+        label: 'Reason or requested edits',
+        helpText: 'Required unless approving. The creator will see this.',
+      },
+    ],
+    acceptLabel: 'Submit review',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    try {
+      const decision = values.decision[0] as ReviewDecision;
+      ui.showToast(await applyReview(values.listingId[0], decision, values.note?.trim() ?? '', context));
+    } catch (error) {
+      console.error('Error reviewing listing:', error);
+      ui.showToast(error instanceof Error ? error.message : 'Could not review this listing');
+    }
+  }
+);
+
+// Creators fix up a listing that came back with requested edits
+const editListingForm = Devvit.createForm(
+  (data) => ({
+    title: `Edit ${data.title}`,
+    description: `A moderator asked: "${data.note}"`,
+    fields: [
+      { type: 'string', name: 'listingId', label: 'Listing', defaultValue: data.listingId, disabled: true },
+      {
+        type: 'string',
+        name: 'title',
+        label: 'Meme title',
+        helpText: fieldHelp(data.errors, 'title'),
+        defaultValue: data.title,
+        required: true,
+      },
+      { type: 'string', name: 'topText', label: 'Top text', helpText: fieldHelp(data.errors, 'topText'), defaultValue: data.topText },
+      { type: 'string', name: 'bottomText', label: 'Bottom text', helpText: fieldHelp(data.errors, 'bottomText'), defaultValue: data.bottomText },
+    ],
+    acceptLabel: 'Resubmit for review',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    const edits = {
+      title: values.title ?? '',
+      topText: values.topText ?? '',
+      bottomText: values.bottomText ?? '',
+    };
+
+    try {
+      const listing = await resubmitListing(values.listingId!, edits, context);
+      ui.showToast(`${listing.draft.title} is back in the review queue`);
+    } catch (error) {
+      console.error('Error resubmitting listing:', error);
+      if (error instanceof ValidationError) {
+        // Reopen the form with the creator's edits and what was wrong with them
+        const listing = await getListing(values.listingId!, context);
+        if (listing) {
+          ui.showForm(editListingForm, { ...editFormData(listing), ...edits, errors: error.byField() });
+          return;
+        }
+      }
+      ui.showToast(error instanceof Error ? error.message : 'Could not resubmit this listing');
+    }
+  }
+);
+
+function editFormData(listing: MemeListing) {
+  return {
+    listingId: listing.id,
+    title: listing.draft.title,
+    topText: listing.draft.topText,
+    bottomText: listing.draft.bottomText,
+    note: listing.reviewNote ?? '',
+  };
+}
+
+// When several listings need edits, the creator picks one first
+const chooseListingForm = Devvit.createForm(
+  (data) => ({
+    title: 'Edit a meme listing',
+    fields: [
+      {
+        type: 'select',
+        name: 'listingId',
+        label: 'Listing',
+        options: data.listings,
+        required: true,
+      },
+    ],
+    acceptLabel: 'Edit',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    const listing = await getListing(values.listingId[0], context);
+    if (!listing || listing.status !== 'changes-requested') {
+      ui.showToast('That listing no longer needs edits');
+      return;
+    }
+    ui.showForm(editListingForm, editFormData(listing));
+  }
+);
+
+Devvit.addMenuItem({
+  label: 'Review pending memes',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (_event, context) => {
+    const { ui } = context;
+
+    const listings = await getListings(await readPendingListingIds(context, 0, PICKER_LIMIT), context);
+    if (listings.length === 0) {
+      ui.showToast('No memes are waiting for review');
+      return;
+    }
+
+    ui.showForm(reviewForm, {
+      listings: listings.map(listing => ({
+        label: `${listing.draft.title} by u/${listing.draft.creatorName}`,
+        value: listing.id,
+      })),
+    });
+  },
+});
+
+Devvit.addMenuItem({
+  label: 'Create meme review post',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (_event, context) => {
+    const { reddit, ui } = context;
+
+    try {
+      const subreddit = await reddit.getCurrentSubreddit();
+      const post = await reddit.submitPost({
+        title: '🗂️ Meme listings awaiting review',
+        subredditName: subreddit.name,
+        preview: (
+          <vstack height="100%" width="100%" alignment="center middle">
+            <text size="large">Loading review queue...</text>
+          </vstack>
+        ),
+      });
+      await savePostRecord(post.id, { kind: 'listing-queue' }, context);
+      ui.navigateTo(post);
+    } catch (error) {
+      console.error('Error creating review post:', error);
+      ui.showToast('Could not create the review post');
+    }
+  },
+});
+
+Devvit.addMenuItem({
+  label: 'Edit my meme listing',
+  location: 'subreddit',
+  onPress: async (_event, context) => {
+    const { reddit, ui } = context;
+
+    const currentUser = await reddit.getCurrentUser();
+    if (!currentUser) {
+      ui.showToast('Log in to edit your listings');
+      return;
+    }
+
+    const listingIds = (await readCreatorListingIds(currentUser.id, context)).slice(0, PICKER_LIMIT);
+    const listings = (await getListings(listingIds, context))
+      .filter(listing => listing.status === 'changes-requested');
+
+    if (listings.length === 0) {
+      ui.showToast('None of your listings need edits');
+    } else if (listings.length === 1) {
+      ui.showForm(editListingForm, editFormData(listings[0]));
+    } else {
+      ui.showForm(chooseListingForm, {
+        listings: listings.map(listing => ({ label: listing.draft.title, value: listing.id })),
+      });
+    }
+  },
+});
@@ -0,0 +1,306 @@
+import { Devvit, Post } from '@devvit/public-api';
+import { useService } from '../components/useService';
+import {
+  countLeaderboard,
+  getNetWorthHistory,
+  NetWorthPeriod,
+  NetWorthPoint,
+  percentReturn,
+  readLeaderboardRank,
+} from '../server/leaderboards';
+import { valuePortfolio } from '../server/portfolioEngine';
+import { savePostRecord } from '../storage/postRegistry';
+import {
+  getPortfolioStatement,
+  PortfolioStatement,
+  savePortfolioStatement,
+} from '../storage/portfolioStatements';
+import { readWallet } from '../storage/userPortfolios';
+
+// Sparklines are thinned out to at most this many bars
+const SPARKLINE_POINTS = 24;
+
+// Holdings listed on a statement, largest first
+const STATEMENT_HOLDINGS = 5;
+
+// One statement per user per hour keeps the feed from filling up with them
+const STATEMENT_COOLDOWN_MS = 60 * 60 * 1000;
+
+const PERIOD_LABELS: Record<NetWorthPeriod, string> = {
+  day: 'today',
+  week: 'this week',
+  season: 'this season',
+};
+
+function formatChange(percent: number): string {
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(2)}%`;
+}
+
+function changeColor(percent: number): string {
+  return percent > 0 ? 'success-plain' : percent < 0 ? 'danger-plain' : 'neutral-content-weak';
+}
+
+// Evenly spaced points, always keeping the first and last
+function downsample<T>(points: T[], count: number): T[] {
+  if (points.length <= count) return points;
+  return Array.from({ length: count }, (_, index) => points[Math.round(index * (points.length - 1) / (count - 1))]);
+}
+
+// Snapshot a user's portfolio for a statement. With `hideBalances` set, no
+// MemeCoin amounts are stored at all, only percentages.
+export async function buildPortfolioStatement(
+  { userId, username, period, hideBalances }: {
+    userId: string;
+    username: string;
+    period: NetWorthPeriod;
+    hideBalances: boolean;
+  },
+  context: Pick<Devvit.Context, 'redis'>
+): Promise<PortfolioStatement> {
+  const now = Date.now();
+  const [summary, wallet, history, rank, traderCount] = await Promise.all([
+    valuePortfolio(userId, context),
+    readWallet(userId, context),
+    getNetWorthHistory(userId, period, context, now),
+    readLeaderboardRank('net-worth', userId, context),
+    countLeaderboard('net-worth', context),
+  ]);
+
+  const current: NetWorthPoint = { time: now, netWorth: summary.netWorth, deposits: wallet?.deposits || 0 };
+  const points = [...history, current];
+  const start = points[0];
+
+  const amount = (value: number) => (hideBalances ? null : value);
+
+  return {
+    id: `statement_${now}_${Math.floor(Math.random() * 1000)}`,
+    userId,
+    username,
+    period,
+    hideBalances,
+    netWorth: amount(summary.netWorth),
+    cash: amount(summary.cash),
+    unrealizedPnl: amount(summary.unrealizedPnl),
+    realizedPnl: amount(summary.realizedPnl),
+    unrealizedPnlPercent: summary.costBasis > 0 ? (summary.unrealizedPnl / summary.costBasis) * 100 : null,
+    returnPercent: points.length > 1 ? percentReturn(start, current) : null,
+    rank: rank ? rank.rank : null,
+    traderCount,
+    holdings: summary.holdings.slice(0, STATEMENT_HOLDINGS).map(holding => ({
+      title: holding.meme.title,
+      allocationPercent: summary.holdingsValue > 0 ? (holding.marketValue / summary.holdingsValue) * 100 : 0,
+      value: amount(holding.marketValue),
+      changePercent: holding.changePercent,
+      unrealizedPnl: holding.boughtShares > 0 ? amount(holding.unrealizedPnl) : null,
+      isCreator: holding.grantedShares > 0,
+    })),
+    sparkline: downsample(points, SPARKLINE_POINTS).map(point =>
+      start.netWorth > 0 ? (point.netWorth / start.netWorth - 1) * 100 : 0
+    ),
+    createdAt: new Date(now).toISOString(),
+  };
+}
+
+// Net worth over the period as a row of bars, scaled to the statement's range
+function Sparkline({ values }: { values: number[] }) {
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const range = high - low || 1;
+  const rising = values[values.length - 1] >= values[0];
+
+  return (
+    <hstack height="48px" width="100%" gap="none" alignment="bottom">
+      {values.map(value => (
+        <vstack grow height="100%" alignment="bottom" padding="none">
+          <vstack
+            height={`${Math.max(4, Math.round(((value - low) / range) * 100))}%`}
+            width="80%"
+            backgroundColor={rising ? 'success-plain' : 'danger-plain'}
+            cornerRadius="small"
+          />
+        </vstack>
+      ))}
+    </hstack>
+  );
+}
+
+// Shown while a freshly submitted statement post loads
+export function PortfolioStatementPreview({ statement }: { statement: PortfolioStatement }) {
+  return (
+    <vstack height="100%" width="100%" gap="small" alignment="center middle">
+      <text size="xlarge" weight="bold">💼 u/{statement.username}</text>
+      <text color="neutral-content-weak">Portfolio statement</text>
+    </vstack>
+  );
+}
+
+// Post body for a statement, rendered from the snapshot taken at creation
+export function PortfolioStatementPost({ statementId }: { statementId: string }, context: Devvit.Context) {
+  const { data: statement, loading } = useService<PortfolioStatement | null>(
+    () => getPortfolioStatement(statementId, context)
+  );
+
+  if (loading) {
+    return (
+      <vstack height="100%" width="100%" alignment="center middle">
+        <text>Loading statement...</text>
+      </vstack>
+    );
+  }
+
+  if (!statement) {
+    return (
+      <vstack height="100%" width="100%" alignment="center middle">
+        <text>This statement is no longer available</text>
+      </vstack>
+    );
+  }
+
+  return (
+    <vstack height="100%" width="100%" gap="small" padding="medium">
+      <hstack alignment="middle">
+        <vstack grow>
+          <text size="large" weight="bold">💼 u/{statement.username}</text>
+          <text size="small" color="neutral-content-weak">
+            {statement.createdAt.slice(0, 10)}
+            {statement.rank !== null && ` · #${statement.rank} of ${statement.traderCount} traders`}
+          </text>
+        </vstack>
+        <vstack alignment="end">
+          {statement.netWorth !== null && <text size="large" weight="bold">₽{statement.netWorth.toFixed(2)}</text>}
+          {statement.returnPercent !== null && (
+            <text size="small" weight="bold" color={changeColor(statement.returnPercent)}>
+              {formatChange(statement.returnPercent)} {PERIOD_LABELS[statement.period]}
+            </text>
+          )}
+        </vstack>
+      </hstack>
+
+      {statement.sparkline.length > 1 && <Sparkline values={statement.sparkline} />}
+
+      <hstack gap="medium">
+        {statement.unrealizedPnlPercent !== null && (
+          <text size="small" color={changeColor(statement.unrealizedPnlPercent)}>
+            Unrealized {statement.unrealizedPnl !== null && `₽${statement.unrealizedPnl.toFixed(2)} `}
+            ({formatChange(statement.unrealizedPnlPercent)})
+          </text>
+        )}
+        {statement.realizedPnl !== null && (
+          <text size="small" color={changeColor(statement.realizedPnl)}>
+            Realized ₽{statement.realizedPnl.toFixed(2)}
+          </text>
+        )}
+        {statement.cash !== null && (
+          <text size="small" color="neutral-content-weak">Cash ₽{statement.cash.toFixed(2)}</text>
+        )}
+      </hstack>
+
+      <vstack gap="small">
+        {statement.holdings.length === 0 && (
+          <text size="small" color="neutral-content-weak">All in cash</text>
+        )}
+        {statement.holdings.map(holding => (
+          <hstack alignment="middle" gap="small">
+            <text grow overflow="ellipsis">{holding.isCreator ? '🎨 ' : ''}{holding.title}</text>
+            <text size="small" color="neutral-content-weak">{holding.allocationPercent.toFixed(1)}%</text>
+            {holding.value !== null && <text size="small">₽{holding.value.toFixed(2)}</text>}
+            {holding.changePercent !== null && (
+              <text size="small" weight="bold" color={changeColor(holding.changePercent)}>
+                {formatChange(holding.changePercent)}
+              </text>
+            )}
+          </hstack>
+        ))}
+      </vstack>
+    </vstack>
+  );
+}
+
+// Submit a custom post showing the statement. The caller records the post.
+export async function submitPortfolioStatementPost(statement: PortfolioStatement, context: Devvit.Context): Promise<Post> {
+  const { reddit } = context;
+
+  const subreddit = await reddit.getCurrentSubreddit();
+  return await reddit.submitPost({
+    title: `💼 u/${statement.username}'s portfolio ${PERIOD_LABELS[statement.period]}`,
+    subredditName: subreddit.name,
+    preview: <PortfolioStatementPreview statement={statement} />,
+  });
+}
+
+const statementForm = Devvit.createForm(
+  {
+    title: 'Post my portfolio statement',
+    description: 'Shares a snapshot of your holdings, P&L and rank. It won\'t change after it\'s posted.',
+    fields: [
+      {
+        type: 'select',
+        name: 'period',
+        label: 'Period',
+        options: [
+          { label: 'Today', value: 'day' },
+          { label: 'This week', value: 'week' },
+          { label: 'This season', value: 'season' },
+        ],
+        defaultValue: ['week'],
+        required: true,
+      },
+      {
+        type: 'boolean',
+        name: 'hideBalances',
+        label: 'Hide balances and show only percentages',
+        defaultValue: false,
+      },
+    ],
+    acceptLabel: 'Post',
+  },
+  async ({ values }, context) => {
+    const { reddit, redis, ui } = context;
+    let cooldownKey: string | null = null;
+
+    try {
+      const currentUser = await reddit.getCurrentUser();
+      if (!currentUser) {
+        ui.showToast('Log in to post a statement');
+        return;
+      }
+
+      const allowed = await redis.set(`statement:cooldown:${currentUser.id}`, '1', {
+        nx: true,
+        expiration: new Date(Date.now() + STATEMENT_COOLDOWN_MS),
+      });
+      if (!allowed) {
+        ui.showToast('You can post one statement an hour');
+        return;
+      }
+      cooldownKey = `statement:cooldown:${currentUser.id}`;
+
+      const statement = await buildPortfolioStatement({
+        userId: currentUser.id,
+        username: currentUser.username,
+        period: values.period[0] as NetWorthPeriod,
+        hideBalances: values.hideBalances ?? false,
+      }, context);
+      await savePortfolioStatement(statement, context);
+
+      const post = await submitPortfolioStatementPost(statement, context);
+      await savePostRecord(post.id, { kind: 'portfolio-statement', statementId: statement.id }, context);
+      await savePortfolioStatement({ ...statement, postId: post.id }, context);
+
+      ui.navigateTo(post);
+    } catch (error) {
+      console.error('Error posting portfolio statement:', error);
+      // A failed post shouldn't cost the user their hour
+      if (cooldownKey) await redis.del(cooldownKey);
+      ui.showToast('Could not post your statement');
+    }
+  }
+);
+
+Devvit.addMenuItem({
+  label: 'Post my portfolio statement',
+  location: 'subreddit',
+  onPress: (_event, context) => {
+    context.ui.showForm(statementForm);
+  },
+});
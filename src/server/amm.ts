@@ -0,0 +1,87 @@
+import { MemeData } from '../storage/memeRegistry';
+import { TradeSide } from './tradingEngine';
+
+// Every meme trades against an exponential bonding curve over the shares
+// held outside its float:
+//
+//   price(held) = anchor * e^(STEEPNESS * held / totalShares)
+//
+// `currentSharePrice` is always the spot price at the current float, so the
+// anchor is implied by it. A market tick scales the spot price, which shifts
+// the whole curve; trades walk along it. Buying the entire float costs about
+// e^STEEPNESS times the starting spot, and selling it straight back returns
+// exactly what was paid, so there is nothing to arbitrage.
+export const CURVE_STEEPNESS = 1;
+
+export interface TradeQuote {
+  side: TradeSide;
+  shares: number;
+  // Total MemeCoins paid or received
+  total: number;
+  // Volume-weighted price across the fill
+  averagePrice: number;
+  spotBefore: number;
+  spotAfter: number;
+  // How much worse the average price is than the spot price, as a fraction
+  slippage: number;
+}
+
+function curveAnchor(meme: MemeData): number {
+  const held = meme.totalShares - meme.availableShares;
+  return meme.currentSharePrice / Math.exp(CURVE_STEEPNESS * held / meme.totalShares);
+}
+
+function spotPrice(anchor: number, held: number, totalShares: number): number {
+  return anchor * Math.exp(CURVE_STEEPNESS * held / totalShares);
+}
+
+// Price an order by integrating the curve across the shares it fills. The
+// caller checks that the float or position can cover it.
+export function quoteOrder(meme: MemeData, side: TradeSide, shares: number): TradeQuote {
+  const { totalShares } = meme;
+  const anchor = curveAnchor(meme);
+  const heldBefore = totalShares - meme.availableShares;
+  const heldAfter = side === 'buy' ? heldBefore + shares : heldBefore - shares;
+
+  const spotBefore = meme.currentSharePrice;
+  const spotAfter = spotPrice(anchor, heldAfter, totalShares);
+
+  // The area under the curve between the two float levels
+  const total = Math.abs(spotAfter - spotBefore) * totalShares / CURVE_STEEPNESS;
+  const averagePrice = shares > 0 ? total / shares : spotBefore;
+
+  return {
+    side,
+    shares,
+    total,
+    averagePrice,
+    spotBefore,
+    spotAfter,
+    slippage: side === 'buy'
+      ? averagePrice / spotBefore - 1
+      : 1 - averagePrice / spotBefore,
+  };
+}
+
+// The most of `shares` that can fill without the average price passing
+// `limitPrice`: above it for a buy, below it for a sell. Buys are also held
+// to the float. The average worsens with every share, so the cut-off is
+// found by binary search.
+export function maxSharesWithinLimit(meme: MemeData, side: TradeSide, shares: number, limitPrice: number): number {
+  const withinLimit = (count: number) => {
+    const { averagePrice } = quoteOrder(meme, side, count);
+    return side === 'buy' ? averagePrice <= limitPrice : averagePrice >= limitPrice;
+  };
+
+  let low = 0;
+  let high = side === 'buy' ? Math.min(shares, meme.availableShares) : shares;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (withinLimit(middle)) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
@@ -0,0 +1,289 @@
+import { Devvit } from '@devvit/public-api';
+import { CREATOR_SHARES, getMeme, getMemes, MemeData, readMemeIndex } from '../storage/memeRegistry';
+import { quoteOrder } from './amm';
+import { assertModerator } from './permissions';
+import {
+  applyPriceChange,
+  DEFAULT_PRICING_PARAMS,
+  getPricingModel,
+  loadPricingConfig,
+  PricingModel,
+  PricingParams,
+  PRICING_MODELS,
+} from './pricingModels';
+import { TradeRecord, TradeSide } from './tradingEngine';
+
+// How long each meme's per-tick engagement samples are kept for replay
+const ENGAGEMENT_SAMPLE_RETENTION_MS = 60 * 24 * 60 * 60 * 1000;
+
+// How many memes the backtest picker offers, biggest first
+const PICKER_LIMIT = 50;
+
+// An engagement event is a market tick. A trade event walks the bonding
+// curve, moving the price as it does live, and adds to the volume and float
+// that the next tick sees.
+export type BacktestEvent =
+  | { time: number; type: 'engagement'; engagementScore: number }
+  | { time: number; type: 'trade'; side: TradeSide; shares: number };
+
+export interface BacktestScenario {
+  // The meme as it stood before the first event
+  meme: MemeData;
+  events: BacktestEvent[];
+}
+
+export interface BacktestResult {
+  modelId: string;
+  path: { time: number; price: number; engagementScore: number }[];
+  finalPrice: number;
+  highPrice: number;
+  lowPrice: number;
+  // Largest peak-to-trough fall along the path, as a fraction of the peak
+  maxDrawdown: number;
+}
+
+// Replay a scenario through a pricing model. Pure, so it runs the same
+// offline against a saved scenario as it does inside the app.
+export function runBacktest(
+  scenario: BacktestScenario,
+  model: PricingModel,
+  params: PricingParams = DEFAULT_PRICING_PARAMS
+): BacktestResult {
+  const meme: MemeData = { ...scenario.meme, priceHistory: [] };
+  const events = [...scenario.events].sort((a, b) => a.time - b.time);
+
+  const path: BacktestResult['path'] = [];
+  let peak = meme.currentSharePrice;
+  let maxDrawdown = 0;
+
+  const record = (time: number) => {
+    path.push({ time, price: meme.currentSharePrice, engagementScore: meme.engagementScore });
+    peak = Math.max(peak, meme.currentSharePrice);
+    maxDrawdown = Math.max(maxDrawdown, (peak - meme.currentSharePrice) / peak);
+  };
+
+  for (const event of events) {
+    if (event.type === 'trade') {
+      // A model can't change the float, but keep replayed trades within it
+      const held = meme.totalShares - meme.availableShares;
+      const shares = Math.min(event.shares, event.side === 'buy' ? meme.availableShares : held);
+      if (shares > 0) {
+        meme.currentSharePrice = quoteOrder(meme, event.side, shares).spotAfter;
+        meme.availableShares += event.side === 'buy' ? -shares : shares;
+      }
+      meme.tradeVolume += event.shares;
+      record(event.time);
+      continue;
+    }
+
+    const change = model.priceChange({ meme, engagementScore: event.engagementScore, now: event.time }, params);
+    meme.currentSharePrice = applyPriceChange(meme.currentSharePrice, change, params);
+    meme.engagementScore = event.engagementScore;
+    record(event.time);
+  }
+
+  const prices = [scenario.meme.currentSharePrice, ...path.map(point => point.price)];
+
+  return {
+    modelId: model.id,
+    path,
+    finalPrice: meme.currentSharePrice,
+    highPrice: Math.max(...prices),
+    lowPrice: Math.min(...prices),
+    maxDrawdown,
+  };
+}
+
+// Keep the engagement score measured on each tick so it can be replayed
+export async function recordEngagementSample(
+  memeId: string,
+  engagementScore: number,
+  time: number,
+  context: Pick<Devvit.Context, 'redis'>
+): Promise<void> {
+  const { redis } = context;
+  const key = `engagement:${memeId}`;
+
+  await redis.zAdd(key, { member: JSON.stringify({ time, engagementScore }), score: time });
+  await redis.zRemRangeByScore(key, 0, time - ENGAGEMENT_SAMPLE_RETENTION_MS);
+}
+
+// Build a scenario from a meme's recorded engagement samples and trades,
+// starting from its state at IPO
+export async function loadRecordedScenario(
+  memeId: string,
+  context: Pick<Devvit.Context, 'redis'>
+): Promise<BacktestScenario> {
+  const { redis } = context;
+
+  const meme = await getMeme(memeId, context);
+  if (!meme) {
+    throw new Error(`Meme not found: ${memeId}`);
+  }
+
+  const [samples, trades] = await Promise.all([
+    redis.zRange(`engagement:${memeId}`, 0, -1, { by: 'rank' }),
+    redis.zRange(`trades:${memeId}`, 0, -1, { by: 'rank' }),
+  ]);
+
+  const events: BacktestEvent[] = [
+    ...samples.map(({ member }): BacktestEvent => {
+      const { time, engagementScore } = JSON.parse(member);
+      return { time, type: 'engagement', engagementScore };
+    }),
+    ...trades.map(({ member }): BacktestEvent => {
+      const trade: TradeRecord = JSON.parse(member);
+      return { time: Date.parse(trade.timestamp), type: 'trade', side: trade.side, shares: trade.shares };
+    }),
+  ];
+
+  return {
+    meme: {
+      ...meme,
+      currentSharePrice: meme.initialSharePrice,
+      availableShares: meme.totalShares - CREATOR_SHARES,
+      tradeVolume: 0,
+      engagementScore: 10,
+      priceHistory: [],
+    },
+    events,
+  };
+}
+
+// Replay a meme's recorded history through each pricing model (moderators only).
+// Parameters default to the live settings; any given here override them.
+export async function backtestPricing({
+  memeId,
+  modelIds = Object.keys(PRICING_MODELS),
+  params = {},
+}: {
+  memeId: string;
+  modelIds?: string[];
+  params?: Partial<PricingParams>;
+}, context: Devvit.Context): Promise<BacktestResult[]> {
+  try {
+    await assertModerator(context, 'run pricing backtests');
+
+    const scenario = await loadRecordedScenario(memeId, context);
+    const live = await loadPricingConfig(context);
+    // Overrides left out fall back to the live settings
+    const overrides = Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined));
+    const backtestParams = { ...live.params, ...overrides };
+
+    return modelIds.map(modelId => runBacktest(scenario, getPricingModel(modelId), backtestParams));
+  } catch (error) {
+    console.error(`Error backtesting pricing for meme ${memeId}:`, error);
+    throw error;
+  }
+}
+
+function formatCoins(amount: number): string {
+  return `₽${amount.toFixed(2)}`;
+}
+
+function formatResult(result: BacktestResult, startPrice: number): string {
+  const change = (result.finalPrice / startPrice - 1) * 100;
+  return [
+    `${getPricingModel(result.modelId).label}: ends at ${formatCoins(result.finalPrice)} (${change > 0 ? '+' : ''}${change.toFixed(1)}% from IPO)`,
+    `  high ${formatCoins(result.highPrice)}, low ${formatCoins(result.lowPrice)}, max drawdown ${(result.maxDrawdown * 100).toFixed(1)}% over ${result.path.length} ticks and trades`,
+  ].join('\n');
+}
+
+const backtestResultForm = Devvit.createForm(
+  (data) => ({
+    title: `Backtest: ${data.title}`,
+    description: data.description,
+    fields: [
+      { type: 'paragraph', name: 'results', label: 'Results', defaultValue: data.results, disabled: true },
+    ],
+    acceptLabel: 'Done',
+  }),
+  async () => {}
+);
+
+const backtestForm = Devvit.createForm(
+  (data) => ({
+    title: 'Backtest pricing',
+    description: 'Replays a meme\'s recorded engagement and trades from its IPO through each pricing model.',
+    fields: [
+      { type: 'select', name: 'memeId', label: 'Meme', options: data.memes, required: true },
+      {
+        type: 'select',
+        name: 'modelIds',
+        label: 'Pricing models',
+        options: Object.values(PRICING_MODELS).map(model => ({ label: model.label, value: model.id })),
+        defaultValue: Object.keys(PRICING_MODELS),
+        multiSelect: true,
+      },
+      {
+        type: 'number',
+        name: 'volatilityDecayPerDay',
+        label: 'Volatility decay per day',
+        defaultValue: data.volatilityDecayPerDay,
+        required: true,
+      },
+      { type: 'number', name: 'volumeFactorCap', label: 'Volume factor cap', defaultValue: data.volumeFactorCap, required: true },
+      {
+        type: 'number',
+        name: 'circuitBreakerPercent',
+        label: 'Circuit breaker (%)',
+        defaultValue: data.circuitBreakerPercent,
+        required: true,
+      },
+      { type: 'number', name: 'priceFloor', label: 'Price floor (₽)', defaultValue: data.priceFloor, required: true },
+    ],
+    acceptLabel: 'Run backtest',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    const memeId = values.memeId[0];
+    try {
+      const modelIds = values.modelIds?.length ? values.modelIds : Object.keys(PRICING_MODELS);
+      const results = await backtestPricing({
+        memeId,
+        modelIds,
+        params: {
+          volatilityDecayPerDay: values.volatilityDecayPerDay,
+          volumeFactorCap: values.volumeFactorCap,
+          circuitBreaker: values.circuitBreakerPercent !== undefined ? values.circuitBreakerPercent / 100 : undefined,
+          priceFloor: values.priceFloor,
+        },
+      }, context);
+
+      const meme = (await getMeme(memeId, context))!;
+      ui.showForm(backtestResultForm, {
+        title: meme.title,
+        description: `IPO at ${formatCoins(meme.initialSharePrice)}; trading live at ${formatCoins(meme.currentSharePrice)}.`,
+        results: results.map(result => formatResult(result, meme.initialSharePrice)).join('\n\n'),
+      });
+    } catch (error) {
+      console.error(`Error backtesting meme ${memeId}:`, error);
+      ui.showToast(error instanceof Error ? error.message : 'Could not run the backtest');
+    }
+  }
+);
+
+Devvit.addMenuItem({
+  label: 'Backtest pricing',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (_event, context) => {
+    const { ui } = context;
+
+    const memes = await getMemes(await readMemeIndex('marketCap', context, { count: PICKER_LIMIT }), context);
+    if (memes.length === 0) {
+      ui.showToast('There are no listed memes to backtest');
+      return;
+    }
+
+    const { params } = await loadPricingConfig(context);
+    ui.showForm(backtestForm, {
+      memes: memes.map(meme => ({ label: `${meme.title} · ${formatCoins(meme.currentSharePrice)}`, value: meme.id })),
+      volatilityDecayPerDay: params.volatilityDecayPerDay,
+      volumeFactorCap: params.volumeFactorCap,
+      circuitBreakerPercent: params.circuitBreaker * 100,
+      priceFloor: params.priceFloor,
+    });
+  },
+});
@@ -0,0 +1,89 @@
+import { Devvit } from '@devvit/public-api';
+import { getIncomeSettings } from './settings';
+import { MemeData, readHolders } from '../storage/memeRegistry';
+import { adjustBalance, roundCoins } from '../storage/userPortfolios';
+
+// Each meme pays out at most once per interval
+const DIVIDEND_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// How many times claiming a payout is retried when it races another tick
+const MAX_DIVIDEND_ATTEMPTS = 5;
+
+// Stored as JSON under `dividend:<memeId>`
+interface DividendState {
+  // The highest engagement score already paid for. Only growth past it pays,
+  // so a meme that dips and recovers isn't paid twice for the same points.
+  highWater: number;
+  paidAt: string;
+}
+
+function dividendKey(memeId: string): string {
+  return `dividend:${memeId}`;
+}
+
+// Claim the meme's next payout, if one is due, and return the engagement
+// growth it covers. A meme's first call only starts the clock.
+async function claimDividend(meme: MemeData, context: Pick<Devvit.Context, 'redis'>): Promise<number> {
+  const { redis } = context;
+  const key = dividendKey(meme.id);
+
+  for (let attempt = 0; attempt < MAX_DIVIDEND_ATTEMPTS; attempt++) {
+    const txn = await redis.watch(key);
+    const stateJson = await redis.get(key);
+    const state: DividendState | null = stateJson ? JSON.parse(stateJson) : null;
+
+    if (state && Date.now() - Date.parse(state.paidAt) < DIVIDEND_INTERVAL_MS) {
+      await txn.unwatch();
+      return 0;
+    }
+
+    const next: DividendState = {
+      highWater: Math.max(state?.highWater ?? 0, meme.engagementScore),
+      paidAt: new Date().toISOString(),
+    };
+
+    await txn.multi();
+    await txn.set(key, JSON.stringify(next));
+    const results = await txn.exec();
+
+    if (results && results.length > 0) {
+      return state ? Math.max(0, meme.engagementScore - state.highWater) : 0;
+    }
+  }
+
+  throw new Error(`Could not claim dividend for meme ${meme.id}`);
+}
+
+// Pay a meme's holders their share of its engagement growth since the last
+// payout, pro rata to the shares they hold. Returns the MemeCoins paid.
+export async function payDividends(
+  meme: MemeData,
+  context: Pick<Devvit.Context, 'redis' | 'settings'>
+): Promise<number> {
+  const { dividendPerEngagementPoint } = await getIncomeSettings(context);
+  if (dividendPerEngagementPoint <= 0) return 0;
+
+  const growth = await claimDividend(meme, context);
+  const pool = roundCoins(growth * dividendPerEngagementPoint);
+  if (pool <= 0) return 0;
+
+  const holders = await readHolders(meme.id, context);
+  const heldShares = holders.reduce((sum, holder) => sum + holder.shares, 0);
+  if (heldShares === 0) return 0;
+
+  let paid = 0;
+  for (const { userId, shares } of holders) {
+    const amount = roundCoins((pool * shares) / heldShares);
+    if (amount <= 0) continue;
+
+    // One failed credit shouldn't cost the other holders their payout
+    try {
+      await adjustBalance(userId, amount, 'dividend', context, meme.id);
+      paid += amount;
+    } catch (error) {
+      console.error(`Error paying dividend on meme ${meme.id} to user ${userId}:`, error);
+    }
+  }
+
+  return roundCoins(paid);
+}
@@ -0,0 +1,262 @@
+import { Devvit } from '@devvit/public-api';
+import { valuePortfolio } from './portfolioEngine';
+import { requireCurrentUser } from './permissions';
+import { getMemes, getMemeSortScore, readCreatorMemeIds } from '../storage/memeRegistry';
+import { readWallet, roundCoins } from '../storage/userPortfolios';
+
+export type LeaderboardId = 'net-worth' | 'return-day' | 'return-week' | 'return-season' | 'creators';
+
+// Each board is a sorted set of user IDs, highest score first. They are
+// rewritten by the market tick, so reads never have to value a portfolio.
+export const LEADERBOARDS: Record<LeaderboardId, { label: string; key: string }> = {
+  'net-worth': { label: 'Richest traders', key: 'leaderboard:net_worth' },
+  'return-day': { label: 'Best return today', key: 'leaderboard:return:day' },
+  'return-week': { label: 'Best return this week', key: 'leaderboard:return:week' },
+  'return-season': { label: 'Best return this season', key: 'leaderboard:return:season' },
+  'creators': { label: 'Top creators', key: 'leaderboard:creators' },
+};
+
+// What a trader was worth as of a tick. Every tick's point is kept in
+// `net_worth:<userId>`, and the last tick of each day in `net_worth_daily:<userId>`.
+export interface NetWorthPoint {
+  time: number;
+  netWorth: number;
+  // The wallet's running deposit total at the time, so returns can net it out
+  deposits: number;
+}
+
+export type NetWorthPeriod = 'day' | 'week' | 'season';
+
+function netWorthKey(userId: string): string {
+  return `net_worth:${userId}`;
+}
+
+function dailyNetWorthKey(userId: string): string {
+  return `net_worth_daily:${userId}`;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Per-tick points cover the longest rolling window with a day to spare,
+// however often the market ticks; daily points cover a year, longer than
+// any season
+const NET_WORTH_RETENTION_MS = WEEK_MS + DAY_MS;
+const DAILY_NET_WORTH_RETENTION = 366;
+
+// Each trader's first point of the season, keyed by user ID
+export const SEASON_BASELINE_KEY = 'leaderboard:season_baseline';
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  username: string;
+  // MemeCoins for net worth and creators, percent for returns
+  score: number;
+}
+
+export interface LeaderboardPage {
+  board: LeaderboardId;
+  entries: LeaderboardEntry[];
+  // The current user's standing, even when outside the top entries
+  me: LeaderboardEntry | null;
+}
+
+// Gain since `start` as a percent of what the trader was worth then.
+// Grants and stipends received in between are not counted as gains.
+export function percentReturn(start: NetWorthPoint, end: NetWorthPoint): number {
+  if (start.netWorth <= 0) return 0;
+  const gain = end.netWorth - start.netWorth - (end.deposits - start.deposits);
+  return (gain / start.netWorth) * 100;
+}
+
+// The latest point at least `windowMs` old, or the oldest one we have when
+// the trader's history is shorter than the window
+function pointAtWindowStart(points: NetWorthPoint[], now: number, windowMs: number): NetWorthPoint {
+  let start = points[0];
+  for (const point of points) {
+    if (point.time > now - windowMs) break;
+    start = point;
+  }
+  return start;
+}
+
+// Value a batch of traders at current prices and write their scores into
+// every leaderboard. Run after the market has been revalued.
+export async function rankTraders(userIds: string[], context: Pick<Devvit.Context, 'redis'>): Promise<void> {
+  const now = Date.now();
+
+  for (const userId of userIds) {
+    try {
+      await rankTrader(userId, now, context);
+    } catch (error) {
+      // A trader left out keeps their last scores until the next tick
+      console.error(`Error ranking trader ${userId}:`, error);
+    }
+  }
+}
+
+async function rankTrader(userId: string, now: number, context: Pick<Devvit.Context, 'redis'>): Promise<void> {
+  const { redis } = context;
+
+  const wallet = await readWallet(userId, context);
+  if (!wallet) return;
+
+  const summary = await valuePortfolio(userId, context);
+  const point: NetWorthPoint = { time: now, netWorth: summary.netWorth, deposits: wallet.deposits || 0 };
+
+  const historyKey = netWorthKey(userId);
+  await redis.zAdd(historyKey, { member: JSON.stringify(point), score: now });
+  await redis.zRemRangeByScore(historyKey, 0, now - NET_WORTH_RETENTION_MS);
+  const history = await redis.zRange(historyKey, 0, -1, { by: 'rank' });
+  const points: NetWorthPoint[] = history.map(({ member }) => JSON.parse(member));
+
+  const dailyKey = dailyNetWorthKey(userId);
+  const day = Math.floor(now / DAY_MS) * DAY_MS;
+  await redis.zRemRangeByScore(dailyKey, day, day);
+  await redis.zAdd(dailyKey, { member: JSON.stringify(point), score: day });
+  await redis.zRemRangeByRank(dailyKey, 0, -(DAILY_NET_WORTH_RETENTION + 1));
+
+  // The first tick a trader is seen in a season sets their baseline
+  const baselineJson = await redis.hGet(SEASON_BASELINE_KEY, userId);
+  const baseline: NetWorthPoint = baselineJson ? JSON.parse(baselineJson) : point;
+  if (!baselineJson) {
+    await redis.hSet(SEASON_BASELINE_KEY, { [userId]: JSON.stringify(point) });
+  }
+
+  await redis.zAdd(LEADERBOARDS['net-worth'].key, { member: userId, score: summary.netWorth });
+  await redis.zAdd(LEADERBOARDS['return-day'].key, {
+    member: userId,
+    score: percentReturn(pointAtWindowStart(points, now, DAY_MS), point),
+  });
+  await redis.zAdd(LEADERBOARDS['return-week'].key, {
+    member: userId,
+    score: percentReturn(pointAtWindowStart(points, now, WEEK_MS), point),
+  });
+  await redis.zAdd(LEADERBOARDS['return-season'].key, { member: userId, score: percentReturn(baseline, point) });
+
+  // Creators are ranked on the combined market cap of every meme they launched
+  const launched = await getMemes(await readCreatorMemeIds(userId, context), context);
+  const marketCap = roundCoins(launched.reduce((total, meme) => total + getMemeSortScore(meme, 'marketCap'), 0));
+  if (marketCap > 0) {
+    await redis.zAdd(LEADERBOARDS.creators.key, { member: userId, score: marketCap });
+  } else {
+    await redis.zRem(LEADERBOARDS.creators.key, [userId]);
+  }
+}
+
+// The top `count` user IDs on a board with their scores
+export async function readLeaderboard(
+  board: LeaderboardId,
+  context: Pick<Devvit.Context, 'redis'>,
+  count: number
+): Promise<{ userId: string; score: number }[]> {
+  const { redis } = context;
+  const members = await redis.zRange(LEADERBOARDS[board].key, 0, count - 1, { by: 'rank', reverse: true });
+  return members.map(({ member, score }) => ({ userId: member, score }));
+}
+
+// A user's rank on a board, counting from 1, or null if they aren't on it
+export async function readLeaderboardRank(
+  board: LeaderboardId,
+  userId: string,
+  context: Pick<Devvit.Context, 'redis'>
+): Promise<{ rank: number; score: number } | null> {
+  const { redis } = context;
+  const { key } = LEADERBOARDS[board];
+
+  const [size, ascendingRank, score] = await Promise.all([
+    redis.zCard(key),
+    redis.zRank(key, userId),
+    redis.zScore(key, userId),
+  ]);
+  if (ascendingRank === undefined || score === undefined) {
+    return null;
+  }
+
+  // Sorted sets rank ascending, so count down from the top
+  return { rank: size - ascendingRank, score };
+}
+
+// Attach usernames to leaderboard rows, numbering them from `firstRank`
+export async function resolveLeaderboardEntries(
+  rows: { userId: string; score: number }[],
+  context: Pick<Devvit.Context, 'reddit'>,
+  firstRank = 1
+): Promise<LeaderboardEntry[]> {
+  const { reddit } = context;
+
+  return Promise.all(rows.map(async ({ userId, score }, index) => {
+    let username = '[deleted]';
+    try {
+      const user = await reddit.getUserById(userId);
+      if (user) username = user.username;
+    } catch (error) {
+      console.error(`Error looking up user ${userId}:`, error);
+    }
+
+    return { rank: firstRank + index, userId, username, score };
+  }));
+}
+
+// Top entries of a leaderboard plus the current user's own rank
+export async function getLeaderboard({ board, limit = 10 }: { board: LeaderboardId; limit?: number }, context: Devvit.Context): Promise<LeaderboardPage> {
+  try {
+    const currentUser = await requireCurrentUser(context);
+    const [top, myRank] = await Promise.all([
+      readLeaderboard(board, context, limit),
+      readLeaderboardRank(board, currentUser.id, context),
+    ]);
+
+    const entries = await resolveLeaderboardEntries(top, context);
+    const me = myRank
+      ? { ...myRank, userId: currentUser.id, username: currentUser.username }
+      : null;
+
+    return { board, entries, me };
+  } catch (error) {
+    console.error(`Error loading leaderboard ${board}:`, error);
+    throw error;
+  }
+}
+
+// Empty every board and the season baselines so a new season ranks from zero
+export async function resetLeaderboards(context: Pick<Devvit.Context, 'redis'>): Promise<void> {
+  const { redis } = context;
+
+  await redis.del(...Object.values(LEADERBOARDS).map(({ key }) => key), SEASON_BASELINE_KEY);
+}
+
+// Drop a trader's net worth history so rolling returns restart with the season
+export async function clearNetWorthHistory(userId: string, context: Pick<Devvit.Context, 'redis'>): Promise<void> {
+  const { redis } = context;
+  await redis.del(netWorthKey(userId), dailyNetWorthKey(userId));
+}
+
+// A trader's recorded net worth over a period, oldest first: every tick for the
+// last day or week, daily since the trader's season baseline
+export async function getNetWorthHistory(
+  userId: string,
+  period: NetWorthPeriod,
+  context: Pick<Devvit.Context, 'redis'>,
+  now = Date.now()
+): Promise<NetWorthPoint[]> {
+  const { redis } = context;
+
+  if (period === 'season') {
+    const baselineJson = await redis.hGet(SEASON_BASELINE_KEY, userId);
+    const from = baselineJson ? Math.floor((JSON.parse(baselineJson) as NetWorthPoint).time / DAY_MS) * DAY_MS : 0;
+    const members = await redis.zRange(dailyNetWorthKey(userId), from, now, { by: 'score' });
+    return members.map(({ member }) => JSON.parse(member));
+  }
+
+  const windowMs = period === 'day' ? DAY_MS : WEEK_MS;
+  const members = await redis.zRange(netWorthKey(userId), now - windowMs, now, { by: 'score' });
+  return members.map(({ member }) => JSON.parse(member));
+}
+
+// How many users are ranked on a board
+export async function countLeaderboard(board: LeaderboardId, context: Pick<Devvit.Context, 'redis'>): Promise<number> {
+  const { redis } = context;
+  return await redis.zCard(LEADERBOARDS[board].key);
+}
@@ -0,0 +1,860 @@
+import { Devvit, User } from '@devvit/public-api';
+import { assertModerator, requireCurrentUser } from './permissions';
+import { cancelMemeOrders, cancelUserOrders } from './orderBook';
+import { scheduleMarketTick } from './scheduler';
+import { appendAuditEntry, AuditAction, AuditEntry, countAuditEntries, readAuditLog } from '../storage/auditLog';
+import {
+  clearTradingBan,
+  clearTradingHalt,
+  getMarketParameters,
+  getTradingBan,
+  getTradingBans,
+  getTradingHalt,
+  MarketParameters,
+  readHaltedMemeIds,
+  saveMarketParameters,
+  saveTradingBan,
+  saveTradingHalt,
+  TICK_INTERVAL_OPTIONS,
+  TradingBan,
+} from '../storage/marketControls';
+import {
+  getMeme,
+  getMemes,
+  GrantProceeds,
+  grantProceedsKey,
+  indexHolding,
+  MemeData,
+  Portfolio,
+  positionLots,
+  readHolders,
+  readMemeIndex,
+  RealizedPnl,
+  realizedPnlKey,
+  unindexMeme,
+} from '../storage/memeRegistry';
+import {
+  adjustBalance,
+  applyLedgerEntry,
+  auditWallet,
+  ensureWallet,
+  LedgerEntry,
+  queueWalletWrite,
+  readWallet,
+  rebuildBalanceFromLedger,
+  roundCoins,
+  WalletAudit,
+  walletKey,
+} from '../storage/userPortfolios';
+
+// How many times a delisting or refund is retried when it races a trade
+const MAX_CONTROL_ATTEMPTS = 5;
+
+// How many memes the pickers offer, biggest first
+const PICKER_LIMIT = 50;
+
+// Audit log entries shown per page
+const AUDIT_PAGE_SIZE = 20;
+
+// The largest single balance adjustment, either way
+const MAX_ADJUSTMENT = 1000000;
+
+const MAX_REASON_LENGTH = 200;
+
+export interface DelistResult {
+  meme: MemeData;
+  refundedHolders: number;
+  refundedTotal: number;
+  cancelledOrders: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditEntry[];
+  total: number;
+}
+
+function cleanReason(reason: string): string {
+  const trimmed = reason.trim();
+  if (!trimmed) {
+    throw new Error('Give a reason; it goes in the audit log');
+  }
+  return trimmed.slice(0, MAX_REASON_LENGTH);
+}
+
+// Run a mod action and record who did it. The action returns the target and
+// details to log.
+async function auditedAction<T>(
+  action: AuditAction,
+  context: Devvit.Context,
+  run: (moderator: User) => Promise<{ result: T; target?: string; details: string }>
+): Promise<T> {
+  await assertModerator(context, 'use the market controls');
+  const moderator = await requireCurrentUser(context);
+
+  const { result, target, details } = await run(moderator);
+  await appendAuditEntry({ action, actorId: moderator.id, actorName: moderator.username, target, details }, context);
+  return result;
+}
+
+async function requireUserByName(username: string, context: Devvit.Context): Promise<User> {
+  const { reddit } = context;
+
+  const name = username.trim().replace(/^u\//i, '');
+  const user = name ? await reddit.getUserByUsername(name) : undefined;
+  if (!user) {
+    throw new Error(`User not found: u/${name}`);
+  }
+  return user;
+}
+
+function formatParameters(params: MarketParameters): string {
+  return [
+    `starting balance ₽${params.startingBalance}`,
+    `IPO price ₽${params.minIpoPrice}–₽${params.maxIpoPrice}`,
+    `IPO fee ${params.ipoFeeMultiplier}× price`,
+    `tick every ${params.tickIntervalMinutes} minutes`,
+  ].join(', ');
+}
+
+// The terms a new IPO must meet, for the meme creator
+export async function getIpoTerms(
+  _args: Record<string, never>,
+  context: Devvit.Context
+): Promise<Pick<MarketParameters, 'minIpoPrice' | 'maxIpoPrice' | 'ipoFeeMultiplier'>> {
+  try {
+    const { minIpoPrice, maxIpoPrice, ipoFeeMultiplier } = await getMarketParameters(context);
+    return { minIpoPrice, maxIpoPrice, ipoFeeMultiplier };
+  } catch (error) {
+    console.error('Error loading IPO terms:', error);
+    throw error;
+  }
+}
+
+// Halt or resume trading in one meme, or in the whole market when `memeId`
+// is null. Resting orders stay on the book while halted.
+export async function setTradingHalt(
+  { memeId, halted, reason }: { memeId: string | null; halted: boolean; reason: string },
+  context: Devvit.Context
+): Promise<void> {
+  try {
+    const meme = memeId ? await getMeme(memeId, context) : null;
+    if (memeId && !meme) {
+      throw new Error(`Meme not found: ${memeId}`);
+    }
+    const target = meme ? meme.title : 'the whole market';
+
+    await auditedAction(
+      memeId ? (halted ? 'halt-meme' : 'resume-meme') : (halted ? 'halt-market' : 'resume-market'),
+      context,
+      async moderator => {
+        const cleaned = cleanReason(reason);
+        if (halted) {
+          await saveTradingHalt(memeId, { haltedAt: new Date().toISOString(), haltedBy: moderator.username, reason: cleaned }, context);
+        } else if (!(await clearTradingHalt(memeId, context))) {
+          throw new Error(`Trading in ${target} isn't halted`);
+        }
+        return { result: undefined, target, details: cleaned };
+      }
+    );
+  } catch (error) {
+    console.error(`Error ${halted ? 'halting' : 'resuming'} trading in ${memeId ?? 'the market'}:`, error);
+    throw error;
+  }
+}
+
+// Pay a holder back for their shares of a delisted meme at its last price
+// and close the position. Returns the refund, or 0 if they held none.
+async function refundHolder(meme: MemeData, userId: string, context: Pick<Devvit.Context, 'redis'>): Promise<number> {
+  const { redis } = context;
+  const portfolioKey = `portfolio:${userId}`;
+  const realizedKey = realizedPnlKey(userId);
+  const grantedKey = grantProceedsKey(userId);
+
+  await ensureWallet(userId, context);
+
+  for (let attempt = 0; attempt < MAX_CONTROL_ATTEMPTS; attempt++) {
+    const txn = await redis.watch(portfolioKey, realizedKey, grantedKey, walletKey(userId));
+    const portfolio: Portfolio = JSON.parse(await redis.get(portfolioKey) || '{}');
+    const position = portfolio[meme.id];
+    if (!position || position.shares <= 0) {
+      await txn.unwatch();
+      await indexHolding(meme.id, userId, 0, context);
+      return 0;
+    }
+
+    const realized: RealizedPnl = JSON.parse(await redis.get(realizedKey) || '{}');
+    const grantProceeds: GrantProceeds = JSON.parse(await redis.get(grantedKey) || '{}');
+    const wallet = (await readWallet(userId, context))!;
+
+    // The refund realizes the bought shares like a sale would; the granted
+    // shares' part is kept out of P&L
+    const refund = roundCoins(position.shares * meme.currentSharePrice);
+    const { granted, bought } = positionLots(position);
+    const grantedRefund = roundCoins(granted * meme.currentSharePrice);
+    if (bought > 0) {
+      realized[meme.id] = roundCoins((realized[meme.id] || 0) + refund - grantedRefund - position.averageBuyPrice * bought);
+    }
+    if (granted > 0) {
+      grantProceeds[meme.id] = roundCoins((grantProceeds[meme.id] || 0) + grantedRefund);
+    }
+    delete portfolio[meme.id];
+    const entry: LedgerEntry = applyLedgerEntry(wallet, refund, 'refund', meme.id);
+
+    await txn.multi();
+    await txn.set(portfolioKey, JSON.stringify(portfolio));
+    await txn.set(realizedKey, JSON.stringify(realized));
+    await txn.set(grantedKey, JSON.stringify(grantProceeds));
+    await indexHolding(meme.id, userId, 0, context, txn);
+    await queueWalletWrite(txn, wallet, entry);
+    const results = await txn.exec();
+
+    if (results && results.length > 0) {
+      return refund;
+    }
+  }
+
+  throw new Error(`Could not refund user ${userId} for ${meme.title}, please try again`);
+}
+
+// Take a meme off the market for good. Its resting orders are cancelled and
+// every holder is refunded at the last traded price.
+export async function delistMeme(
+  { memeId, reason }: { memeId: string; reason: string },
+  context: Devvit.Context
+): Promise<DelistResult> {
+  const { redis } = context;
+
+  try {
+    return await auditedAction('delist-meme', context, async () => {
+      const cleaned = cleanReason(reason);
+      const memeKey = `memes:${memeId}`;
+
+      // Stamp the delisting first so no trade can slip in during the refunds
+      let meme: MemeData | null = null;
+      for (let attempt = 0; attempt < MAX_CONTROL_ATTEMPTS && !meme; attempt++) {
+        const txn = await redis.watch(memeKey);
+        const memeJson = await redis.get(memeKey);
+        if (!memeJson) {
+          await txn.unwatch();
+          throw new Error(`Meme not found: ${memeId}`);
+        }
+
+        const current: MemeData = JSON.parse(memeJson);
+        if (current.delistedAt) {
+          await txn.unwatch();
+          throw new Error(`${current.title} is already delisted`);
+        }
+        current.delistedAt = new Date().toISOString();
+
+        await txn.multi();
+        await txn.set(memeKey, JSON.stringify(current));
+        const results = await txn.exec();
+        if (results && results.length > 0) {
+          meme = current;
+        }
+      }
+      if (!meme) {
+        throw new Error(`Could not delist meme ${memeId}, please try again`);
+      }
+
+      await unindexMeme(meme, context);
+      await clearTradingHalt(meme.id, context);
+      const cancelledOrders = await cancelMemeOrders(meme.id, context);
+
+      let refundedHolders = 0;
+      let refundedTotal = 0;
+      for (const holder of await readHolders(meme.id, context)) {
+        const refund = await refundHolder(meme, holder.userId, context);
+        if (refund > 0) {
+          refundedHolders++;
+          refundedTotal = roundCoins(refundedTotal + refund);
+        }
+      }
+
+      return {
+        result: { meme, refundedHolders, refundedTotal, cancelledOrders },
+        target: meme.title,
+        details: `${cleaned} (refunded ₽${refundedTotal.toFixed(2)} to ${refundedHolders} holders at ₽${meme.currentSharePrice.toFixed(2)}, cancelled ${cancelledOrders} orders)`,
+      };
+    });
+  } catch (error) {
+    console.error(`Error delisting meme ${memeId}:`, error);
+    throw error;
+  }
+}
+
+// Credit (positive) or debit (negative) a trader's wallet by hand
+export async function adjustUserBalance(
+  { username, amount, reason }: { username: string; amount: number; reason: string },
+  context: Devvit.Context
+): Promise<LedgerEntry> {
+  try {
+    return await auditedAction('adjust-balance', context, async () => {
+      const cleaned = cleanReason(reason);
+      const rounded = roundCoins(amount);
+      if (!rounded || Math.abs(rounded) > MAX_ADJUSTMENT) {
+        throw new Error(`Adjustments must be non-zero and at most ₽${MAX_ADJUSTMENT} either way`);
+      }
+
+      const user = await requireUserByName(username, context);
+      const entry = await adjustBalance(user.id, rounded, 'adjustment', context, cleaned);
+
+      return {
+        result: entry,
+        target: `u/${user.username}`,
+        details: `${rounded > 0 ? '+' : ''}₽${rounded.toFixed(2)}, balance now ₽${entry.balanceAfter.toFixed(2)}: ${cleaned}`,
+      };
+    });
+  } catch (error) {
+    console.error(`Error adjusting balance of u/${username}:`, error);
+    throw error;
+  }
+}
+
+// Check a trader's stored balance against the sum of their ledger. With
+// `repair` set, a balance that has drifted is rebuilt from the ledger.
+export async function auditTraderWallet(
+  { username, repair }: { username: string; repair: boolean },
+  context: Devvit.Context
+): Promise<WalletAudit> {
+  try {
+    if (!repair) {
+      const user = await requireUserByName(username, context);
+      return await auditWallet({ userId: user.id }, context);
+    }
+
+    return await auditedAction('repair-wallet', context, async () => {
+      const user = await requireUserByName(username, context);
+      const audit = await rebuildBalanceFromLedger(user.id, context, true);
+      if (!audit.repaired) {
+        throw new Error(`u/${user.username}'s balance already matches their ledger`);
+      }
+
+      return {
+        result: audit,
+        target: `u/${user.username}`,
+        details: `Balance ₽${audit.storedBalance.toFixed(2)} rebuilt to ₽${audit.ledgerBalance.toFixed(2)} from ${audit.entryCount} ledger entries`,
+      };
+    });
+  } catch (error) {
+    console.error(`Error auditing the wallet of u/${username}:`, error);
+    throw error;
+  }
+}
+
+// Ban a trader from the market, cancelling their resting orders, or lift a
+// ban. Banned traders keep their holdings.
+export async function setTradingBan(
+  { username, banned, reason }: { username: string; banned: boolean; reason: string },
+  context: Devvit.Context
+): Promise<void> {
+  try {
+    await auditedAction(banned ? 'ban-trader' : 'unban-trader', context, async moderator => {
+      const cleaned = cleanReason(reason);
+      const user = await requireUserByName(username, context);
+
+      if (!banned) {
+        if (!(await clearTradingBan(user.id, context))) {
+          throw new Error(`u/${user.username} isn't banned`);
+        }
+        return { result: undefined, target: `u/${user.username}`, details: cleaned };
+      }
+
+      if (await getTradingBan(user.id, context)) {
+        throw new Error(`u/${user.username} is already banned`);
+      }
+      const ban: TradingBan = {
+        userId: user.id,
+        username: user.username,
+        bannedAt: new Date().toISOString(),
+        bannedBy: moderator.username,
+        reason: cleaned,
+      };
+      await saveTradingBan(ban, context);
+      const cancelled = await cancelUserOrders(user.id, context);
+
+      return {
+        result: undefined,
+        target: `u/${user.username}`,
+        details: cancelled > 0 ? `${cleaned} (cancelled ${cancelled} orders)` : cleaned,
+      };
+    });
+  } catch (error) {
+    console.error(`Error ${banned ? 'banning' : 'unbanning'} u/${username}:`, error);
+    throw error;
+  }
+}
+
+// Change the market's economic parameters. A new tick interval reschedules
+// the market tick straight away; a new starting balance applies to wallets
+// opened or reset from now on.
+export async function updateMarketParameters(
+  params: MarketParameters,
+  context: Devvit.Context
+): Promise<MarketParameters> {
+  try {
+    return await auditedAction('set-parameters', context, async () => {
+      if (!(params.startingBalance > 0)) {
+        throw new Error('The starting balance must be above zero');
+      }
+      if (!(params.minIpoPrice > 0 && params.maxIpoPrice >= params.minIpoPrice)) {
+        throw new Error('IPO prices need a minimum above zero and a maximum no lower than it');
+      }
+      if (!(params.ipoFeeMultiplier >= 0)) {
+        throw new Error('The IPO fee can\'t be negative');
+      }
+      if (!TICK_INTERVAL_OPTIONS.includes(params.tickIntervalMinutes)) {
+        throw new Error(`The tick interval must be one of ${TICK_INTERVAL_OPTIONS.join(', ')} minutes`);
+      }
+
+      const previous = await getMarketParameters(context);
+      const updated: MarketParameters = {
+        startingBalance: roundCoins(params.startingBalance),
+        minIpoPrice: roundCoins(params.minIpoPrice),
+        maxIpoPrice: roundCoins(params.maxIpoPrice),
+        ipoFeeMultiplier: params.ipoFeeMultiplier,
+        tickIntervalMinutes: params.tickIntervalMinutes,
+      };
+      await saveMarketParameters(updated, context);
+
+      if (updated.tickIntervalMinutes !== previous.tickIntervalMinutes) {
+        await scheduleMarketTick(context);
+      }
+
+      return { result: updated, details: `Was ${formatParameters(previous)}; now ${formatParameters(updated)}` };
+    });
+  } catch (error) {
+    console.error('Error updating market parameters:', error);
+    throw error;
+  }
+}
+
+// A page of mod actions, newest first
+export async function getAuditLog(
+  { offset = 0, count = AUDIT_PAGE_SIZE }: { offset?: number; count?: number },
+  context: Devvit.Context
+): Promise<AuditLogPage> {
+  try {
+    await assertModerator(context, 'view the audit log');
+    const [entries, total] = await Promise.all([readAuditLog(context, offset, count), countAuditEntries(context)]);
+    return { entries, total };
+  } catch (error) {
+    console.error('Error loading audit log:', error);
+    throw error;
+  }
+}
+
+function formatAuditEntry(entry: AuditEntry): string {
+  const target = entry.target ? ` ${entry.target}` : '';
+  return `${entry.timestamp.slice(0, 16).replace('T', ' ')} u/${entry.actorName} ${entry.action}${target}: ${entry.details}`;
+}
+
+function showError(context: Devvit.Context, error: unknown, fallback: string): void {
+  console.error(`${fallback}:`, error);
+  context.ui.showToast(error instanceof Error ? error.message : fallback);
+}
+
+// Listed memes for the pickers, biggest first
+async function memeOptions(context: Devvit.Context): Promise<{ label: string; value: string }[]> {
+  const memes = await getMemes(await readMemeIndex('marketCap', context, { count: PICKER_LIMIT }), context);
+  return memes.map(meme => ({ label: `${meme.title} · ₽${meme.currentSharePrice.toFixed(2)}`, value: meme.id }));
+}
+
+const haltForm = Devvit.createForm(
+  (data) => ({
+    title: 'Halt trading',
+    description: 'Resting orders stay on the book and wait for trading to resume.',
+    fields: [
+      {
+        type: 'select',
+        name: 'memeId',
+        label: 'Meme',
+        options: data.memes,
+        helpText: 'Leave empty to halt the whole market',
+      },
+      { type: 'paragraph', name: 'reason', label: 'Reason', required: true },
+    ],
+    acceptLabel: 'Halt trading',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    try {
+      await setTradingHalt({ memeId: values.memeId?.[0] || null, halted: true, reason: values.reason ?? '' }, context);
+      ui.showToast('Trading halted');
+    } catch (error) {
+      showError(context, error, 'Could not halt trading');
+    }
+  }
+);
+
+const resumeForm = Devvit.createForm(
+  (data) => ({
+    title: 'Resume trading',
+    fields: [
+      { type: 'select', name: 'target', label: 'Halted', options: data.halts, required: true },
+      { type: 'paragraph', name: 'reason', label: 'Reason', required: true },
+    ],
+    acceptLabel: 'Resume trading',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    const target = values.target[0];
+    try {
+      await setTradingHalt({ memeId: target === 'global' ? null : target, halted: false, reason: values.reason ?? '' }, context);
+      ui.showToast('Trading resumed');
+    } catch (error) {
+      showError(context, error, 'Could not resume trading');
+    }
+  }
+);
+
+const delistForm = Devvit.createForm(
+  (data) => ({
+    title: 'Delist a meme',
+    description: 'Every holder is refunded at the last price and all resting orders are cancelled. This can\'t be undone.',
+    fields: [
+      { type: 'select', name: 'memeId', label: 'Meme', options: data.memes, required: true },
+      { type: 'paragraph', name: 'reason', label: 'Reason', required: true },
+      { type: 'boolean', name: 'confirm', label: 'I understand this is permanent' },
+    ],
+    acceptLabel: 'Delist',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    if (!values.confirm) {
+      ui.showToast('Tick the box to confirm the delisting');
+      return;
+    }
+
+    try {
+      const result = await delistMeme({ memeId: values.memeId[0], reason: values.reason ?? '' }, context);
+      ui.showToast(`${result.meme.title} delisted; ₽${result.refundedTotal.toFixed(2)} refunded to ${result.refundedHolders} holders`);
+    } catch (error) {
+      showError(context, error, 'Could not delist this meme');
+    }
+  }
+);
+
+const adjustBalanceForm = Devvit.createForm(
+  {
+    title: 'Adjust a balance',
+    fields: [
+      { type: 'string', name: 'username', label: 'Username', placeholder: 'u/someone', required: true },
+      { type: 'number', name: 'amount', label: 'Amount (₽)', helpText: 'Negative to debit', required: true },
+      { type: 'paragraph', name: 'reason', label: 'Reason', helpText: 'Also shown on the trader\'s ledger', required: true },
+    ],
+    acceptLabel: 'Adjust',
+  },
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    try {
+      const entry = await adjustUserBalance({
+        username: values.username ?? '',
+        amount: values.amount ?? 0,
+        reason: values.reason ?? '',
+      }, context);
+      ui.showToast(`Balance is now ₽${entry.balanceAfter.toFixed(2)}`);
+    } catch (error) {
+      showError(context, error, 'Could not adjust this balance');
+    }
+  }
+);
+
+const walletAuditForm = Devvit.createForm(
+  {
+    title: 'Audit a wallet',
+    description: 'Compares a trader\'s balance with the sum of their ledger.',
+    fields: [
+      { type: 'string', name: 'username', label: 'Username', placeholder: 'u/someone', required: true },
+    ],
+    acceptLabel: 'Audit',
+  },
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    const username = values.username ?? '';
+    try {
+      const audit = await auditTraderWallet({ username, repair: false }, context);
+      ui.showForm(walletAuditResultForm, {
+        username,
+        summary: [
+          `Stored balance: ₽${audit.storedBalance.toFixed(2)}`,
+          `Ledger balance: ₽${audit.ledgerBalance.toFixed(2)} from ${audit.entryCount} entries`,
+          audit.drift === 0 ? 'The balance matches the ledger.' : `Drift: ${audit.drift > 0 ? '+' : ''}₽${audit.drift.toFixed(2)}`,
+        ].join('\n'),
+        drifted: audit.drift !== 0,
+      });
+    } catch (error) {
+      showError(context, error, 'Could not audit this wallet');
+    }
+  }
+);
+
+const walletAuditResultForm = Devvit.createForm(
+  (data) => ({
+    title: `Wallet of ${data.username}`,
+    fields: [
+      { type: 'paragraph', name: 'summary', label: 'Audit', defaultValue: data.summary, disabled: true },
+      { type: 'string', name: 'username', label: 'Username', defaultValue: data.username, disabled: true },
+      {
+        type: 'boolean',
+        name: 'repair',
+        label: 'Rebuild the balance from the ledger',
+        helpText: 'Logged in the audit log',
+        disabled: !data.drifted,
+      },
+    ],
+    acceptLabel: 'Done',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    if (!values.repair) return;
+    try {
+      const audit = await auditTraderWallet({ username: values.username ?? '', repair: true }, context);
+      ui.showToast(`Balance rebuilt to ₽${audit.ledgerBalance.toFixed(2)}`);
+    } catch (error) {
+      showError(context, error, 'Could not repair this wallet');
+    }
+  }
+);
+
+const banForm = Devvit.createForm(
+  {
+    title: 'Ban a trader',
+    description: 'Banned traders can\'t trade, place orders or launch memes. Their open orders are cancelled; holdings are kept.',
+    fields: [
+      { type: 'string', name: 'username', label: 'Username', placeholder: 'u/someone', required: true },
+      { type: 'paragraph', name: 'reason', label: 'Reason', required: true },
+    ],
+    acceptLabel: 'Ban',
+  },
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    try {
+      await setTradingBan({ username: values.username ?? '', banned: true, reason: values.reason ?? '' }, context);
+      ui.showToast('Trader banned');
+    } catch (error) {
+      showError(context, error, 'Could not ban this trader');
+    }
+  }
+);
+
+const unbanForm = Devvit.createForm(
+  (data) => ({
+    title: 'Lift a trading ban',
+    fields: [
+      { type: 'select', name: 'username', label: 'Banned trader', options: data.bans, required: true },
+      { type: 'paragraph', name: 'reason', label: 'Reason', required: true },
+    ],
+    acceptLabel: 'Lift ban',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    try {
+      await setTradingBan({ username: values.username[0], banned: false, reason: values.reason ?? '' }, context);
+      ui.showToast('Ban lifted');
+    } catch (error) {
+      showError(context, error, 'Could not lift this ban');
+    }
+  }
+);
+
+const parametersForm = Devvit.createForm(
+  (data) => ({
+    title: 'Market parameters',
+    fields: [
+      {
+        type: 'number',
+        name: 'startingBalance',
+        label: 'Starting balance (₽)',
+        helpText: 'For new wallets and season resets',
+        defaultValue: data.startingBalance,
+        required: true,
+      },
+      { type: 'number', name: 'minIpoPrice', label: 'Lowest IPO price (₽)', defaultValue: data.minIpoPrice, required: true },
+      { type: 'number', name: 'maxIpoPrice', label: 'Highest IPO price (₽)', defaultValue: data.maxIpoPrice, required: true },
+      {
+        type: 'number',
+        name: 'ipoFeeMultiplier',
+        label: 'IPO fee',
+        helpText: 'Times the initial share price',
+        defaultValue: data.ipoFeeMultiplier,
+        required: true,
+      },
+      {
+        type: 'select',
+        name: 'tickIntervalMinutes',
+        label: 'Market tick',
+        options: TICK_INTERVAL_OPTIONS.map(minutes => ({
+          label: minutes < 60 ? `Every ${minutes} minutes` : minutes === 60 ? 'Every hour' : `Every ${minutes / 60} hours`,
+          value: String(minutes),
+        })),
+        defaultValue: [String(data.tickIntervalMinutes)],
+        required: true,
+      },
+    ],
+    acceptLabel: 'Save',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    try {
+      await updateMarketParameters({
+        startingBalance: values.startingBalance ?? 0,
+        minIpoPrice: values.minIpoPrice ?? 0,
+        maxIpoPrice: values.maxIpoPrice ?? 0,
+        ipoFeeMultiplier: values.ipoFeeMultiplier ?? 0,
+        tickIntervalMinutes: Number(values.tickIntervalMinutes[0]),
+      }, context);
+      ui.showToast('Market parameters saved');
+    } catch (error) {
+      showError(context, error, 'Could not save the market parameters');
+    }
+  }
+);
+
+const auditLogForm = Devvit.createForm(
+  (data) => ({
+    title: 'Market audit log',
+    description: `Entries ${data.from}–${data.to} of ${data.total}, newest first.`,
+    fields: [
+      { type: 'paragraph', name: 'log', label: 'Actions', defaultValue: data.log, disabled: true },
+      { type: 'number', name: 'offset', label: 'Next page starts at', defaultValue: data.to, disabled: true },
+      { type: 'boolean', name: 'older', label: 'Show older entries', disabled: !data.hasMore },
+    ],
+    acceptLabel: 'Done',
+  }),
+  async ({ values }, context) => {
+    if (values.older) {
+      await showAuditLog(values.offset ?? 0, context);
+    }
+  }
+);
+
+async function showAuditLog(offset: number, context: Devvit.Context): Promise<void> {
+  const { ui } = context;
+
+  try {
+    const { entries, total } = await getAuditLog({ offset }, context);
+    if (entries.length === 0) {
+      ui.showToast(offset === 0 ? 'No mod actions have been logged yet' : 'No older entries');
+      return;
+    }
+
+    ui.showForm(auditLogForm, {
+      log: entries.map(formatAuditEntry).join('\n'),
+      from: offset + 1,
+      to: offset + entries.length,
+      total,
+      hasMore: offset + entries.length < total,
+    });
+  } catch (error) {
+    showError(context, error, 'Could not load the audit log');
+  }
+}
+
+type ControlAction = 'halt' | 'resume' | 'delist' | 'adjust' | 'wallet' | 'ban' | 'unban' | 'parameters' | 'audit';
+
+const CONTROL_ACTIONS: { label: string; value: ControlAction }[] = [
+  { label: 'Halt trading', value: 'halt' },
+  { label: 'Resume trading', value: 'resume' },
+  { label: 'Delist a meme', value: 'delist' },
+  { label: 'Adjust a balance', value: 'adjust' },
+  { label: 'Audit a wallet', value: 'wallet' },
+  { label: 'Ban a trader', value: 'ban' },
+  { label: 'Lift a trading ban', value: 'unban' },
+  { label: 'Market parameters', value: 'parameters' },
+  { label: 'Audit log', value: 'audit' },
+];
+
+const controlPanelForm = Devvit.createForm(
+  (data) => ({
+    title: 'Market control panel',
+    description: data.status,
+    fields: [
+      { type: 'select', name: 'action', label: 'Action', options: CONTROL_ACTIONS, defaultValue: ['halt'], required: true },
+    ],
+    acceptLabel: 'Next',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    try {
+      switch (values.action[0] as ControlAction) {
+        case 'halt':
+          ui.showForm(haltForm, { memes: await memeOptions(context) });
+          return;
+        case 'resume': {
+          const halts = (await getTradingHalt(null, context)) ? [{ label: 'The whole market', value: 'global' }] : [];
+          const memes = await getMemes(await readHaltedMemeIds(context), context);
+          halts.push(...memes.map(meme => ({ label: meme.title, value: meme.id })));
+          if (halts.length === 0) {
+            ui.showToast('Nothing is halted');
+            return;
+          }
+          ui.showForm(resumeForm, { halts });
+          return;
+        }
+        case 'delist':
+          ui.showForm(delistForm, { memes: await memeOptions(context) });
+          return;
+        case 'adjust':
+          ui.showForm(adjustBalanceForm);
+          return;
+        case 'wallet':
+          ui.showForm(walletAuditForm);
+          return;
+        case 'ban':
+          ui.showForm(banForm);
+          return;
+        case 'unban': {
+          const bans = await getTradingBans(context);
+          if (bans.length === 0) {
+            ui.showToast('Nobody is banned from trading');
+            return;
+          }
+          ui.showForm(unbanForm, {
+            bans: bans.map(ban => ({ label: `u/${ban.username}: ${ban.reason}`, value: ban.username })),
+          });
+          return;
+        }
+        case 'parameters':
+          ui.showForm(parametersForm, { ...(await getMarketParameters(context)) });
+          return;
+        case 'audit':
+          await showAuditLog(0, context);
+          return;
+      }
+    } catch (error) {
+      showError(context, error, 'Could not open the market controls');
+    }
+  }
+);
+
+Devvit.addMenuItem({
+  label: 'Market control panel',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (_event, context) => {
+    const { ui } = context;
+
+    const [globalHalt, haltedMemeIds, bans] = await Promise.all([
+      getTradingHalt(null, context),
+      readHaltedMemeIds(context),
+      getTradingBans(context),
+    ]);
+    const status = [
+      globalHalt ? `Market halted by u/${globalHalt.haltedBy}: ${globalHalt.reason}.` : 'Market trading normally.',
+      `${haltedMemeIds.length} memes halted, ${bans.length} traders banned.`,
+    ].join(' ');
+
+    ui.showForm(controlPanelForm, { status });
+  },
+});
@@ -0,0 +1,69 @@
+import { Devvit } from '@devvit/public-api';
+import { LeaderboardEntry, resolveLeaderboardEntries } from './leaderboards';
+import { readRecentTrades, TradeRecord } from './tradingEngine';
+import { Candle, CandleResolution, getCandles, mergeCandles } from '../storage/marketHistory';
+import { countHolders, getMeme, MemeData, readTopHolders } from '../storage/memeRegistry';
+
+// Candles drawn on the chart at each resolution
+const CHART_CANDLES: Record<CandleResolution, number> = {
+  hour: 24,
+  day: 30,
+  week: 26,
+};
+
+// Rows on the trade tape and the holders list
+const RECENT_TRADES = 8;
+const TOP_HOLDERS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MemeDetail {
+  meme: MemeData;
+  marketCap: number;
+  // The last 24 hours folded into one candle: its high, low and volume.
+  // Null when nothing printed in that time.
+  day: Candle | null;
+  chart: Candle[];
+  trades: TradeRecord[];
+  // Ranked by shares held; `score` is the share count
+  holders: LeaderboardEntry[];
+  holderCount: number;
+}
+
+// Everything the meme detail view shows, in one call
+export async function getMemeDetail(
+  { memeId, resolution = 'hour' }: { memeId: string; resolution?: CandleResolution },
+  context: Devvit.Context
+): Promise<MemeDetail> {
+  try {
+    const meme = await getMeme(memeId, context);
+    if (!meme) {
+      throw new Error(`Meme not found: ${memeId}`);
+    }
+
+    const now = Date.now();
+    const [dayCandles, chart, trades, topHolders, holderCount] = await Promise.all([
+      getCandles(memeId, 'hour', context, { from: now - DAY_MS, to: now }),
+      getCandles(memeId, resolution, context, { limit: CHART_CANDLES[resolution] }),
+      readRecentTrades(memeId, RECENT_TRADES, context),
+      readTopHolders(memeId, TOP_HOLDERS, context),
+      countHolders(memeId, context),
+    ]);
+
+    return {
+      meme,
+      marketCap: meme.totalShares * meme.currentSharePrice,
+      day: mergeCandles(dayCandles, now - DAY_MS),
+      chart,
+      trades,
+      holders: await resolveLeaderboardEntries(
+        topHolders.map(({ userId, shares }) => ({ userId, score: shares })),
+        context
+      ),
+      holderCount,
+    };
+  } catch (error) {
+    console.error(`Error loading details for meme ${memeId}:`, error);
+    throw error;
+  }
+}
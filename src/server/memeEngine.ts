@@ -1,220 +1,442 @@
-import { Devvit } from '@devvit/public-api';
-import { MemeData, MemeValuation } from '../storage/memeRegistry';
+import { Devvit, JobContext } from '@devvit/public-api';
+import {
+  CREATOR_SHARES,
+  getMemes,
+  getMemeSortScore,
+  indexHolding,
+  indexMeme,
+  IndexCursor,
+  isAtOrBeforeCursor,
+  linkMemePost,
+  MemeData,
+  MemeSortKey,
+  MemeValuation,
+  Portfolio,
+  readCreatorMemeIds,
+  readMemeIndexAfter,
+} from '../storage/memeRegistry';
+import { MEME_CATEGORY_IDS } from '../storage/categoryRegistry';
+import { getMarketParameters, getTradingBan } from '../storage/marketControls';
 import { updateMarketHistory } from '../storage/marketHistory';
+import { getListing, MemeListing, saveNewListing, transitionListing } from '../storage/memeisting';
+import { isMarketOpen } from '../storage/seasonRegistry';
+import { recordTemplateUse } from '../storage/templateRegistry';
+import { adjustBalance, roundCoins } from '../storage/userPortfolios';
+import { submitMemePost } from '../posts/memePost';
+import { assertModerator, requireCurrentUser } from './permissions';
+import { recordEngagementSample } from './backtest';
+import { payDividends } from './dividends';
+import { countPostKarma, flagIncident } from './safeguards';
+import { getContentSettings, getSafeguardSettings } from './settings';
+import { notifyPriceChange } from './notifications';
+import { matchOrders } from './orderBook';
+import { applyPriceChange, loadPricingConfig } from './pricingModels';
+import { resolveTemplate } from './templateLibrary';
+import { id, invalidField, number, oneOf, optional, Schema, someOf, text, validate } from './validation';
 
-// Create a new meme and initialize its market data
-export const createMeme = Devvit.createServerFunction('createMeme', 
-  async ({
-    templateId,
-    templateUrl,
-    title,
-    topText,
-    bottomText,
-    categories,
-    initialSharePrice,
-  }: {
-    templateId: string;
-    templateUrl: string;
-    title: string;
-    topText?: string;
-    bottomText?: string;
-    categories: string[];
-    initialSharePrice: number;
-  }, context): Promise<MemeData> => {
-    const { reddit, redis, scheduler } = context;
+// How many times a valuation write is retried when it races a trade
+const MAX_VALUATION_ATTEMPTS = 5;
+
+// How many times publishing is retried when it races a write to the
+// creator's portfolio
+const MAX_PUBLISH_ATTEMPTS = 5;
+
+// Marketplace sort options and the index each one reads from
+export type MarketplaceSort = 'trending' | 'new' | 'price-high' | 'price-low' | 'volume' | 'market-cap';
+
+const MARKETPLACE_SORTS: Record<MarketplaceSort, { index: MemeSortKey; ascending: boolean }> = {
+  'trending': { index: 'change', ascending: false },
+  'new': { index: 'created', ascending: false },
+  'price-high': { index: 'price', ascending: false },
+  'price-low': { index: 'price', ascending: true },
+  'volume': { index: 'volume', ascending: false },
+  'market-cap': { index: 'marketCap', ascending: false },
+};
+
+// Filtered listings read the index in batches of this size, and give up on a
+// page after this many batches so a sparse filter can't scan the whole market
+const LIST_SCAN_BATCH = 50;
+const LIST_MAX_SCAN_BATCHES = 10;
+const MAX_LIST_LIMIT = 50;
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_CAPTION_LENGTH = 120;
+const MAX_CATEGORIES = 3;
+
+// What a creator writes on a meme, checked on submission and resubmission
+export interface MemeText {
+  title: string;
+  topText: string;
+  bottomText: string;
+}
+
+export interface MemeSubmission extends MemeText {
+  templateId: string;
+  categories: string[];
+  initialSharePrice: number;
+}
+
+function memeTextSchema(blockedWords: string[]): Schema<MemeText> {
+  return {
+    title: text({ label: 'Title', maxLength: MAX_TITLE_LENGTH, required: true, blockedWords }),
+    topText: text({ label: 'Top text', maxLength: MAX_CAPTION_LENGTH, blockedWords }),
+    bottomText: text({ label: 'Bottom text', maxLength: MAX_CAPTION_LENGTH, blockedWords }),
+  };
+}
+
+export interface MemePage {
+  memes: MemeData[];
+  // Pass back to fetch the next page; null when the listing is exhausted
+  nextCursor: string | null;
+}
+
+// Submit a new meme for review. The IPO fee is charged now and the meme waits
+// in the listing queue until a mod approves it.
+export async function createMeme(
+  submission: Omit<MemeSubmission, 'topText' | 'bottomText'> & { topText?: string; bottomText?: string },
+  context: Devvit.Context
+): Promise<MemeListing> {
+  try {
+    // Listings would be wiped or frozen by the season rollover
+    if (!(await isMarketOpen(context))) {
+      throw new Error('New memes can\'t be listed between seasons');
+    }
     
-    try {
-      // Get current user
-      const currentUser = await reddit.getCurrentUser();
-      
-      // Generate a unique ID for the meme
-      const memeId = `meme_${Date.now()}_${Math.floor(Math.random() * 1000)}`;
-      
-      // Create the meme object
-      const newMeme: MemeData = {
-        id: memeId,
-        creatorId: currentUser.id,
-        creatorName: currentUser.username,
-        createdAt: new Date().toISOString(),
-        templateId,
-        templateUrl,
-        title,
-        topText: topText || '',
-        bottomText: bottomText || '',
-        categories,
-        initialSharePrice,
-        currentSharePrice: initialSharePrice,
-        totalShares: 1000, // Initial share offering
-        availableShares: 1000,
-        tradeVolume: 0,
-        priceHistory: [
-          {
-            timestamp: new Date().toISOString(),
-            price: initialSharePrice
-          }
-        ],
-        engagementScore: 10, // Initial engagement score
-        lastUpdated: new Date().toISOString()
-      };
-      
-      // Store the meme data in Redis
-      await redis.set(`memes:${memeId}`, JSON.stringify(newMeme));
-      
-      // Add to the meme index
-      const memeIndex = await redis.get('meme_index') || '[]';
-      const memeIds = JSON.parse(memeIndex);
-      memeIds.push(memeId);
-      await redis.set('meme_index', JSON.stringify(memeIds));
-      
-      // Add to category indexes
-      for (const category of categories) {
-        const categoryIndex = await redis.get(`category:${category}`) || '[]';
-        const categoryMemes = JSON.parse(categoryIndex);
-        categoryMemes.push(memeId);
-        await redis.set(`category:${category}`, JSON.stringify(categoryMemes));
-      }
-      
-      // Give the creator initial shares
-      const creatorPortfolio = await redis.get(`portfolio:${currentUser.id}`) || '{}';
-      const portfolio = JSON.parse(creatorPortfolio);
-      portfolio[memeId] = {
-        shares: 100, // Creator gets 10% of initial shares
-        averageBuyPrice: 0 // Free for creator
-      };
-      
-      // Update available shares
-      newMeme.availableShares -= 100;
-      await redis.set(`memes:${memeId}`, JSON.stringify(newMeme));
-      
-      // Save creator's portfolio
-      await redis.set(`portfolio:${currentUser.id}`, JSON.stringify(portfolio));
-      
-      // Schedule initial valuation update after 1 hour
-      await scheduler.runAfter(3600, 'updateMemeValuation', { memeId });
-      
-      // Return the created meme
-      return newMeme;
-    } catch (error) {
-      console.error('Error creating meme:', error);
-      throw error;
+    // Get current user
+    const currentUser = await requireCurrentUser(context);
+    if (await getTradingBan(currentUser.id, context)) {
+      throw new Error('You are banned from the market');
     }
-  });
-
-// Calculate meme valuation based on engagement metrics
-export const calculateMemeValue = Devvit.createServerFunction('calculateMemeValue',
-  async ({ memeId }: { memeId: string }, context): Promise<MemeValuation> => {
-    const { redis, reddit } = context;
     
-    try {
-      // Get meme data
-      const memeJson = await redis.get(`memes:${memeId}`);
-      if (!memeJson) {
-        throw new Error(`Meme not found: ${memeId}`);
-      }
-      
-      const meme: MemeData = JSON.parse(memeJson);
-      
-      // In a real implementation, we would fetch actual engagement data
-      // For the hackathon, we'll simulate engagement metrics
-      
-      // Get post data if this meme has an associated post
-      let engagementScore = meme.engagementScore || 10;
-      let postKarma = 0;
-      let commentCount = 0;
-      
-      if (meme.postId) {
-        try {
-          const post = await reddit.getPostById(meme.postId);
-          postKarma = post.score;
-          commentCount = post.commentCount;
-          
-          // Calculate engagement based on karma and comments
-          // This is a simplified model - you could make this more sophisticated
-          engagementScore = Math.max(
-            10,
-            postKarma * 0.5 + commentCount * 2 + meme.tradeVolume * 3
-          );
-        } catch (error) {
-          console.error(`Error fetching post for meme ${memeId}:`, error);
-          // Continue with existing engagement score if post fetch fails
-        }
+    const params = await getMarketParameters(context);
+    const { blockedWords } = await getContentSettings(context);
+    const { templateId, title, topText, bottomText, categories, initialSharePrice } = validate<MemeSubmission>({
+      ...memeTextSchema(blockedWords),
+      templateId: id('Template'),
+      categories: someOf('Categories', MEME_CATEGORY_IDS, { max: MAX_CATEGORIES }),
+      initialSharePrice: number({ label: 'Initial price', min: params.minIpoPrice, max: params.maxIpoPrice }),
+    }, submission);
+    const template = await resolveTemplate(templateId, currentUser.id, context);
+    
+    // Generate a unique ID for the meme
+    const memeId = `meme_${Date.now()}_${Math.floor(Math.random() * 1000)}`;
+    
+    // Charge the listing fee up front; this throws if the creator can't afford it
+    const fee = roundCoins(initialSharePrice * params.ipoFeeMultiplier);
+    await adjustBalance(currentUser.id, -fee, 'ipo', context, memeId);
+    
+    // Create the meme object; its dates are reset when it is approved
+    const draft: MemeData = {
+      id: memeId,
+      creatorId: currentUser.id,
+      creatorName: currentUser.username,
+      createdAt: new Date().toISOString(),
+      templateId: template.id,
+      templateUrl: template.imageUrl,
+      title,
+      topText,
+      bottomText,
+      categories,
+      initialSharePrice,
+      currentSharePrice: initialSharePrice,
+      totalShares: 1000, // Initial share offering
+      availableShares: 1000,
+      tradeVolume: 0,
+      priceHistory: [],
+      engagementScore: 10, // Initial engagement score
+      countedKarma: 0,
+      lastUpdated: new Date().toISOString()
+    };
+    
+    const listing: MemeListing = {
+      id: memeId,
+      draft,
+      status: 'pending',
+      fee,
+      submittedAt: new Date().toISOString(),
+      revision: 1,
+    };
+    await saveNewListing(listing, context);
+    
+    return listing;
+  } catch (error) {
+    console.error('Error creating meme:', error);
+    throw error;
+  }
+}
+
+// Put an approved draft on the market: store it, grant the creator's shares,
+// index it and give it a post
+async function publishMeme(draft: MemeData, context: Devvit.Context): Promise<MemeData> {
+  const { redis } = context;
+  const memeId = draft.id;
+  
+  // The meme is listed as of approval, not submission
+  const listedAt = new Date().toISOString();
+  const newMeme: MemeData = {
+    ...draft,
+    createdAt: listedAt,
+    priceHistory: [
+      {
+        timestamp: listedAt,
+        price: draft.initialSharePrice
       }
-      
-      // Calculate new price based on engagement score and trade volume
-      // This is a simplified algorithm - you would want to tune this
-      // based on testing with real user data
-      const priceChangePercent = calculatePriceChange(meme, engagementScore);
-      const newPrice = Math.max(
-        0.1, // Minimum price
-        meme.currentSharePrice * (1 + priceChangePercent)
-      );
-      
-      // Market cap = total shares * price
-      const marketCap = meme.totalShares * newPrice;
-      
-      return {
-        memeId,
-        previousPrice: meme.currentSharePrice,
-        currentPrice: newPrice,
-        priceChangePercent,
-        marketCap,
-        engagementScore,
-        timestamp: new Date().toISOString()
-      };
-    } catch (error) {
-      console.error(`Error calculating value for meme ${memeId}:`, error);
-      throw error;
-    }
-  });
+    ],
+    lastUpdated: listedAt
+  };
+  
+  // Update available shares
+  newMeme.availableShares -= CREATOR_SHARES;
+  
+  // Store the meme and grant the creator's shares together. The creator's
+  // portfolio is watched so a trade they make meanwhile isn't overwritten.
+  const portfolioKey = `portfolio:${newMeme.creatorId}`;
+  let published = false;
+  for (let attempt = 0; attempt < MAX_PUBLISH_ATTEMPTS && !published; attempt++) {
+    const txn = await redis.watch(portfolioKey);
+    const portfolio: Portfolio = JSON.parse(await redis.get(portfolioKey) || '{}');
+    portfolio[memeId] = {
+      shares: CREATOR_SHARES, // Creator gets 10% of initial shares
+      averageBuyPrice: 0, // Free for creator
+      grantedShares: CREATOR_SHARES
+    };
+    
+    await txn.multi();
+    await txn.set(`memes:${memeId}`, JSON.stringify(newMeme));
+    await txn.set(portfolioKey, JSON.stringify(portfolio));
+    const results = await txn.exec();
+    published = !!results && results.length > 0;
+  }
+  if (!published) {
+    throw new Error(`Could not publish meme ${memeId}, please try again`);
+  }
+  
+  await indexHolding(memeId, newMeme.creatorId, CREATOR_SHARES, context);
+  await recordTemplateUse(newMeme.templateId, memeId, listedAt, context);
+  
+  // Add to the global and per-category sorted-set indexes; the market
+  // tick revalues every indexed meme from here on
+  await indexMeme(newMeme, context);
+  
+  // Give the meme its own post so real karma and comments drive its price.
+  // The listing stands even if this fails; a mod can attach a post later.
+  try {
+    const post = await submitMemePost(newMeme, context);
+    await linkMemePost(memeId, post.id, context);
+    newMeme.postId = post.id;
+  } catch (error) {
+    console.error(`Error submitting post for meme ${memeId}:`, error);
+  }
+  
+  return newMeme;
+}
+
+// Approve a pending listing and put the meme on the market. The approval
+// claims the listing so two mods can't both publish it, and is undone if
+// publishing fails.
+export async function approveListing(listingId: string, context: Devvit.Context): Promise<MemeData> {
+  const { reddit } = context;
+  
+  await assertModerator(context, 'approve memes');
+  if (!(await isMarketOpen(context))) {
+    throw new Error('Memes can\'t be listed between seasons');
+  }
+  
+  const reviewer = await reddit.getCurrentUser();
+  let previous: Pick<MemeListing, 'reviewedAt' | 'reviewerName' | 'reviewNote'> = {};
+  const listing = await transitionListing(listingId, ['pending'], listing => {
+    previous = { reviewedAt: listing.reviewedAt, reviewerName: listing.reviewerName, reviewNote: listing.reviewNote };
+    listing.status = 'approved';
+    listing.reviewedAt = new Date().toISOString();
+    listing.reviewerName = reviewer?.username;
+    listing.reviewNote = undefined;
+  }, context);
+  
+  try {
+    return await publishMeme(listing.draft, context);
+  } catch (error) {
+    console.error(`Error publishing listing ${listingId}, returning it to the queue:`, error);
+    await transitionListing(listingId, ['approved'], listing => {
+      listing.status = 'pending';
+      Object.assign(listing, previous);
+    }, context);
+    throw error;
+  }
+}
 
-// Helper function to calculate price change based on engagement
-function calculatePriceChange(meme: MemeData, newEngagementScore: number): number {
-  // Get previous engagement score
-  const prevEngagementScore = meme.engagementScore || 10;
+// Reject a listing for good and refund its IPO fee
+export async function rejectListing(listingId: string, reason: string, context: Devvit.Context): Promise<MemeListing> {
+  const { reddit } = context;
   
-  // Calculate score change as percentage
-  const scoreChangePercent = (newEngagementScore - prevEngagementScore) / prevEngagementScore;
+  await assertModerator(context, 'reject memes');
   
-  // Apply volatility factor based on meme age
-  const ageInDays = (Date.now() - new Date(meme.createdAt).getTime()) / (1000 * 60 * 60 * 24);
-  const volatilityFactor = Math.max(0.1, 1 - (ageInDays * 0.1)); // Decreases with age
+  const reviewer = await reddit.getCurrentUser();
+  const listing = await transitionListing(listingId, ['pending', 'changes-requested'], listing => {
+    listing.status = 'rejected';
+    listing.reviewedAt = new Date().toISOString();
+    listing.reviewerName = reviewer?.username;
+    listing.reviewNote = reason;
+  }, context);
   
-  // Apply trade volume factor
-  const volumeFactor = Math.min(2, 1 + (meme.tradeVolume / 1000)); // Increases with volume
+  await adjustBalance(listing.draft.creatorId, listing.fee, 'refund', context, listingId);
+  return listing;
+}
+
+// Send a listing back to its creator with a note on what to change. The fee
+// stays held until it is approved or rejected.
+export async function requestListingChanges(listingId: string, note: string, context: Devvit.Context): Promise<MemeListing> {
+  const { reddit } = context;
   
-  // Calculate final price change (limited to reasonable bounds)
-  const rawPriceChange = scoreChangePercent * volatilityFactor * volumeFactor;
+  await assertModerator(context, 'review memes');
   
-  // Limit extreme changes to prevent market manipulation
-  return Math.max(-0.3, Math.min(0.3, rawPriceChange));
+  const reviewer = await reddit.getCurrentUser();
+  return await transitionListing(listingId, ['pending'], listing => {
+    listing.status = 'changes-requested';
+    listing.reviewedAt = new Date().toISOString();
+    listing.reviewerName = reviewer?.username;
+    listing.reviewNote = note;
+  }, context);
+}
+
+// Apply the creator's edits and put the listing back in the queue
+export async function resubmitListing(
+  listingId: string,
+  edits: MemeText,
+  context: Devvit.Context
+): Promise<MemeListing> {
+  const { blockedWords } = await getContentSettings(context);
+  const { title, topText, bottomText } = validate(memeTextSchema(blockedWords), edits);
+
+  const currentUser = await requireCurrentUser(context);
+  const existing = await getListing(listingId, context);
+  if (!existing || existing.draft.creatorId !== currentUser.id) {
+    throw new Error('You can only edit your own listings');
+  }
+  
+  return await transitionListing(listingId, ['changes-requested'], listing => {
+    listing.draft = { ...listing.draft, title, topText, bottomText };
+    listing.status = 'pending';
+    listing.submittedAt = new Date().toISOString();
+    listing.revision++;
+  }, context);
+}
+
+// Calculate meme valuation based on engagement metrics
+export async function calculateMemeValue({ memeId }: { memeId: string }, context: JobContext): Promise<MemeValuation> {
+  const { redis, reddit } = context;
+  
+  try {
+    // Get meme data
+    const memeJson = await redis.get(`memes:${memeId}`);
+    if (!memeJson) {
+      throw new Error(`Meme not found: ${memeId}`);
+    }
+    
+    const meme: MemeData = JSON.parse(memeJson);
+    
+    // In a real implementation, we would fetch actual engagement data
+    // For the hackathon, we'll simulate engagement metrics
+    
+    // Get post data if this meme has an associated post
+    let engagementScore = meme.engagementScore || 10;
+    let postKarma = 0;
+    let commentCount = 0;
+    
+    let countedKarma: number | undefined;
+    
+    if (meme.postId) {
+      try {
+        const post = await reddit.getPostById(meme.postId);
+        commentCount = post.numberOfComments;
+        
+        // Karma gains are capped per tick so a brigade can't spike the price
+        const karma = countPostKarma(meme, post.score, await getSafeguardSettings(context));
+        postKarma = karma.countedKarma;
+        countedKarma = karma.countedKarma;
+        if (karma.incident) {
+          await flagIncident(memeId, karma.incident, context);
+        }
+        
+        // Calculate engagement based on karma, comments and the trade volume
+        // that wasn't discounted as wash trading
+        const countedVolume = meme.tradeVolume - (meme.discountedVolume || 0);
+        engagementScore = Math.max(
+          10,
+          postKarma * 0.5 + commentCount * 2 + countedVolume * 3
+        );
+      } catch (error) {
+        console.error(`Error fetching post for meme ${memeId}:`, error);
+        // Continue with existing engagement score if post fetch fails
+      }
+    }
+    
+    // Calculate new price with the pricing model mods have configured
+    const { model, params } = await loadPricingConfig(context);
+    const priceChangePercent = model.priceChange({ meme, engagementScore, now: Date.now() }, params);
+    const newPrice = applyPriceChange(meme.currentSharePrice, priceChangePercent, params);
+    
+    // Market cap = total shares * price
+    const marketCap = meme.totalShares * newPrice;
+    
+    return {
+      memeId,
+      previousPrice: meme.currentSharePrice,
+      currentPrice: newPrice,
+      priceChangePercent,
+      marketCap,
+      engagementScore,
+      countedKarma,
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error(`Error calculating value for meme ${memeId}:`, error);
+    throw error;
+  }
 }
 
-// Update meme valuation (called by scheduler)
-export const updateMemeValuation = Devvit.createScheduledFunction('updateMemeValuation',
-  async ({ memeId }: { memeId: string }, context): Promise<void> => {
-    const { redis, scheduler } = context;
+// Update meme valuation (called by the market tick)
+export async function updateMemeValuation(memeId: string, context: JobContext): Promise<void> {
+  const { redis } = context;
+  
+  try {
+    // Calculate new valuation
+    const valuation = await calculateMemeValue({ memeId }, context);
+    const { params } = await loadPricingConfig(context);
     
-    try {
-      // Calculate new valuation
-      const valuation = await calculateMemeValue({ memeId }, context);
+    // Trades may land while we were valuing and move the price along the
+    // curve, so the tick's change is applied to the latest copy of the meme
+    for (let attempt = 0; attempt < MAX_VALUATION_ATTEMPTS; attempt++) {
+      const txn = await redis.watch(`memes:${memeId}`);
       
       // Get current meme data
       const memeJson = await redis.get(`memes:${memeId}`);
       if (!memeJson) {
+        await txn.unwatch();
         throw new Error(`Meme not found: ${memeId}`);
       }
       
       const meme: MemeData = JSON.parse(memeJson);
+      const previousPrice = meme.currentSharePrice;
+      const currentPrice = applyPriceChange(previousPrice, valuation.priceChangePercent, params);
+      const applied: MemeValuation = {
+        ...valuation,
+        previousPrice,
+        currentPrice,
+        marketCap: meme.totalShares * currentPrice,
+      };
       
       // Update meme with new valuation
-      meme.currentSharePrice = valuation.currentPrice;
+      meme.currentSharePrice = currentPrice;
       meme.engagementScore = valuation.engagementScore;
+      if (valuation.countedKarma !== undefined) {
+        meme.countedKarma = valuation.countedKarma;
+      }
       meme.lastUpdated = valuation.timestamp;
       
       // Add to price history (keep last 24 data points)
       meme.priceHistory.push({
         timestamp: valuation.timestamp,
-        price: valuation.currentPrice
+        price: currentPrice
       });
       
       // Limit history length
@@ -223,66 +445,142 @@ export const updateMemeValuation = Devvit.createScheduledFunction('updateMemeVal
       }
       
       // Save updated meme
-      await redis.set(`memes:${memeId}`, JSON.stringify(meme));
-      
-      // Update market history
-      await updateMarketHistory(valuation, context);
+      await txn.multi();
+      await txn.set(`memes:${memeId}`, JSON.stringify(meme));
+      await indexMeme(meme, context, txn);
+      const results = await txn.exec();
       
-      // Schedule next update (every hour)
-      await scheduler.runAfter(3600, 'updateMemeValuation', { memeId });
-    } catch (error) {
-      console.error(`Error updating valuation for meme ${memeId}:`, error);
-      
-      // Even if there's an error, reschedule for next update
-      await scheduler.runAfter(3600, 'updateMemeValuation', { memeId });
-    }
-  });
+      if (results && results.length > 0) {
+        // Update market history
+        await updateMarketHistory(applied, context);
+        await recordEngagementSample(memeId, valuation.engagementScore, Date.parse(valuation.timestamp), context);
 
-// Get trending memes
-export const getTrendingMemes = Devvit.createServerFunction('getTrendingMemes',
-  async ({ limit = 10, category = null }: { limit?: number, category?: string | null }, context): Promise<MemeData[]> => {
-    const { redis } = context;
-    
-    try {
-      // Determine which index to use
-      let memeIdsToFetch: string[] = [];
-      
-      if (category) {
-        // Get memes for specific category
-        const categoryIndex = await redis.get(`category:${category}`) || '[]';
-        memeIdsToFetch = JSON.parse(categoryIndex);
-      } else {
-        // Get all memes
-        const memeIndex = await redis.get('meme_index') || '[]';
-        memeIdsToFetch = JSON.parse(memeIndex);
-      }
-      
-      // Fetch all meme data
-      const memes: MemeData[] = [];
-      for (const memeId of memeIdsToFetch) {
-        const memeJson = await redis.get(`memes:${memeId}`);
-        if (memeJson) {
-          memes.push(JSON.parse(memeJson));
+        // The new price already stands, so a payout failure must not undo it
+        try {
+          await payDividends(meme, context);
+        } catch (error) {
+          console.error(`Error paying dividends on meme ${memeId}:`, error);
         }
-      }
-      
-      // Sort by price change (can change to sort by other metrics)
-      const sortedMemes = memes.sort((a, b) => {
-        // Calculate price change %
-        const getChangePercent = (meme: MemeData) => {
-          if (meme.priceHistory.length < 2) return 0;
-          const current = meme.priceHistory[meme.priceHistory.length - 1].price;
-          const previous = meme.priceHistory[meme.priceHistory.length - 2].price;
-          return (current - previous) / previous;
-        };
+        await notifyPriceChange(meme, previousPrice, 'tick', context);
         
-        return getChangePercent(b) - getChangePercent(a);
+        // Fill any resting orders the new price crosses
+        await matchOrders(memeId, context);
+        return;
+      }
+    }
+    
+    throw new Error(`Could not save valuation for meme ${memeId}`);
+  } catch (error) {
+    console.error(`Error updating valuation for meme ${memeId}:`, error);
+    throw error;
+  }
+}
+
+// List memes for the marketplace with server-side sorting, filtering and paging
+export async function listMemes({
+  sort = 'trending',
+  category = null,
+  minPrice,
+  maxPrice,
+  creatorId,
+  cursor = null,
+  limit = 20,
+}: {
+  sort?: MarketplaceSort;
+  category?: string | null;
+  minPrice?: number;
+  maxPrice?: number;
+  creatorId?: string;
+  cursor?: string | null;
+  limit?: number;
+}, context: Devvit.Context): Promise<MemePage> {
+  try {
+    validate({
+      sort: oneOf('Sort', Object.keys(MARKETPLACE_SORTS) as MarketplaceSort[]),
+      category: optional(oneOf('Category', MEME_CATEGORY_IDS)),
+      minPrice: optional(number({ label: 'Lowest price', min: 0 })),
+      maxPrice: optional(number({ label: 'Highest price', min: 0 })),
+      creatorId: optional(id('Creator')),
+      limit: number({ label: 'Page size', min: 1, max: MAX_LIST_LIMIT, integer: true }),
+    }, { sort, category, minPrice, maxPrice, creatorId, limit });
+    if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+      throw invalidField('maxPrice', 'The highest price must not be below the lowest');
+    }
+
+    const { index, ascending } = MARKETPLACE_SORTS[sort];
+    let after = decodeListCursor(cursor);
+
+    const matches = (meme: MemeData) =>
+      (!category || meme.categories.includes(category)) &&
+      (minPrice === undefined || meme.currentSharePrice >= minPrice) &&
+      (maxPrice === undefined || meme.currentSharePrice <= maxPrice) &&
+      (!creatorId || meme.creatorId === creatorId);
+
+    // A creator has few enough memes to filter and sort them in memory
+    if (creatorId) {
+      const entries = (await getMemes(await readCreatorMemeIds(creatorId, context), context))
+        .filter(matches)
+        .map(meme => ({ meme, position: { score: getMemeSortScore(meme, index), memeId: meme.id } }))
+        .filter(({ position }) => !after || !isAtOrBeforeCursor(position, after, ascending))
+        .sort((a, b) => (isAtOrBeforeCursor(a.position, b.position, ascending) ? -1 : 1));
+      const page = entries.slice(0, limit);
+      return {
+        memes: page.map(({ meme }) => meme),
+        nextCursor: entries.length > limit ? encodeListCursor(page[page.length - 1].position) : null,
+      };
+    }
+
+    // Otherwise walk the sorted index from the cursor, keeping matches
+    const memes: MemeData[] = [];
+    let exhausted = false;
+
+    for (let batch = 0; batch < LIST_MAX_SCAN_BATCHES && memes.length < limit; batch++) {
+      const entries = await readMemeIndexAfter(index, context, {
+        category,
+        after,
+        count: LIST_SCAN_BATCH,
+        ascending,
       });
-      
-      // Return limited number
-      return sortedMemes.slice(0, limit);
-    } catch (error) {
-      console.error('Error getting trending memes:', error);
-      return [];
+      const batchMemes = new Map((await getMemes(entries.map(entry => entry.memeId), context)).map(meme => [meme.id, meme]));
+
+      let read = 0;
+      for (const entry of entries) {
+        read++;
+        after = entry;
+        const meme = batchMemes.get(entry.memeId);
+        if (meme && matches(meme)) {
+          memes.push(meme);
+          if (memes.length === limit) break;
+        }
+      }
+
+      // A short batch that was read to the end means there is nothing left
+      if (entries.length < LIST_SCAN_BATCH && read === entries.length) {
+        exhausted = true;
+        break;
+      }
     }
-  });
\ No newline at end of file
+
+    return { memes, nextCursor: exhausted || !after ? null : encodeListCursor(after) };
+  } catch (error) {
+    console.error('Error listing memes:', error);
+    throw error;
+  }
+}
+
+// Cursors are an opaque encoding of the last index entry a page read
+function encodeListCursor(position: IndexCursor): string {
+  return btoa(JSON.stringify(position));
+}
+
+function decodeListCursor(cursor: string | null): IndexCursor | null {
+  if (!cursor) return null;
+
+  try {
+    const { score, memeId } = JSON.parse(atob(cursor));
+    if (Number.isFinite(score) && typeof memeId === 'string') return { score, memeId };
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid listing cursor');
+}
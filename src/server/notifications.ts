@@ -0,0 +1,340 @@
+import { Devvit } from '@devvit/public-api';
+import { requireCurrentUser } from './permissions';
+import { getNotificationSettings } from './settings';
+import { id, invalidField, number, oneOf, validate } from './validation';
+import { getMeme, getMemes, getMemeSortScore, MemeData } from '../storage/memeRegistry';
+import {
+  AlertKind,
+  appendNotification,
+  countUnreadNotifications,
+  countUserAlerts,
+  deleteAlert,
+  getAlert,
+  getNotificationPreferences,
+  getReachedMilestone,
+  markNotificationsRead,
+  Notification,
+  NotificationKind,
+  NotificationPreferences,
+  PriceAlert,
+  readMemeAlerts,
+  readNotifications,
+  readUserAlerts,
+  saveAlert,
+  saveNotificationPreferences,
+  saveReachedMilestone,
+} from '../storage/notifications';
+
+// Market caps a creator hears about their meme passing, in MemeCoins
+const MARKET_CAP_MILESTONES = [1000, 5000, 10000, 50000, 100000, 500000, 1000000];
+
+const ALERT_KINDS: AlertKind[] = ['above', 'below', 'move'];
+
+// The highest price, in MemeCoins, an alert can watch for
+const MAX_ALERT_THRESHOLD = 1000000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type NotifyContext = Pick<Devvit.Context, 'redis' | 'reddit' | 'settings'>;
+
+// Where a price change came from. Percentage move alerts only look at
+// market ticks, since a single trade moves the price along the curve.
+export type PriceChangeSource = 'tick' | 'trade';
+
+export interface AlertView {
+  alert: PriceAlert;
+  memeTitle: string;
+  currentPrice: number | null;
+}
+
+export interface Inbox {
+  notifications: Notification[];
+  unread: number;
+  preferences: NotificationPreferences;
+}
+
+function messageCountKey(userId: string, time: number): string {
+  return `ratelimit:messages:${userId}:${Math.floor(time / HOUR_MS)}`;
+}
+
+function formatCoins(amount: number): string {
+  return `₽${amount.toFixed(2)}`;
+}
+
+// One line describing what an alert watches for
+export function describeAlert(alert: PriceAlert): string {
+  switch (alert.kind) {
+    case 'above':
+      return `rises to ${formatCoins(alert.threshold)}`;
+    case 'below':
+      return `falls to ${formatCoins(alert.threshold)}`;
+    case 'move':
+      return `moves ${alert.threshold}% in a tick`;
+  }
+}
+
+// Whether a price change sets an alert off. Price alerts fire when the
+// threshold is crossed, not every time the price sits past it.
+export function alertTriggered(
+  alert: PriceAlert,
+  previousPrice: number,
+  price: number,
+  source: PriceChangeSource
+): boolean {
+  switch (alert.kind) {
+    case 'above':
+      return previousPrice < alert.threshold && price >= alert.threshold;
+    case 'below':
+      return previousPrice > alert.threshold && price <= alert.threshold;
+    case 'move':
+      return source === 'tick' && previousPrice > 0 && Math.abs(price / previousPrice - 1) * 100 >= alert.threshold;
+  }
+}
+
+function mutedKind(kind: NotificationKind, preferences: NotificationPreferences): boolean {
+  if (kind === 'order-filled' || kind === 'order-failed') return !preferences.orderFills;
+  if (kind === 'milestone') return !preferences.milestones;
+  return false;
+}
+
+// Count a private message against the user's hourly allowance. Returns false
+// once they're over it.
+async function takeMessageAllowance(userId: string, context: NotifyContext): Promise<boolean> {
+  const { redis } = context;
+  const { messagesPerHour } = await getNotificationSettings(context);
+  if (messagesPerHour <= 0) return false;
+
+  const key = messageCountKey(userId, Date.now());
+  const count = await redis.incrBy(key, 1);
+  if (count === 1) {
+    await redis.expire(key, HOUR_MS / 1000);
+  }
+  return count <= messagesPerHour;
+}
+
+// Put a notification in the user's inbox and, unless they've opted out or
+// had their fill of messages this hour, send it as a private message too.
+// Notifying must never break the trade or tick behind it, so failures are
+// only logged.
+export async function notifyUser(
+  userId: string,
+  { kind, subject, text, memeId }: Omit<Notification, 'id' | 'createdAt'>,
+  context: NotifyContext
+): Promise<void> {
+  const { reddit } = context;
+
+  try {
+    const preferences = await getNotificationPreferences(userId, context);
+    if (mutedKind(kind, preferences)) return;
+
+    await appendNotification(userId, {
+      id: `notification_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      kind,
+      subject,
+      text,
+      memeId,
+      createdAt: new Date().toISOString(),
+    }, context);
+
+    if (!preferences.privateMessages || !(await takeMessageAllowance(userId, context))) return;
+
+    const user = await reddit.getUserById(userId);
+    if (!user) return;
+    await reddit.sendPrivateMessage({ to: user.username, subject, text });
+  } catch (error) {
+    console.error(`Error notifying user ${userId} (${kind}):`, error);
+  }
+}
+
+// Fire the alerts a meme's price change crosses
+async function checkPriceAlerts(
+  meme: MemeData,
+  previousPrice: number,
+  source: PriceChangeSource,
+  context: NotifyContext
+): Promise<void> {
+  const price = meme.currentSharePrice;
+
+  for (const alert of await readMemeAlerts(meme.id, context)) {
+    if (!alertTriggered(alert, previousPrice, price, source)) continue;
+
+    await saveAlert({ ...alert, lastTriggeredAt: new Date().toISOString() }, context);
+    const change = previousPrice > 0 ? (price / previousPrice - 1) * 100 : 0;
+    await notifyUser(alert.userId, {
+      kind: 'price-alert',
+      subject: `Price alert: ${meme.title}`,
+      text: `"${meme.title}" ${describeAlert(alert)}: it went from ${formatCoins(previousPrice)} to ${formatCoins(price)} (${change > 0 ? '+' : ''}${change.toFixed(1)}%).`,
+      memeId: meme.id,
+    }, context);
+  }
+}
+
+// Tell a creator when their meme passes a new market cap milestone
+async function checkMilestones(meme: MemeData, context: NotifyContext): Promise<void> {
+  const marketCap = getMemeSortScore(meme, 'marketCap');
+  const milestone = MARKET_CAP_MILESTONES.filter(amount => marketCap >= amount).pop();
+  if (!milestone || milestone <= (await getReachedMilestone(meme.id, context))) return;
+
+  await saveReachedMilestone(meme.id, milestone, context);
+  await notifyUser(meme.creatorId, {
+    kind: 'milestone',
+    subject: `${meme.title} passed ₽${milestone.toLocaleString('en-US')}`,
+    text: `Your meme "${meme.title}" just passed a market cap of ₽${milestone.toLocaleString('en-US')}. It's trading at ${formatCoins(meme.currentSharePrice)} a share.`,
+    memeId: meme.id,
+  }, context);
+}
+
+// Send whatever notifications a meme's new price calls for. Called after
+// each market tick and each trade once the new price is saved.
+export async function notifyPriceChange(
+  meme: MemeData,
+  previousPrice: number,
+  source: PriceChangeSource,
+  context: NotifyContext
+): Promise<void> {
+  try {
+    await checkPriceAlerts(meme, previousPrice, source, context);
+    await checkMilestones(meme, context);
+  } catch (error) {
+    console.error(`Error sending notifications for meme ${meme.id}:`, error);
+  }
+}
+
+// The current user's inbox, newest first, with how much of it is unread
+export async function getMyInbox({ limit = 20 }: { limit?: number }, context: Devvit.Context): Promise<Inbox> {
+  try {
+    const currentUser = await requireCurrentUser(context);
+    const [notifications, unread, preferences] = await Promise.all([
+      readNotifications(currentUser.id, context, limit),
+      countUnreadNotifications(currentUser.id, context),
+      getNotificationPreferences(currentUser.id, context),
+    ]);
+    return { notifications, unread, preferences };
+  } catch (error) {
+    console.error('Error loading inbox:', error);
+    throw error;
+  }
+}
+
+// For the inbox badge. Signed out users have no inbox.
+export async function getUnreadCount(_args: Record<string, never>, context: Devvit.Context): Promise<number> {
+  const { userId } = context;
+
+  try {
+    return userId ? await countUnreadNotifications(userId, context) : 0;
+  } catch (error) {
+    console.error('Error counting unread notifications:', error);
+    throw error;
+  }
+}
+
+export async function markInboxRead(_args: Record<string, never>, context: Devvit.Context): Promise<void> {
+  try {
+    const currentUser = await requireCurrentUser(context);
+    await markNotificationsRead(currentUser.id, context);
+  } catch (error) {
+    console.error('Error marking inbox read:', error);
+    throw error;
+  }
+}
+
+export async function updateMyNotificationPreferences(
+  preferences: NotificationPreferences,
+  context: Devvit.Context
+): Promise<NotificationPreferences> {
+  try {
+    const currentUser = await requireCurrentUser(context);
+    const updated: NotificationPreferences = {
+      privateMessages: !!preferences.privateMessages,
+      orderFills: !!preferences.orderFills,
+      milestones: !!preferences.milestones,
+    };
+    await saveNotificationPreferences(currentUser.id, updated, context);
+    return updated;
+  } catch (error) {
+    console.error('Error saving notification preferences:', error);
+    throw error;
+  }
+}
+
+// The current user's price alerts, oldest first, with their memes' prices
+export async function getMyAlerts(_args: Record<string, never>, context: Devvit.Context): Promise<AlertView[]> {
+  try {
+    const currentUser = await requireCurrentUser(context);
+    const alerts = await readUserAlerts(currentUser.id, context);
+    const memes = await getMemes(Array.from(new Set(alerts.map(alert => alert.memeId))), context);
+
+    return alerts.map(alert => {
+      const meme = memes.find(candidate => candidate.id === alert.memeId);
+      return { alert, memeTitle: meme?.title ?? alert.memeId, currentPrice: meme?.currentSharePrice ?? null };
+    });
+  } catch (error) {
+    console.error('Error loading price alerts:', error);
+    throw error;
+  }
+}
+
+// Set a price alert on a meme for the current user
+export async function createPriceAlert(
+  request: { memeId: string; kind: AlertKind; threshold: number },
+  context: Devvit.Context
+): Promise<PriceAlert> {
+  const { memeId } = request;
+
+  try {
+    const { kind, threshold } = validate({
+      memeId: id('Meme'),
+      kind: oneOf('Alert type', ALERT_KINDS),
+      threshold: number({ label: 'Threshold', min: 0.01, max: MAX_ALERT_THRESHOLD }),
+    }, request);
+
+    const meme = await getMeme(memeId, context);
+    if (!meme || meme.delistedAt) {
+      throw invalidField('memeId', `Meme not found: ${memeId}`);
+    }
+    if (kind === 'move' && threshold > 100) {
+      throw invalidField('threshold', 'A move can be at most 100%');
+    }
+    if (kind === 'above' && threshold <= meme.currentSharePrice) {
+      throw invalidField('threshold', `${meme.title} is already at ${formatCoins(meme.currentSharePrice)}`);
+    }
+    if (kind === 'below' && threshold >= meme.currentSharePrice) {
+      throw invalidField('threshold', `${meme.title} is already at ${formatCoins(meme.currentSharePrice)}`);
+    }
+
+    const currentUser = await requireCurrentUser(context);
+    const { maxAlertsPerTrader } = await getNotificationSettings(context);
+    if ((await countUserAlerts(currentUser.id, context)) >= maxAlertsPerTrader) {
+      throw new Error(`You can have at most ${maxAlertsPerTrader} price alerts`);
+    }
+
+    const alert: PriceAlert = {
+      id: `alert_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      userId: currentUser.id,
+      memeId,
+      kind,
+      threshold,
+      createdAt: new Date().toISOString(),
+    };
+    await saveAlert(alert, context);
+
+    return alert;
+  } catch (error) {
+    console.error(`Error setting price alert on meme ${memeId}:`, error);
+    throw error;
+  }
+}
+
+export async function removePriceAlert({ alertId }: { alertId: string }, context: Devvit.Context): Promise<void> {
+  try {
+    const currentUser = await requireCurrentUser(context);
+    const alert = await getAlert(alertId, context);
+    if (!alert || alert.userId !== currentUser.id) {
+      throw new Error(`Alert not found: ${alertId}`);
+    }
+    await deleteAlert(alert, context);
+  } catch (error) {
+    console.error(`Error removing price alert ${alertId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,545 @@
+import { Devvit, JobContext } from '@devvit/public-api';
+import { getTradingHalt } from '../storage/marketControls';
+import { getMeme } from '../storage/memeRegistry';
+import { isMarketOpen } from '../storage/seasonRegistry';
+import { maxSharesWithinLimit } from './amm';
+import { notifyUser } from './notifications';
+import { requireCurrentUser } from './permissions';
+import { enforceTradeRateLimit } from './safeguards';
+import { assertCanTrade, executeOrder, readRecentTrades, TradeError, TradeRecord, TradeSide } from './tradingEngine';
+import { id, number, oneOf, optional, validate } from './validation';
+
+// Limit buys fill once the price falls to their trigger price, limit sells
+// once it rises to theirs, and stop-losses sell at market once it falls to
+// theirs. Limit orders never fill at a worse average price than the trigger,
+// so a large one may fill in parts as the price comes back to it.
+export type OrderType = 'limit-buy' | 'limit-sell' | 'stop-loss';
+
+export type OrderStatus = 'open' | 'filling' | 'filled' | 'cancelled' | 'expired' | 'failed';
+
+// Stored as JSON under `order:<orderId>`
+export interface Order {
+  id: string;
+  memeId: string;
+  userId: string;
+  username: string;
+  type: OrderType;
+  shares: number;
+  triggerPrice: number;
+  status: OrderStatus;
+  createdAt: string;
+  expiresAt: string | null;
+  closedAt?: string;
+  // The latest trade against the order
+  tradeId?: string;
+  // Shares filled so far and their average price, across partial fills
+  filledShares?: number;
+  fillPrice?: number;
+  failureReason?: string;
+}
+
+export interface OrderBookLevel {
+  price: number;
+  shares: number;
+}
+
+// Resting limit orders on one meme, best-priced first on each side
+export interface OrderBookDepth {
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+}
+
+const ORDER_TYPES: OrderType[] = ['limit-buy', 'limit-sell', 'stop-loss'];
+
+const MAX_OPEN_ORDERS_PER_USER = 20;
+
+// Resting orders expire at the latest after a season's worth of hours
+const MAX_EXPIRY_HOURS = 30 * 24;
+
+// Caps how many resting orders one price move can fill, since every fill
+// moves the price again
+const MAX_FILLS_PER_MATCH = 25;
+
+// How many times an order status change is retried when it races another
+const MAX_ORDER_UPDATE_ATTEMPTS = 5;
+
+// Open orders with an expiry, scored by when they expire
+const ORDER_EXPIRY_KEY = 'orders:expiry';
+
+// Orders claimed for a fill, scored by when they were claimed
+const ORDER_FILLING_KEY = 'orders:filling';
+
+// A claim older than this belongs to a fill that died part-way, e.g. in a
+// timed-out job
+const STALE_FILL_MS = 10 * 60 * 1000;
+
+// Recent trades on a meme searched for a stale claim's fill
+const RECOVERY_TRADE_SCAN = 100;
+
+// Prices are always positive, so this bounds any score range
+const MAX_PRICE_SCORE = Number.MAX_SAFE_INTEGER;
+
+function orderKey(orderId: string): string {
+  return `order:${orderId}`;
+}
+
+// Open orders of one type on one meme, scored by trigger price
+function bookKey(memeId: string, type: OrderType): string {
+  return `orders:${memeId}:${type}`;
+}
+
+// Every order a user has placed, scored by placement time
+function userOrdersKey(userId: string): string {
+  return `user_orders:${userId}`;
+}
+
+function orderSide(type: OrderType): TradeSide {
+  return type === 'limit-buy' ? 'buy' : 'sell';
+}
+
+function remainingShares(order: Order): number {
+  return order.shares - (order.filledShares || 0);
+}
+
+async function readOrder(orderId: string, context: Pick<Devvit.Context, 'redis'>): Promise<Order | null> {
+  const { redis } = context;
+  const orderJson = await redis.get(orderKey(orderId));
+  return orderJson ? JSON.parse(orderJson) : null;
+}
+
+// Move an order out of `open`, taking it off the book. Returns the updated
+// order, or null if it was no longer open.
+async function closeOpenOrder(
+  orderId: string,
+  update: Partial<Order> & { status: OrderStatus },
+  context: Pick<Devvit.Context, 'redis'>
+): Promise<Order | null> {
+  const { redis } = context;
+
+  for (let attempt = 0; attempt < MAX_ORDER_UPDATE_ATTEMPTS; attempt++) {
+    const txn = await redis.watch(orderKey(orderId));
+    const order = await readOrder(orderId, context);
+    if (!order || order.status !== 'open') {
+      await txn.unwatch();
+      return null;
+    }
+
+    const updated: Order = { ...order, ...update };
+
+    await txn.multi();
+    await txn.set(orderKey(orderId), JSON.stringify(updated));
+    await txn.zRem(bookKey(order.memeId, order.type), [orderId]);
+    if (update.status === 'filling') {
+      await txn.zAdd(ORDER_FILLING_KEY, { member: orderId, score: Date.now() });
+    } else {
+      await txn.zRem(ORDER_EXPIRY_KEY, [orderId]);
+    }
+    const results = await txn.exec();
+
+    if (results && results.length > 0) {
+      return updated;
+    }
+  }
+
+  throw new Error(`Could not update order ${orderId}, please try again`);
+}
+
+// Put a claimed order back on the book, e.g. when the price moved away
+// before it could fill
+async function reopenOrder(order: Order, context: Pick<Devvit.Context, 'redis'>): Promise<void> {
+  const { redis } = context;
+
+  await redis.set(orderKey(order.id), JSON.stringify({ ...order, status: 'open' }));
+  await redis.zAdd(bookKey(order.memeId, order.type), { member: order.id, score: order.triggerPrice });
+  await redis.zRem(ORDER_FILLING_KEY, [order.id]);
+}
+
+// Write a claimed order's final state
+async function settleOrder(order: Order, context: Pick<Devvit.Context, 'redis'>): Promise<void> {
+  const { redis } = context;
+
+  await redis.set(orderKey(order.id), JSON.stringify(order));
+  await redis.zRem(ORDER_EXPIRY_KEY, [order.id]);
+  await redis.zRem(ORDER_FILLING_KEY, [order.id]);
+}
+
+// Resting orders the spot price has reached, best-priced first
+async function findTriggeredOrderIds(
+  memeId: string,
+  type: OrderType,
+  spot: number,
+  context: Pick<Devvit.Context, 'redis'>
+): Promise<string[]> {
+  const { redis } = context;
+
+  if (type === 'limit-sell') {
+    const members = await redis.zRange(bookKey(memeId, type), 0, spot, { by: 'score' });
+    return members.map(({ member }) => member);
+  }
+
+  const members = await redis.zRange(bookKey(memeId, type), spot, MAX_PRICE_SCORE, { by: 'score' });
+  return members.map(({ member }) => member).reverse();
+}
+
+// Fill one resting order at market, within its limit. A limit order only
+// takes as many shares as fit under its limit along the curve; the rest
+// keeps resting.
+async function fillOrder(orderId: string, context: JobContext): Promise<void> {
+  const pending = await readOrder(orderId, context);
+  if (!pending || pending.status !== 'open') return;
+
+  const side = orderSide(pending.type);
+  let shares = remainingShares(pending);
+  if (pending.type !== 'stop-loss') {
+    const meme = await getMeme(pending.memeId, context);
+    shares = meme ? maxSharesWithinLimit(meme, side, shares, pending.triggerPrice) : 0;
+    if (shares === 0) return;
+  }
+
+  const order = await closeOpenOrder(orderId, { status: 'filling' }, context);
+  if (!order) return;
+
+  if (order.expiresAt && Date.parse(order.expiresAt) <= Date.now()) {
+    await settleOrder({ ...order, status: 'expired', closedAt: new Date().toISOString() }, context);
+    return;
+  }
+
+  const limitPrice = order.type === 'stop-loss' ? undefined : order.triggerPrice;
+
+  try {
+    const { trade } = await executeOrder(order.userId, order.memeId, side, shares, context, limitPrice, order.id);
+    await recordFill(order, trade, context);
+  } catch (error) {
+    // The price moved on, another trade got there first or a mod halted the
+    // meme; try again later
+    if (
+      error instanceof TradeError &&
+      (error.code === 'SLIPPAGE_EXCEEDED' || error.code === 'ORDER_CONFLICT' || error.code === 'TRADING_HALTED')
+    ) {
+      await reopenOrder(order, context);
+      return;
+    }
+
+    const failed: Order = {
+      ...order,
+      status: 'failed',
+      closedAt: new Date().toISOString(),
+      failureReason: error instanceof Error ? error.message : 'The order could not be filled',
+    };
+    await settleOrder(failed, context);
+    await notifyOrderUpdated(failed, context);
+  }
+}
+
+// Apply a trade to the order it filled. A partly filled order goes back on
+// the book for the rest of its shares.
+async function recordFill(order: Order, trade: TradeRecord, context: JobContext): Promise<void> {
+  const previouslyFilled = order.filledShares || 0;
+  const filledShares = previouslyFilled + trade.shares;
+  const updated: Order = {
+    ...order,
+    tradeId: trade.id,
+    filledShares,
+    fillPrice: ((order.fillPrice || 0) * previouslyFilled + trade.total) / filledShares,
+  };
+
+  if (filledShares < order.shares) {
+    await reopenOrder(updated, context);
+    await notifyOrderUpdated({ ...updated, status: 'open' }, context);
+    return;
+  }
+
+  const filled: Order = { ...updated, status: 'filled', closedAt: trade.timestamp };
+  await settleOrder(filled, context);
+  await notifyOrderUpdated(filled, context);
+}
+
+// Fill every resting order on a meme that its current price crosses. Called
+// after each trade and each market tick.
+export async function matchOrders(memeId: string, context: JobContext): Promise<number> {
+  const attempted = new Set<string>();
+  let fills = 0;
+
+  // Orders keep resting while trading is paused or halted
+  if (!(await isMarketOpen(context))) return fills;
+  if (await getTradingHalt(memeId, context)) return fills;
+
+  while (fills < MAX_FILLS_PER_MATCH) {
+    const meme = await getMeme(memeId, context);
+    if (!meme) return fills;
+
+    // Protective stops go first, then sells, then buys
+    let nextOrderId: string | undefined;
+    for (const type of ['stop-loss', 'limit-sell', 'limit-buy'] as OrderType[]) {
+      const triggered = await findTriggeredOrderIds(memeId, type, meme.currentSharePrice, context);
+      nextOrderId = triggered.find(orderId => !attempted.has(orderId));
+      if (nextOrderId) break;
+    }
+
+    if (!nextOrderId) return fills;
+
+    attempted.add(nextOrderId);
+    await fillOrder(nextOrderId, context);
+    fills++;
+  }
+
+  return fills;
+}
+
+// Close every open order whose expiry has passed
+export async function expireOrders(context: Pick<Devvit.Context, 'redis'>): Promise<number> {
+  const { redis } = context;
+
+  const due = await redis.zRange(ORDER_EXPIRY_KEY, 0, Date.now(), { by: 'score' });
+  let expired = 0;
+
+  for (const { member: orderId } of due) {
+    const order = await closeOpenOrder(orderId, { status: 'expired', closedAt: new Date().toISOString() }, context);
+    if (order) expired++;
+    await redis.zRem(ORDER_EXPIRY_KEY, [orderId]);
+  }
+
+  return expired;
+}
+
+// Settle orders whose fill died after claiming them. A fill whose trade went
+// through is recorded; otherwise the order goes back on the book.
+export async function recoverStaleOrders(context: JobContext): Promise<number> {
+  const { redis } = context;
+
+  const stale = await redis.zRange(ORDER_FILLING_KEY, 0, Date.now() - STALE_FILL_MS, { by: 'score' });
+  let recovered = 0;
+
+  for (const { member: orderId, score: claimedAt } of stale) {
+    const order = await readOrder(orderId, context);
+    if (!order || order.status !== 'filling') {
+      await redis.zRem(ORDER_FILLING_KEY, [orderId]);
+      continue;
+    }
+
+    const trades = await readRecentTrades(order.memeId, RECOVERY_TRADE_SCAN, context);
+    const trade = trades.find(candidate => candidate.orderId === orderId && Date.parse(candidate.timestamp) >= claimedAt);
+    if (trade) {
+      await recordFill(order, trade, context);
+    } else {
+      await reopenOrder(order, context);
+    }
+    recovered++;
+  }
+
+  return recovered;
+}
+
+// Cancel every open order on a meme, e.g. when it's delisted
+export async function cancelMemeOrders(memeId: string, context: Pick<Devvit.Context, 'redis'>): Promise<number> {
+  const { redis } = context;
+  let cancelled = 0;
+
+  for (const type of ORDER_TYPES) {
+    const members = await redis.zRange(bookKey(memeId, type), 0, -1, { by: 'rank' });
+    for (const { member: orderId } of members) {
+      const order = await closeOpenOrder(orderId, { status: 'cancelled', closedAt: new Date().toISOString() }, context);
+      if (order) cancelled++;
+    }
+  }
+
+  return cancelled;
+}
+
+// Cancel every open order a user has, e.g. when a season ends
+export async function cancelUserOrders(userId: string, context: Pick<Devvit.Context, 'redis'>): Promise<number> {
+  const { redis } = context;
+
+  const members = await redis.zRange(userOrdersKey(userId), 0, -1, { by: 'rank' });
+  let cancelled = 0;
+
+  for (const { member: orderId } of members) {
+    const order = await closeOpenOrder(orderId, { status: 'cancelled', closedAt: new Date().toISOString() }, context);
+    if (order) cancelled++;
+  }
+
+  return cancelled;
+}
+
+async function notifyOrderUpdated(order: Order, context: JobContext): Promise<void> {
+  const meme = await getMeme(order.memeId, context);
+  const memeTitle = meme ? meme.title : order.memeId;
+  const action = order.type === 'limit-buy' ? 'buy' : 'sell';
+  const summary = `Your ${order.type} order to ${action} ${order.shares} shares of "${memeTitle}"`;
+
+  if (order.status === 'failed') {
+    await notifyUser(order.userId, {
+      kind: 'order-failed',
+      subject: 'Order could not be filled',
+      text: `${summary} could not be filled: ${order.failureReason}`,
+      memeId: order.memeId,
+    }, context);
+    return;
+  }
+
+  const text = order.status === 'filled'
+    ? `${summary} filled at ₽${order.fillPrice!.toFixed(2)} per share.`
+    : `${summary} has filled ${order.filledShares} so far at ₽${order.fillPrice!.toFixed(2)} per share. The rest stays on the book.`;
+
+  await notifyUser(order.userId, {
+    kind: 'order-filled',
+    subject: order.status === 'filled' ? 'Order filled' : 'Order partly filled',
+    text,
+    memeId: order.memeId,
+  }, context);
+}
+
+// Place a resting limit or stop-loss order for the current user
+export async function placeOrder(request: {
+  memeId: string;
+  type: OrderType;
+  shares: number;
+  triggerPrice: number;
+  expiresInHours?: number;
+}, context: Devvit.Context): Promise<Order> {
+  const { redis } = context;
+  const { memeId } = request;
+
+  try {
+    const { type, shares, triggerPrice, expiresInHours } = validate({
+      memeId: id('Meme'),
+      type: oneOf('Order type', ORDER_TYPES),
+      shares: number({ label: 'Shares', min: 1, integer: true }),
+      triggerPrice: number({ label: 'Trigger price', min: 0.01 }),
+      expiresInHours: optional(number({ label: 'Expiry', min: 1, max: MAX_EXPIRY_HOURS })),
+    }, request);
+
+    if (!(await isMarketOpen(context))) {
+      throw new TradeError('MARKET_CLOSED', 'The market is closed between seasons');
+    }
+
+    const meme = await getMeme(memeId, context);
+    if (!meme || meme.delistedAt) {
+      throw new TradeError('MEME_NOT_FOUND', `Meme not found: ${memeId}`);
+    }
+
+    const currentUser = await requireCurrentUser(context);
+    await assertCanTrade(currentUser.id, memeId, context);
+    await enforceTradeRateLimit(currentUser, context);
+    const openOrders = (await getUserOrders(currentUser.id, context)).filter(order => order.status === 'open');
+    if (openOrders.length >= MAX_OPEN_ORDERS_PER_USER) {
+      throw new Error(`You can have at most ${MAX_OPEN_ORDERS_PER_USER} open orders`);
+    }
+
+    const now = Date.now();
+    const order: Order = {
+      id: `order_${now}_${Math.floor(Math.random() * 1000)}`,
+      memeId,
+      userId: currentUser.id,
+      username: currentUser.username,
+      type,
+      shares,
+      triggerPrice,
+      status: 'open',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: expiresInHours ? new Date(now + expiresInHours * 60 * 60 * 1000).toISOString() : null,
+    };
+
+    await redis.set(orderKey(order.id), JSON.stringify(order));
+    await redis.zAdd(bookKey(memeId, type), { member: order.id, score: triggerPrice });
+    await redis.zAdd(userOrdersKey(currentUser.id), { member: order.id, score: now });
+    if (order.expiresAt) {
+      await redis.zAdd(ORDER_EXPIRY_KEY, { member: order.id, score: Date.parse(order.expiresAt) });
+    }
+
+    // The order may already be marketable
+    await matchOrders(memeId, context);
+
+    return (await readOrder(order.id, context))!;
+  } catch (error) {
+    console.error(`Error placing order on meme ${memeId}:`, error);
+    throw error;
+  }
+}
+
+// Cancel one of the current user's open orders
+export async function cancelOrder({ orderId }: { orderId: string }, context: Devvit.Context): Promise<Order> {
+  try {
+    const currentUser = await requireCurrentUser(context);
+    const order = await readOrder(orderId, context);
+    if (!order || order.userId !== currentUser.id) {
+      throw new Error(`Order not found: ${orderId}`);
+    }
+
+    const cancelled = await closeOpenOrder(orderId, { status: 'cancelled', closedAt: new Date().toISOString() }, context);
+    if (!cancelled) {
+      throw new Error('This order is no longer open');
+    }
+
+    return cancelled;
+  } catch (error) {
+    console.error(`Error cancelling order ${orderId}:`, error);
+    throw error;
+  }
+}
+
+// Newest-first orders a user has placed, open and closed
+export async function getUserOrders(
+  userId: string,
+  context: Pick<Devvit.Context, 'redis'>,
+  limit = 100
+): Promise<Order[]> {
+  const { redis } = context;
+
+  const members = await redis.zRange(userOrdersKey(userId), 0, limit - 1, { by: 'rank', reverse: true });
+  if (members.length === 0) return [];
+
+  const orderJsons = await redis.mGet(members.map(({ member }) => orderKey(member)));
+  return orderJsons
+    .filter((orderJson): orderJson is string => !!orderJson)
+    .map(orderJson => JSON.parse(orderJson));
+}
+
+// The current user's orders, optionally only those with a given status
+export async function listMyOrders({ status }: { status?: OrderStatus }, context: Devvit.Context): Promise<Order[]> {
+  try {
+    const currentUser = await requireCurrentUser(context);
+    const orders = await getUserOrders(currentUser.id, context);
+    return status ? orders.filter(order => order.status === status) : orders;
+  } catch (error) {
+    console.error('Error listing orders:', error);
+    return [];
+  }
+}
+
+// Resting limit orders on a meme, aggregated by price. Stop-losses stay private.
+export async function getOrderBook({ memeId }: { memeId: string }, context: Devvit.Context): Promise<OrderBookDepth> {
+  try {
+    const [bids, asks] = await Promise.all([
+      readBookLevels(memeId, 'limit-buy', context),
+      readBookLevels(memeId, 'limit-sell', context),
+    ]);
+
+    // Best bid (highest) and best ask (lowest) first
+    return { bids: bids.reverse(), asks };
+  } catch (error) {
+    console.error(`Error loading order book for meme ${memeId}:`, error);
+    return { bids: [], asks: [] };
+  }
+}
+
+async function readBookLevels(
+  memeId: string,
+  type: OrderType,
+  context: Pick<Devvit.Context, 'redis'>
+): Promise<OrderBookLevel[]> {
+  const { redis } = context;
+
+  const members = await redis.zRange(bookKey(memeId, type), 0, -1, { by: 'rank' });
+  if (members.length === 0) return [];
+
+  const orderJsons = await redis.mGet(members.map(({ member }) => orderKey(member)));
+  const levels = new Map<number, number>();
+  for (const orderJson of orderJsons) {
+    if (!orderJson) continue;
+    const order: Order = JSON.parse(orderJson);
+    levels.set(order.triggerPrice, (levels.get(order.triggerPrice) || 0) + remainingShares(order));
+  }
+
+  return Array.from(levels, ([price, shares]) => ({ price, shares }));
+}
@@ -0,0 +1,33 @@
+import { Devvit, User } from '@devvit/public-api';
+
+// Whether the current user moderates the subreddit the app is running in
+export async function isModerator(context: Devvit.Context): Promise<boolean> {
+  const { reddit } = context;
+
+  const [currentUser, subreddit] = await Promise.all([
+    reddit.getCurrentUser(),
+    reddit.getCurrentSubreddit(),
+  ]);
+  if (!currentUser) return false;
+
+  const moderators = await subreddit.getModerators({ username: currentUser.username }).all();
+  return moderators.length > 0;
+}
+
+// Throw unless the current user is a moderator
+export async function assertModerator(context: Devvit.Context, action: string): Promise<void> {
+  if (!(await isModerator(context))) {
+    throw new Error(`Only moderators can ${action}`);
+  }
+}
+
+// The logged-in user, for actions that only make sense with an account
+export async function requireCurrentUser(context: Devvit.Context): Promise<User> {
+  const { reddit } = context;
+
+  const currentUser = await reddit.getCurrentUser();
+  if (!currentUser) {
+    throw new Error('Log in to use the market');
+  }
+  return currentUser;
+}
@@ -0,0 +1,178 @@
+import { Devvit } from '@devvit/public-api';
+import {
+  getMemes,
+  GrantProceeds,
+  grantProceedsKey,
+  MemeData,
+  Portfolio,
+  positionLots,
+  RealizedPnl,
+  realizedPnlKey,
+} from '../storage/memeRegistry';
+import { claimDailyStipend, ensureWallet, getLedgerEntries, LedgerEntry, LedgerReason, roundCoins } from '../storage/userPortfolios';
+import { requireCurrentUser } from './permissions';
+
+// One meme in a portfolio, valued at the current spot price
+export interface HoldingValuation {
+  meme: MemeData;
+  shares: number;
+  boughtShares: number;
+  // Shares granted to the creator at IPO, which cost nothing
+  grantedShares: number;
+  averageBuyPrice: number;
+  costBasis: number;
+  marketValue: number;
+  // Market value of the granted shares alone
+  grantedValue: number;
+  // Gain on the bought shares only, so grants don't read as trading profit
+  unrealizedPnl: number;
+  realizedPnl: number;
+  // Change since purchase, or null when no shares were bought
+  changePercent: number | null;
+}
+
+export interface CategoryAllocation {
+  category: string;
+  value: number;
+  // Share of the total holdings value
+  percent: number;
+}
+
+export interface PortfolioSummary {
+  userId: string;
+  cash: number;
+  holdingsValue: number;
+  netWorth: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  // Includes memes that have since been sold out of
+  realizedPnl: number;
+  grantedValue: number;
+  // Taken for selling granted creator shares, which is not P&L
+  grantProceeds: number;
+  // Income earned to date from creator royalties and holder dividends
+  royalties: number;
+  dividends: number;
+  holdings: HoldingValuation[];
+  allocation: CategoryAllocation[];
+  valuedAt: string;
+}
+
+// The portfolio view also lists the latest payments behind the income totals
+export interface MyPortfolio extends PortfolioSummary {
+  recentIncome: LedgerEntry[];
+}
+
+// Memes listed without a category are allocated here
+const UNCATEGORIZED = 'uncategorized';
+
+const INCOME_REASONS: LedgerReason[] = ['royalty', 'dividend'];
+
+// Income lines are picked from this many of the latest ledger entries
+const INCOME_SCAN_ENTRIES = 50;
+const RECENT_INCOME_LINES = 3;
+
+// Value a user's holdings and cash at current prices
+export async function valuePortfolio(
+  userId: string,
+  context: Pick<Devvit.Context, 'redis'>
+): Promise<PortfolioSummary> {
+  const { redis } = context;
+
+  const [wallet, portfolioJson, realizedJson, grantedJson] = await Promise.all([
+    ensureWallet(userId, context),
+    redis.get(`portfolio:${userId}`),
+    redis.get(realizedPnlKey(userId)),
+    redis.get(grantProceedsKey(userId)),
+  ]);
+  const portfolio: Portfolio = JSON.parse(portfolioJson || '{}');
+  const realized: RealizedPnl = JSON.parse(realizedJson || '{}');
+  const grantProceeds: GrantProceeds = JSON.parse(grantedJson || '{}');
+
+  // Delisted memes drop out here; their shares no longer have a price
+  const memes = await getMemes(Object.keys(portfolio), context);
+
+  const holdings = memes.map((meme): HoldingValuation => {
+    const position = portfolio[meme.id];
+    const { granted, bought } = positionLots(position);
+    const price = meme.currentSharePrice;
+    const costBasis = roundCoins(bought * position.averageBuyPrice);
+    const boughtValue = roundCoins(bought * price);
+
+    return {
+      meme,
+      shares: position.shares,
+      boughtShares: bought,
+      grantedShares: granted,
+      averageBuyPrice: position.averageBuyPrice,
+      costBasis,
+      marketValue: roundCoins(position.shares * price),
+      grantedValue: roundCoins(granted * price),
+      unrealizedPnl: roundCoins(boughtValue - costBasis),
+      realizedPnl: realized[meme.id] || 0,
+      changePercent: bought > 0 && position.averageBuyPrice > 0
+        ? (price / position.averageBuyPrice - 1) * 100
+        : null,
+    };
+  });
+  holdings.sort((a, b) => b.marketValue - a.marketValue);
+
+  const sum = (pick: (holding: HoldingValuation) => number) =>
+    roundCoins(holdings.reduce((total, holding) => total + pick(holding), 0));
+  const holdingsValue = sum(holding => holding.marketValue);
+
+  // A meme in several categories counts equally towards each of them
+  const byCategory: Record<string, number> = {};
+  for (const holding of holdings) {
+    const { categories: listed } = holding.meme;
+    const categories = listed.length > 0 ? listed : [UNCATEGORIZED];
+    for (const category of categories) {
+      byCategory[category] = (byCategory[category] || 0) + holding.marketValue / categories.length;
+    }
+  }
+  const allocation = Object.entries(byCategory)
+    .map(([category, value]) => ({
+      category,
+      value: roundCoins(value),
+      percent: holdingsValue > 0 ? (value / holdingsValue) * 100 : 0,
+    }))
+    .sort((a, b) => b.value - a.value);
+
+  return {
+    userId,
+    cash: wallet.balance,
+    holdingsValue,
+    netWorth: roundCoins(wallet.balance + holdingsValue),
+    costBasis: sum(holding => holding.costBasis),
+    unrealizedPnl: sum(holding => holding.unrealizedPnl),
+    realizedPnl: roundCoins(Object.values(realized).reduce((total, pnl) => total + pnl, 0)),
+    grantedValue: sum(holding => holding.grantedValue),
+    grantProceeds: roundCoins(Object.values(grantProceeds).reduce((total, proceeds) => total + proceeds, 0)),
+    royalties: wallet.royalties || 0,
+    dividends: wallet.dividends || 0,
+    holdings,
+    allocation,
+    valuedAt: new Date().toISOString(),
+  };
+}
+
+// The current user's portfolio, valued at current prices. Opening it pays
+// out any daily stipend that has come due.
+export async function getMyPortfolio(_args: Record<string, never>, context: Devvit.Context): Promise<MyPortfolio> {
+  try {
+    const currentUser = await requireCurrentUser(context);
+    await claimDailyStipend(currentUser.id, context);
+    const [summary, entries] = await Promise.all([
+      valuePortfolio(currentUser.id, context),
+      getLedgerEntries(currentUser.id, context, INCOME_SCAN_ENTRIES),
+    ]);
+
+    return {
+      ...summary,
+      recentIncome: entries.filter(entry => INCOME_REASONS.includes(entry.reason)).slice(0, RECENT_INCOME_LINES),
+    };
+  } catch (error) {
+    console.error('Error loading portfolio:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,110 @@
+import { Devvit } from '@devvit/public-api';
+import { MemeData } from '../storage/memeRegistry';
+import { getPricingSettings } from './settings';
+
+// Tunables shared by every model; moderators set them in the app settings
+export interface PricingParams {
+  // Sensitivity lost per day of age, down to a 10% minimum
+  volatilityDecayPerDay: number;
+  // Upper bound on how much trade volume amplifies a move
+  volumeFactorCap: number;
+  // Largest fractional move allowed in one tick, up or down
+  circuitBreaker: number;
+  // Lowest price a share can fall to
+  priceFloor: number;
+}
+
+export const DEFAULT_PRICING_PARAMS: PricingParams = {
+  volatilityDecayPerDay: 0.1,
+  volumeFactorCap: 2,
+  circuitBreaker: 0.3,
+  priceFloor: 0.1,
+};
+
+// What a model sees for one tick: the meme as it stood before the tick and
+// the freshly measured engagement score
+export interface PricingInput {
+  meme: MemeData;
+  engagementScore: number;
+  now: number;
+}
+
+export interface PricingModel {
+  id: string;
+  label: string;
+  // Fractional price change for the tick, e.g. 0.05 for +5%
+  priceChange(input: PricingInput, params: PricingParams): number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Young memes move more than old ones
+function volatilityFactor(meme: MemeData, params: PricingParams, now: number): number {
+  const ageInDays = (now - Date.parse(meme.createdAt)) / DAY_MS;
+  return Math.max(0.1, 1 - ageInDays * params.volatilityDecayPerDay);
+}
+
+// Heavily traded memes move more than quiet ones
+function volumeFactor(meme: MemeData, params: PricingParams): number {
+  return Math.min(params.volumeFactorCap, 1 + meme.tradeVolume / 1000);
+}
+
+// Limit extreme changes to prevent market manipulation
+function applyCircuitBreaker(change: number, params: PricingParams): number {
+  return Math.max(-params.circuitBreaker, Math.min(params.circuitBreaker, change));
+}
+
+// The original formula: price follows the percentage change in engagement
+export const engagementModel: PricingModel = {
+  id: 'engagement',
+  label: 'Engagement change',
+  priceChange({ meme, engagementScore, now }, params) {
+    const prevEngagementScore = meme.engagementScore || 10;
+    const scoreChangePercent = (engagementScore - prevEngagementScore) / prevEngagementScore;
+    const rawPriceChange = scoreChangePercent * volatilityFactor(meme, params, now) * volumeFactor(meme, params);
+    return applyCircuitBreaker(rawPriceChange, params);
+  },
+};
+
+// Compares engagement on a log scale, so a post jumping from 10 to 1000 karma
+// is a few big ticks rather than one capped spike followed by flat prices
+export const logEngagementModel: PricingModel = {
+  id: 'log-engagement',
+  label: 'Log engagement',
+  priceChange({ meme, engagementScore, now }, params) {
+    const prevEngagementScore = meme.engagementScore || 10;
+    const logChange = Math.log1p(engagementScore) - Math.log1p(prevEngagementScore);
+    const rawPriceChange = logChange * volatilityFactor(meme, params, now) * volumeFactor(meme, params);
+    return applyCircuitBreaker(rawPriceChange, params);
+  },
+};
+
+export const PRICING_MODELS: Record<string, PricingModel> = {
+  [engagementModel.id]: engagementModel,
+  [logEngagementModel.id]: logEngagementModel,
+};
+
+export function getPricingModel(modelId: string): PricingModel {
+  return PRICING_MODELS[modelId] || engagementModel;
+}
+
+export function applyPriceChange(price: number, change: number, params: PricingParams): number {
+  return Math.max(params.priceFloor, price * (1 + change));
+}
+
+// The model and parameters moderators have configured for this subreddit
+export async function loadPricingConfig(
+  context: Pick<Devvit.Context, 'settings'>
+): Promise<{ model: PricingModel; params: PricingParams }> {
+  const settings = await getPricingSettings(context);
+
+  return {
+    model: getPricingModel(settings.modelId),
+    params: {
+      volatilityDecayPerDay: settings.volatilityDecayPerDay,
+      volumeFactorCap: settings.volumeFactorCap,
+      circuitBreaker: settings.circuitBreakerPercent / 100,
+      priceFloor: settings.priceFloor,
+    },
+  };
+}
@@ -0,0 +1,347 @@
+import { Devvit, TxClientLike, User } from '@devvit/public-api';
+import { assertModerator, requireCurrentUser } from './permissions';
+import { getSafeguardSettings, SafeguardSettings } from './settings';
+import { readRecentTrades, TradeError, TradeRecord, TradeSide } from './tradingEngine';
+import { closeFlag, countOpenFlags, FlagKind, getFlag, getFlags, readOpenFlagIds, recordFlag, SuspicionFlag } from '../storage/flags';
+import { getMeme, getMemes, MemeData } from '../storage/memeRegistry';
+
+// Round trips and mirrored trades are looked for among this many of a meme's
+// latest trades
+const RECENT_TRADE_SCAN = 20;
+
+// How many open flags the review picker offers at once
+const PICKER_LIMIT = 20;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const FLAG_LABELS: Record<FlagKind, string> = {
+  'round-trip': 'Round trip',
+  'mirrored-trades': 'Mirrored trades',
+  'volume-cap': 'Volume over cap',
+  'karma-spike': 'Karma spike',
+};
+
+// Something a trade or tick did that mods should see
+export interface Incident {
+  kind: FlagKind;
+  userIds: string[];
+  note: string;
+  references: string[];
+}
+
+// How much of a trade's volume counts towards the meme's engagement
+export interface VolumeAssessment {
+  countedShares: number;
+  incident: Incident | null;
+}
+
+// Shares of a meme each trader has counted towards its engagement today,
+// keyed by user ID
+function countedVolumeKey(memeId: string, time: number): string {
+  return `volume:counted:${memeId}:${new Date(time).toISOString().slice(0, 10)}`;
+}
+
+function rateLimitKey(userId: string, time: number): string {
+  return `ratelimit:trades:${userId}:${Math.floor(time / HOUR_MS)}`;
+}
+
+// Whether two traders already matched each other's trades with the same
+// share count among `trades`
+function hasMirroredBefore(trades: TradeRecord[], userId: string, otherUserId: string): boolean {
+  return trades.some(trade => trade.userId === userId && trades.some(other =>
+    other.userId === otherUserId && other.side !== trade.side && other.shares === trade.shares
+  ));
+}
+
+function minutesBetween(from: string, to: number): number {
+  return Math.max(0, Math.round((to - Date.parse(from)) / 60000));
+}
+
+// Young and low karma accounts, the likeliest alts, only get a few trades an
+// hour. Throws once the user has used up their limit. Only filled trades use
+// it up; see queueFilledTrade.
+export async function enforceTradeRateLimit(
+  user: User,
+  context: Pick<Devvit.Context, 'redis' | 'settings'>
+): Promise<void> {
+  const { redis } = context;
+  const settings = await getSafeguardSettings(context);
+
+  const ageDays = (Date.now() - user.createdAt.getTime()) / DAY_MS;
+  const karma = user.linkKarma + user.commentKarma;
+  if (ageDays >= settings.minAccountAgeDays && karma >= settings.minAccountKarma) {
+    return;
+  }
+
+  const count = Number(await redis.get(rateLimitKey(user.id, Date.now())) ?? 0);
+  if (count >= settings.limitedTradesPerHour) {
+    throw new TradeError(
+      'RATE_LIMITED',
+      `New and low karma accounts can make ${settings.limitedTradesPerHour} trades an hour. Try again later.`
+    );
+  }
+}
+
+// Queue a filled trade against the trader's hourly rate limit. Every trader
+// is counted; the limit only applies to young and low karma accounts.
+export async function queueFilledTrade(txn: TxClientLike, userId: string): Promise<void> {
+  const key = rateLimitKey(userId, Date.now());
+  await txn.incrBy(key, 1);
+  await txn.expire(key, HOUR_MS / 1000);
+}
+
+// The most shares of a meme one trader may hold
+export function positionCap(meme: MemeData, settings: SafeguardSettings): number {
+  return Math.floor((meme.totalShares * settings.maxPositionPercent) / 100);
+}
+
+// Decide how much of a trade's volume should feed the meme's engagement.
+// Reversing your own trade inside the window counts for nothing, as does
+// mirroring the same trader again after already having done so once. Each
+// trader only counts so many shares a day.
+export async function assessTradeVolume(
+  userId: string,
+  memeId: string,
+  side: TradeSide,
+  shares: number,
+  settings: SafeguardSettings,
+  context: Pick<Devvit.Context, 'redis'>
+): Promise<VolumeAssessment> {
+  const { redis } = context;
+  const now = Date.now();
+
+  const recent = (await readRecentTrades(memeId, RECENT_TRADE_SCAN, context))
+    .filter(trade => now - Date.parse(trade.timestamp) <= settings.roundTripWindowMs);
+  const opposite = recent.filter(trade => trade.side !== side);
+
+  const reversed = opposite.find(trade => trade.userId === userId);
+  if (reversed) {
+    return {
+      countedShares: 0,
+      incident: {
+        kind: 'round-trip',
+        userIds: [userId],
+        note: `${side === 'buy' ? 'Bought' : 'Sold'} ${shares} shares ${minutesBetween(reversed.timestamp, now)} minutes after ${reversed.side === 'buy' ? 'buying' : 'selling'} ${reversed.shares}`,
+        references: [reversed.id],
+      },
+    };
+  }
+
+  // Two strangers trading the same round number is common, so one match
+  // proves nothing; the same two accounts matching again is a wash trade
+  const mirrored = opposite.find(trade =>
+    trade.shares === shares && hasMirroredBefore(recent, userId, trade.userId)
+  );
+  if (mirrored) {
+    return {
+      countedShares: 0,
+      incident: {
+        kind: 'mirrored-trades',
+        userIds: [userId, mirrored.userId],
+        note: `${side === 'buy' ? 'Bought' : 'Sold'} ${shares} shares ${minutesBetween(mirrored.timestamp, now)} minutes after the same trader ${mirrored.side === 'buy' ? 'bought' : 'sold'} the same amount, matching them again`,
+        references: [mirrored.id],
+      },
+    };
+  }
+
+  const countedToday = Number(await redis.hGet(countedVolumeKey(memeId, now), userId) ?? 0);
+  const allowance = Math.max(0, settings.countedVolumePerDay - countedToday);
+  if (shares > allowance) {
+    return {
+      countedShares: allowance,
+      incident: {
+        kind: 'volume-cap',
+        userIds: [userId],
+        note: `Traded ${shares} shares with ${allowance} left of the ${settings.countedVolumePerDay} that count each day`,
+        references: [],
+      },
+    };
+  }
+
+  return { countedShares: shares, incident: null };
+}
+
+// Queue a trade's counted volume against the trader's daily allowance
+export async function queueCountedVolume(
+  txn: TxClientLike,
+  memeId: string,
+  userId: string,
+  countedShares: number
+): Promise<void> {
+  if (countedShares <= 0) return;
+
+  const key = countedVolumeKey(memeId, Date.now());
+  await txn.hIncrBy(key, userId, countedShares);
+  await txn.expire(key, (2 * DAY_MS) / 1000);
+}
+
+// How much of a post's karma counts towards its meme's engagement. Gains past
+// the per-tick cap are held back, so a brigade can only move the price slowly,
+// and raise an incident.
+export function countPostKarma(
+  meme: MemeData,
+  postScore: number,
+  settings: SafeguardSettings
+): { countedKarma: number; incident: Incident | null } {
+  // Memes valued before karma was capped start from their current score
+  const previous = meme.countedKarma ?? postScore;
+  const countedKarma = Math.min(postScore, previous + settings.karmaGainPerTick);
+
+  if (postScore - previous <= settings.karmaGainPerTick) {
+    return { countedKarma, incident: null };
+  }
+
+  return {
+    countedKarma,
+    incident: {
+      kind: 'karma-spike',
+      userIds: [],
+      note: `Post score went from ${previous} to ${postScore} in one tick; ${countedKarma} counted`,
+      references: meme.postId ? [meme.postId] : [],
+    },
+  };
+}
+
+// File an incident in the review queue. Flagging must never break the trade
+// or tick that found it, so failures are only logged.
+export async function flagIncident(memeId: string, incident: Incident, context: Pick<Devvit.Context, 'redis'>): Promise<void> {
+  try {
+    await recordFlag({ memeId, ...incident }, context);
+  } catch (error) {
+    console.error(`Error flagging ${incident.kind} on meme ${memeId}:`, error);
+  }
+}
+
+// Close a flag after review. Upholding only records the finding; penalties
+// are up to the mod.
+export async function reviewFlag(
+  { flagId, decision, note }: { flagId: string; decision: 'dismissed' | 'upheld'; note?: string },
+  context: Devvit.Context
+): Promise<SuspicionFlag> {
+  try {
+    await assertModerator(context, 'review flagged activity');
+    const reviewer = await requireCurrentUser(context);
+    return await closeFlag(flagId, decision, { reviewerName: reviewer.username, note }, context);
+  } catch (error) {
+    console.error(`Error reviewing flag ${flagId}:`, error);
+    throw error;
+  }
+}
+
+async function usernameFor(userId: string, context: Devvit.Context): Promise<string> {
+  const { reddit } = context;
+  try {
+    const user = await reddit.getUserById(userId);
+    return user ? `u/${user.username}` : '[deleted]';
+  } catch (error) {
+    console.error(`Error looking up user ${userId}:`, error);
+    return userId;
+  }
+}
+
+function flagLabel(flag: SuspicionFlag, memes: MemeData[]): string {
+  const title = memes.find(meme => meme.id === flag.memeId)?.title ?? flag.memeId;
+  const incidents = flag.evidence.length === 1 ? '1 incident' : `${flag.evidence.length} incidents`;
+  return `${FLAG_LABELS[flag.kind]} on ${title} · ${incidents}`;
+}
+
+const reviewFlagForm = Devvit.createForm(
+  (data) => ({
+    title: data.title,
+    description: data.involved,
+    fields: [
+      { type: 'string', name: 'flagId', label: 'Flag', defaultValue: data.flagId, disabled: true },
+      { type: 'paragraph', name: 'evidence', label: 'Evidence', defaultValue: data.evidence, disabled: true },
+      {
+        type: 'select',
+        name: 'decision',
+        label: 'Decision',
+        options: [
+          { label: 'Uphold: this was manipulation', value: 'upheld' },
+          { label: 'Dismiss: nothing wrong here', value: 'dismissed' },
+        ],
+        defaultValue: ['upheld'],
+        required: true,
+      },
+      { type: 'paragraph', name: 'note', label: 'Note', helpText: 'Kept with the flag for other mods' },
+    ],
+    acceptLabel: 'Close flag',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    try {
+      const flag = await reviewFlag({
+        flagId: values.flagId!,
+        decision: values.decision[0] as 'dismissed' | 'upheld',
+        note: values.note?.trim() || undefined,
+      }, context);
+      ui.showToast(`Flag ${flag.status}`);
+    } catch (error) {
+      console.error('Error closing flag:', error);
+      ui.showToast(error instanceof Error ? error.message : 'Could not close this flag');
+    }
+  }
+);
+
+const chooseFlagForm = Devvit.createForm(
+  (data) => ({
+    title: 'Review suspicious activity',
+    description: `${data.count} open flags, oldest first.`,
+    fields: [
+      {
+        type: 'select',
+        name: 'flagId',
+        label: 'Flag',
+        options: data.flags,
+        required: true,
+      },
+    ],
+    acceptLabel: 'Review',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    const flag = await getFlag(values.flagId[0], context);
+    if (!flag || flag.status !== 'open') {
+      ui.showToast('That flag was already reviewed');
+      return;
+    }
+
+    const meme = await getMeme(flag.memeId, context);
+    const usernames = await Promise.all(flag.userIds.map(userId => usernameFor(userId, context)));
+
+    ui.showForm(reviewFlagForm, {
+      flagId: flag.id,
+      title: `${FLAG_LABELS[flag.kind]} on ${meme?.title ?? flag.memeId}`,
+      involved: usernames.length > 0
+        ? `Involves ${usernames.join(' and ')}. First raised ${new Date(flag.createdAt).toUTCString()}.`
+        : `First raised ${new Date(flag.createdAt).toUTCString()}.`,
+      evidence: flag.evidence
+        .map(item => `${item.at.slice(0, 16).replace('T', ' ')} ${item.note}${item.references.length > 0 ? ` [${item.references.join(', ')}]` : ''}`)
+        .join('\n'),
+    });
+  }
+);
+
+Devvit.addMenuItem({
+  label: 'Review suspicious activity',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (_event, context) => {
+    const { ui } = context;
+
+    const flags = await getFlags(await readOpenFlagIds(context, 0, PICKER_LIMIT), context);
+    if (flags.length === 0) {
+      ui.showToast('No suspicious activity is waiting for review');
+      return;
+    }
+
+    const memes = await getMemes(Array.from(new Set(flags.map(flag => flag.memeId))), context);
+    ui.showForm(chooseFlagForm, {
+      count: await countOpenFlags(context),
+      flags: flags.map(flag => ({ label: flagLabel(flag, memes), value: flag.id })),
+    });
+  },
+});
@@ -0,0 +1,266 @@
+import { Devvit, JobContext } from '@devvit/public-api';
+import { updateMemeValuation } from './memeEngine';
+import { rankTraders } from './leaderboards';
+import { expireOrders, recoverStaleOrders } from './orderBook';
+import { advanceSeason } from './seasons';
+import { scheduleMarketReport } from '../posts/marketReport';
+import { getMemes, migrateHolderIndex, migrateLegacyMemeIndex, pruneMissingMeme, readMemeIndex } from '../storage/memeRegistry';
+import { getMarketParameters } from '../storage/marketControls';
+import { isMarketOpen } from '../storage/seasonRegistry';
+import { seedTemplateLibrary } from '../storage/templateRegistry';
+import { readTraderIds } from '../storage/userPortfolios';
+
+// A single cron job revalues the whole market once per interval. Mods set
+// the interval in the market control panel.
+export const MARKET_TICK_JOB = 'marketTick';
+
+// Per-meme jobs scheduled by older versions of the app
+const LEGACY_VALUATION_JOB = 'updateMemeValuation';
+
+// A pass revalues every meme, then reranks every trader at the new prices.
+// Both phases work in batches. When a run goes over its time budget it saves
+// its position and hands the rest of the pass to a follow-up run. Revaluing
+// one meme can take a while, so the budget is checked before each meme.
+const TICK_BATCH_SIZE = 25;
+const TICK_TIME_BUDGET_MS = 25 * 1000;
+
+// Held while a tick runs; expires on its own if a run dies mid-pass. The
+// lock is extended before each batch, so a slow batch can't outlive it.
+const TICK_LOCK_KEY = 'market:tick_lock';
+const TICK_LOCK_TTL_MS = 2 * TICK_TIME_BUDGET_MS;
+
+const TICK_STATE_KEY = 'market:tick';
+
+export interface MarketTickState {
+  // When the last complete pass over the market finished
+  lastTickAt: string | null;
+  // When the pass in progress began, or null between passes
+  startedAt: string | null;
+  // Which half of the pass is in progress
+  phase: 'memes' | 'leaderboards';
+  // Index position the current phase has reached
+  cursor: number;
+  // Running count of intervals that passed without a tick
+  missedTicks: number;
+}
+
+// Intervals under an hour run every N minutes, longer ones on the hour
+function tickCron(intervalMinutes: number): string {
+  return intervalMinutes < 60
+    ? `*/${intervalMinutes} * * * *`
+    : `0 */${Math.round(intervalMinutes / 60)} * * *`;
+}
+
+export async function getMarketTickState(context: Pick<Devvit.Context, 'redis'>): Promise<MarketTickState> {
+  const { redis } = context;
+  const stateJson = await redis.get(TICK_STATE_KEY);
+  const initial: MarketTickState = { lastTickAt: null, startedAt: null, phase: 'memes', cursor: 0, missedTicks: 0 };
+  return stateJson ? { ...initial, ...JSON.parse(stateJson) } : initial;
+}
+
+// Revalue the next batch of memes, stopping early once the run's time is up.
+// Returns true once every meme is done.
+async function runValuationBatch(state: MarketTickState, deadline: number, context: JobContext): Promise<boolean> {
+  const memeIds = await readMemeIndex('created', context, {
+    offset: state.cursor,
+    count: TICK_BATCH_SIZE,
+    ascending: true,
+  });
+  const memes = await getMemes(memeIds, context);
+
+  for (const memeId of memeIds) {
+    if (Date.now() > deadline) return false;
+
+    // Deleted memes drop out of the index, which shifts later ranks down,
+    // so the cursor only moves past memes that are still there
+    if (!memes.some(meme => meme.id === memeId)) {
+      await pruneMissingMeme(memeId, context);
+      continue;
+    }
+
+    try {
+      await updateMemeValuation(memeId, context);
+    } catch (error) {
+      // One bad meme shouldn't hold up the rest of the market
+      console.error(`Market tick skipped meme ${memeId}:`, error);
+    }
+    state.cursor++;
+  }
+
+  return memeIds.length < TICK_BATCH_SIZE;
+}
+
+// Keep holding the tick lock for another full TTL. Returns false if the lock
+// has expired and passed to another run.
+async function extendTickLock(lockId: string, context: Pick<Devvit.Context, 'redis'>): Promise<boolean> {
+  const { redis } = context;
+
+  if ((await redis.get(TICK_LOCK_KEY)) !== lockId) return false;
+  await redis.expire(TICK_LOCK_KEY, TICK_LOCK_TTL_MS / 1000);
+  return true;
+}
+
+// Rerank the next batch of traders. Returns true once every trader is done.
+async function runLeaderboardBatch(state: MarketTickState, context: JobContext): Promise<boolean> {
+  const userIds = await readTraderIds(context, state.cursor, TICK_BATCH_SIZE);
+
+  await rankTraders(userIds, context);
+  state.cursor += userIds.length;
+
+  return userIds.length < TICK_BATCH_SIZE;
+}
+
+// Revalue every listed meme, resuming an unfinished pass if there is one
+export async function runMarketTick(context: JobContext): Promise<void> {
+  const { redis, scheduler } = context;
+  const runStartedAt = Date.now();
+
+  const lockId = `tick_${runStartedAt}_${Math.floor(Math.random() * 1000)}`;
+  const locked = await redis.set(TICK_LOCK_KEY, lockId, {
+    nx: true,
+    expiration: new Date(runStartedAt + TICK_LOCK_TTL_MS),
+  });
+  if (!locked) {
+    console.log('Market tick already running, skipping');
+    return;
+  }
+
+  try {
+    const state = await getMarketTickState(context);
+
+    // Prices stay frozen while trading is paused between seasons
+    await advanceSeason(context);
+    if (!(await isMarketOpen(context))) {
+      console.log('Market closed, skipping tick');
+      if (state.startedAt) {
+        await redis.set(TICK_STATE_KEY, JSON.stringify({ ...state, startedAt: null, phase: 'memes', cursor: 0 }));
+      }
+      return;
+    }
+
+    // Start a new pass, noting any intervals that went by without one. A
+    // single pass prices everything from current engagement, so it covers
+    // every missed interval at once.
+    if (!state.startedAt) {
+      if (state.lastTickAt) {
+        const { tickIntervalMinutes } = await getMarketParameters(context);
+        const missed = Math.floor((runStartedAt - Date.parse(state.lastTickAt)) / (tickIntervalMinutes * 60000)) - 1;
+        if (missed > 0) {
+          console.log(`Catching up on ${missed} missed market ticks`);
+          state.missedTicks += missed;
+        }
+      }
+      state.startedAt = new Date(runStartedAt).toISOString();
+      state.phase = 'memes';
+      state.cursor = 0;
+
+      const expired = await expireOrders(context);
+      if (expired > 0) {
+        console.log(`Expired ${expired} resting orders`);
+      }
+      const recovered = await recoverStaleOrders(context);
+      if (recovered > 0) {
+        console.log(`Recovered ${recovered} orders left mid-fill`);
+      }
+    }
+
+    const deadline = runStartedAt + TICK_TIME_BUDGET_MS;
+    while (true) {
+      if (!(await extendTickLock(lockId, context))) {
+        console.log('Market tick lock lost, leaving the pass to the run that holds it');
+        return;
+      }
+
+      const phaseDone = state.phase === 'memes'
+        ? await runValuationBatch(state, deadline, context)
+        : await runLeaderboardBatch(state, context);
+
+      if (phaseDone && state.phase === 'memes') {
+        state.phase = 'leaderboards';
+        state.cursor = 0;
+      } else if (phaseDone) {
+        state.lastTickAt = new Date().toISOString();
+        state.startedAt = null;
+        state.phase = 'memes';
+        state.cursor = 0;
+        await redis.set(TICK_STATE_KEY, JSON.stringify(state));
+        return;
+      }
+
+      await redis.set(TICK_STATE_KEY, JSON.stringify(state));
+
+      if (Date.now() > deadline) {
+        await scheduler.runJob({ name: MARKET_TICK_JOB, runAt: new Date(Date.now() + 1000) });
+        return;
+      }
+    }
+  } finally {
+    if ((await redis.get(TICK_LOCK_KEY)) === lockId) {
+      await redis.del(TICK_LOCK_KEY);
+    }
+  }
+}
+
+// Replace whatever market jobs are scheduled with the single cron tick, at
+// the current tick interval
+export async function scheduleMarketTick(context: Pick<JobContext, 'redis' | 'scheduler'>): Promise<void> {
+  const { scheduler } = context;
+  const { tickIntervalMinutes } = await getMarketParameters(context);
+
+  const jobs = await scheduler.listJobs();
+  for (const job of jobs) {
+    if (job.name === MARKET_TICK_JOB || job.name === LEGACY_VALUATION_JOB) {
+      await scheduler.cancelJob(job.id);
+    }
+  }
+
+  await scheduler.runJob({ name: MARKET_TICK_JOB, cron: tickCron(tickIntervalMinutes) });
+}
+
+Devvit.addSchedulerJob({
+  name: MARKET_TICK_JOB,
+  onRun: async (_event, context) => {
+    try {
+      await runMarketTick(context);
+    } catch (error) {
+      console.error('Error running market tick:', error);
+    }
+  },
+});
+
+// Set up the market on install, and migrate it when an existing install upgrades
+Devvit.addTrigger({
+  events: ['AppInstall', 'AppUpgrade'],
+  onEvent: async (_event, context) => {
+    const { scheduler } = context;
+
+    try {
+      const migrated = await migrateLegacyMemeIndex(context);
+      if (migrated > 0) {
+        console.log(`Migrated ${migrated} memes to sorted-set indexes`);
+      }
+
+      const traders = await migrateHolderIndex(context);
+      if (traders > 0) {
+        console.log(`Indexed the holdings of ${traders} traders and creators`);
+      }
+
+      const counted = await seedTemplateLibrary(context);
+      if (counted > 0) {
+        console.log(`Counted ${counted} listed memes towards their templates`);
+      }
+
+      await scheduleMarketTick(context);
+      await scheduleMarketReport(context);
+
+      // Run straight away if the market went unpriced while the app was down
+      const { lastTickAt } = await getMarketTickState(context);
+      const { tickIntervalMinutes } = await getMarketParameters(context);
+      if (lastTickAt && Date.now() - Date.parse(lastTickAt) > tickIntervalMinutes * 60000) {
+        await scheduler.runJob({ name: MARKET_TICK_JOB, runAt: new Date() });
+      }
+    } catch (error) {
+      console.error('Error setting up the market:', error);
+    }
+  },
+});
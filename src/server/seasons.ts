@@ -0,0 +1,464 @@
+import { Devvit, JobContext } from '@devvit/public-api';
+import {
+  clearNetWorthHistory,
+  LEADERBOARDS,
+  LeaderboardEntry,
+  LeaderboardId,
+  readLeaderboard,
+  resetLeaderboards,
+  resolveLeaderboardEntries,
+} from './leaderboards';
+import { cancelUserOrders } from './orderBook';
+import { assertModerator } from './permissions';
+import { getSeasonSettings, SeasonMemePolicy } from './settings';
+import {
+  CREATOR_SHARES,
+  getMemes,
+  getMemeSortScore,
+  grantProceedsKey,
+  indexHolding,
+  indexMeme,
+  Portfolio,
+  pruneMissingMeme,
+  readCreatorMemeIds,
+  readMemeIndex,
+  realizedPnlKey,
+  unindexMeme,
+} from '../storage/memeRegistry';
+import {
+  ClosingPrice,
+  closingPricesKey,
+  CURRENT_SEASON_KEY,
+  getClosingPrices,
+  getCurrentSeason,
+  getNextSeason,
+  getSeasonArchive,
+  listArchivedSeasons,
+  NEXT_SEASON_KEY,
+  saveSeasonArchive,
+  Season,
+  SeasonArchive,
+} from '../storage/seasonRegistry';
+import { readTraderIds, resetWallet } from '../storage/userPortfolios';
+
+export const SEASON_ROLLOVER_JOB = 'seasonRollover';
+
+// Ending a season touches every meme and every trader, so like the market
+// tick it works in batches and hands over to a follow-up run when it goes
+// over its time budget
+const ROLLOVER_BATCH_SIZE = 25;
+const ROLLOVER_TIME_BUDGET_MS = 25 * 1000;
+
+// Held while a rollover runs; expires on its own if a run dies mid-way
+const ROLLOVER_LOCK_KEY = 'season:rollover_lock';
+const ROLLOVER_LOCK_TTL_MS = 2 * ROLLOVER_TIME_BUDGET_MS;
+
+const ROLLOVER_STATE_KEY = 'season:rollover';
+
+// How many entries of each leaderboard are kept in the archive
+const ARCHIVED_LEADERBOARD_SIZE = 25;
+
+interface RolloverState {
+  seasonId: string;
+  // Fixed when the season ends, so a settings change can't split the rollover
+  memePolicy: SeasonMemePolicy;
+  // Standings are archived first, then memes are closed, then traders reset
+  phase: 'standings' | 'memes' | 'traders';
+  cursor: number;
+}
+
+export interface SeasonOverview {
+  current: Season | null;
+  next: Season | null;
+  past: Season[];
+}
+
+export interface SeasonDetails {
+  archive: SeasonArchive;
+  closingPrices: ClosingPrice[];
+}
+
+// Form dates are whole days, taken as midnight UTC
+function parseSeasonDate(value: string, label: string): number {
+  const time = /^\d{4}-\d{2}-\d{2}$/.test(value) ? Date.parse(`${value}T00:00:00Z`) : NaN;
+  if (Number.isNaN(time)) {
+    throw new Error(`${label} must be a date like 2025-01-31`);
+  }
+  return time;
+}
+
+// Line up a season. With none in progress it becomes the current season;
+// otherwise it follows the current one, replacing any already lined up.
+export async function scheduleSeason(
+  { name, startDate, endDate }: { name?: string; startDate: string; endDate: string },
+  context: JobContext
+): Promise<Season> {
+  const { redis } = context;
+
+  const startsAt = parseSeasonDate(startDate, 'Start date');
+  const endsAt = parseSeasonDate(endDate, 'End date');
+  if (endsAt <= startsAt) {
+    throw new Error('A season must end after it starts');
+  }
+
+  const current = await getCurrentSeason(context);
+  const follows = current && current.status !== 'scheduled';
+  if (follows && startsAt < Date.parse(current.endsAt)) {
+    throw new Error(`The next season can't start before ${current.name} ends`);
+  }
+
+  // A season that hasn't started yet is rescheduled in place
+  let number: number;
+  if (current && !follows) {
+    number = current.number;
+  } else if (current) {
+    number = current.number + 1;
+  } else {
+    const [latest] = await listArchivedSeasons(context);
+    number = latest ? latest.number + 1 : 1;
+  }
+
+  const season: Season = {
+    id: `season_${number}`,
+    number,
+    name: name?.trim() || `Season ${number}`,
+    startsAt: new Date(startsAt).toISOString(),
+    endsAt: new Date(endsAt).toISOString(),
+    status: 'scheduled',
+  };
+
+  if (follows) {
+    await redis.set(NEXT_SEASON_KEY, JSON.stringify(season));
+  } else {
+    await redis.set(CURRENT_SEASON_KEY, JSON.stringify(season));
+    await advanceSeason(context);
+  }
+
+  return season;
+}
+
+// Start a scheduled season once its start date passes, and close the current
+// one once its end date passes. Runs at the top of every market tick.
+export async function advanceSeason(context: JobContext): Promise<void> {
+  const { redis, scheduler } = context;
+
+  const season = await getCurrentSeason(context);
+  if (!season) return;
+  const now = Date.now();
+
+  if (season.status === 'scheduled' && now >= Date.parse(season.startsAt)) {
+    // Returns are measured from the start of the season
+    await resetLeaderboards(context);
+    await redis.set(CURRENT_SEASON_KEY, JSON.stringify({ ...season, status: 'active' }));
+    console.log(`${season.name} has started`);
+    return;
+  }
+
+  if (season.status === 'active' && now >= Date.parse(season.endsAt)) {
+    const { memePolicy } = await getSeasonSettings(context);
+    const state: RolloverState = { seasonId: season.id, memePolicy, phase: 'standings', cursor: 0 };
+    season.status = 'closing';
+    await redis.set(CURRENT_SEASON_KEY, JSON.stringify(season));
+    await redis.set(ROLLOVER_STATE_KEY, JSON.stringify(state));
+    console.log(`${season.name} has ended, closing the market`);
+  }
+
+  // Also picks up a rollover whose run died part way through
+  if (season.status === 'closing') {
+    await scheduler.runJob({ name: SEASON_ROLLOVER_JOB, runAt: new Date() });
+  }
+}
+
+// Archive the final standings and award flair to the richest traders
+async function archiveStandings(season: Season, memePolicy: SeasonMemePolicy, winnerCount: number, context: JobContext) {
+  const { reddit } = context;
+
+  const leaderboards = {} as Record<LeaderboardId, LeaderboardEntry[]>;
+  for (const board of Object.keys(LEADERBOARDS) as LeaderboardId[]) {
+    const rows = await readLeaderboard(board, context, ARCHIVED_LEADERBOARD_SIZE);
+    leaderboards[board] = await resolveLeaderboardEntries(rows, context);
+  }
+
+  const winners = leaderboards['net-worth']
+    .filter(entry => entry.username !== '[deleted]')
+    .slice(0, winnerCount);
+
+  if (winners.length > 0) {
+    const subreddit = await reddit.getCurrentSubreddit();
+    for (const winner of winners) {
+      try {
+        await reddit.setUserFlair({
+          subredditName: subreddit.name,
+          username: winner.username,
+          text: `🏆 ${season.name} #${winner.rank}`,
+        });
+      } catch (error) {
+        console.error(`Error awarding season flair to u/${winner.username}:`, error);
+      }
+    }
+  }
+
+  await saveSeasonArchive({ season, memePolicy, leaderboards, winners }, context);
+}
+
+// Record the closing price of the next batch of memes, then delist them or
+// return their float for the next season. Returns true once every meme is done.
+async function closeMemeBatch(
+  season: Season,
+  memePolicy: SeasonMemePolicy,
+  state: RolloverState,
+  context: JobContext
+): Promise<boolean> {
+  const { redis } = context;
+
+  // Delisted memes leave the index, so that pass always reads from the top
+  const memeIds = await readMemeIndex('created', context, {
+    offset: memePolicy === 'delist' ? 0 : state.cursor,
+    count: ROLLOVER_BATCH_SIZE,
+    ascending: true,
+  });
+  const memes = await getMemes(memeIds, context);
+
+  for (const meme of memes) {
+    const closing: ClosingPrice = {
+      memeId: meme.id,
+      title: meme.title,
+      creatorName: meme.creatorName,
+      closingPrice: meme.currentSharePrice,
+      marketCap: getMemeSortScore(meme, 'marketCap'),
+    };
+    await redis.hSet(closingPricesKey(season.id), { [meme.id]: JSON.stringify(closing) });
+
+    if (memePolicy === 'delist') {
+      meme.delistedAt = new Date().toISOString();
+      await redis.set(`memes:${meme.id}`, JSON.stringify(meme));
+      await unindexMeme(meme, context);
+    } else {
+      // Every share goes back on offer except the creator's new grant
+      meme.availableShares = meme.totalShares - CREATOR_SHARES;
+      await redis.set(`memes:${meme.id}`, JSON.stringify(meme));
+      await indexMeme(meme, context);
+    }
+  }
+
+  const missingIds = memeIds.filter(memeId => !memes.some(meme => meme.id === memeId));
+  for (const memeId of missingIds) {
+    await pruneMissingMeme(memeId, context);
+  }
+  if (memePolicy !== 'delist') {
+    state.cursor += memeIds.length - missingIds.length;
+  }
+
+  return memeIds.length < ROLLOVER_BATCH_SIZE;
+}
+
+// Cancel the next batch of traders' orders and send them into the new season
+// with the starting balance and no holdings, apart from fresh creator shares
+// in memes that carried over. Returns true once every trader is done.
+async function resetTraderBatch(
+  season: Season,
+  memePolicy: SeasonMemePolicy,
+  state: RolloverState,
+  context: JobContext
+): Promise<boolean> {
+  const { redis } = context;
+
+  const userIds = await readTraderIds(context, state.cursor, ROLLOVER_BATCH_SIZE);
+
+  for (const userId of userIds) {
+    await cancelUserOrders(userId, context);
+    await resetWallet(userId, context, season.id);
+
+    const previous: Portfolio = JSON.parse(await redis.get(`portfolio:${userId}`) || '{}');
+    for (const memeId of Object.keys(previous)) {
+      await indexHolding(memeId, userId, 0, context);
+    }
+
+    const portfolio: Portfolio = {};
+    if (memePolicy === 'carry-over') {
+      for (const memeId of await readCreatorMemeIds(userId, context)) {
+        portfolio[memeId] = { shares: CREATOR_SHARES, averageBuyPrice: 0, grantedShares: CREATOR_SHARES };
+        await indexHolding(memeId, userId, CREATOR_SHARES, context);
+      }
+    }
+    await redis.set(`portfolio:${userId}`, JSON.stringify(portfolio));
+    await redis.del(realizedPnlKey(userId), grantProceedsKey(userId));
+    await clearNetWorthHistory(userId, context);
+  }
+  state.cursor += userIds.length;
+
+  return userIds.length < ROLLOVER_BATCH_SIZE;
+}
+
+// File the archive and move on to the next season, if one is lined up.
+// Without one the market reopens unseasoned.
+async function finishRollover(season: Season, context: JobContext): Promise<void> {
+  const { redis } = context;
+
+  const archive = await getSeasonArchive(season.id, context);
+  const archived: Season = { ...season, status: 'archived', archivedAt: new Date().toISOString() };
+  await saveSeasonArchive({ ...archive!, season: archived }, context);
+
+  await resetLeaderboards(context);
+  await redis.del(ROLLOVER_STATE_KEY);
+
+  const next = await getNextSeason(context);
+  if (next) {
+    await redis.set(CURRENT_SEASON_KEY, JSON.stringify(next));
+    await redis.del(NEXT_SEASON_KEY);
+    await advanceSeason(context);
+  } else {
+    await redis.del(CURRENT_SEASON_KEY);
+  }
+
+  console.log(`${season.name} archived`);
+}
+
+// Work through the rollover of the season that just ended
+export async function runSeasonRollover(context: JobContext): Promise<void> {
+  const { redis, scheduler } = context;
+  const runStartedAt = Date.now();
+
+  const lockId = `rollover_${runStartedAt}_${Math.floor(Math.random() * 1000)}`;
+  const locked = await redis.set(ROLLOVER_LOCK_KEY, lockId, {
+    nx: true,
+    expiration: new Date(runStartedAt + ROLLOVER_LOCK_TTL_MS),
+  });
+  if (!locked) {
+    console.log('Season rollover already running, skipping');
+    return;
+  }
+
+  try {
+    const stateJson = await redis.get(ROLLOVER_STATE_KEY);
+    const season = await getCurrentSeason(context);
+    if (!stateJson || !season || season.status !== 'closing') return;
+
+    const state: RolloverState = JSON.parse(stateJson);
+    const { memePolicy } = state;
+    const { winnerCount } = await getSeasonSettings(context);
+
+    while (true) {
+      if (state.phase === 'standings') {
+        await archiveStandings(season, memePolicy, winnerCount, context);
+        state.phase = 'memes';
+        state.cursor = 0;
+      } else if (state.phase === 'memes') {
+        if (await closeMemeBatch(season, memePolicy, state, context)) {
+          state.phase = 'traders';
+          state.cursor = 0;
+        }
+      } else if (await resetTraderBatch(season, memePolicy, state, context)) {
+        await finishRollover(season, context);
+        return;
+      }
+
+      await redis.set(ROLLOVER_STATE_KEY, JSON.stringify(state));
+
+      if (Date.now() - runStartedAt > ROLLOVER_TIME_BUDGET_MS) {
+        await scheduler.runJob({ name: SEASON_ROLLOVER_JOB, runAt: new Date(Date.now() + 1000) });
+        return;
+      }
+    }
+  } finally {
+    if ((await redis.get(ROLLOVER_LOCK_KEY)) === lockId) {
+      await redis.del(ROLLOVER_LOCK_KEY);
+    }
+  }
+}
+
+Devvit.addSchedulerJob({
+  name: SEASON_ROLLOVER_JOB,
+  onRun: async (_event, context) => {
+    try {
+      await runSeasonRollover(context);
+    } catch (error) {
+      console.error('Error rolling over season:', error);
+    }
+  },
+});
+
+// The current and next season, and every archived one
+export async function getSeasonOverview(_args: Record<string, never>, context: Devvit.Context): Promise<SeasonOverview> {
+  try {
+    const [current, next, past] = await Promise.all([
+      getCurrentSeason(context),
+      getNextSeason(context),
+      listArchivedSeasons(context),
+    ]);
+    return { current, next, past };
+  } catch (error) {
+    console.error('Error loading seasons:', error);
+    throw error;
+  }
+}
+
+// A finished season's final standings and closing prices
+export async function getSeasonDetails({ seasonId }: { seasonId: string }, context: Devvit.Context): Promise<SeasonDetails> {
+  try {
+    const archive = await getSeasonArchive(seasonId, context);
+    if (!archive || archive.season.status !== 'archived') {
+      throw new Error(`Season not found: ${seasonId}`);
+    }
+
+    const closingPrices = await getClosingPrices(seasonId, context);
+    return { archive, closingPrices };
+  } catch (error) {
+    console.error(`Error loading season ${seasonId}:`, error);
+    throw error;
+  }
+}
+
+const scheduleSeasonForm = Devvit.createForm(
+  {
+    title: 'Schedule a season',
+    description: 'Trading pauses between seasons. When a season ends, wallets reset and memes carry over or delist as set in the app settings.',
+    fields: [
+      {
+        type: 'string',
+        name: 'name',
+        label: 'Name',
+        placeholder: 'Season 1',
+      },
+      {
+        type: 'string',
+        name: 'startDate',
+        label: 'Start date (UTC)',
+        placeholder: 'YYYY-MM-DD',
+        required: true,
+      },
+      {
+        type: 'string',
+        name: 'endDate',
+        label: 'End date (UTC)',
+        placeholder: 'YYYY-MM-DD',
+        required: true,
+      },
+    ],
+    acceptLabel: 'Schedule',
+  },
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    try {
+      await assertModerator(context, 'schedule seasons');
+      const season = await scheduleSeason(
+        { name: values.name, startDate: values.startDate!, endDate: values.endDate! },
+        context
+      );
+      ui.showToast(`${season.name} runs ${season.startsAt.slice(0, 10)} to ${season.endsAt.slice(0, 10)}`);
+    } catch (error) {
+      console.error('Error scheduling season:', error);
+      ui.showToast(error instanceof Error ? error.message : 'Could not schedule season');
+    }
+  }
+);
+
+Devvit.addMenuItem({
+  label: 'Schedule a market season',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: (_event, context) => {
+    context.ui.showForm(scheduleSeasonForm);
+  },
+});
@@ -0,0 +1,369 @@
+import { Devvit } from '@devvit/public-api';
+
+// Every installation setting the app exposes to moderators is declared here;
+// Devvit only accepts one settings definition per app.
+Devvit.addSettings([
+  {
+    type: 'group',
+    label: 'Pricing',
+    helpText: 'How the market tick turns engagement into share prices.',
+    fields: [
+      {
+        type: 'select',
+        name: 'pricingModel',
+        label: 'Pricing model',
+        options: [
+          { label: 'Engagement change (default)', value: 'engagement' },
+          { label: 'Log engagement (smoother)', value: 'log-engagement' },
+        ],
+        defaultValue: ['engagement'],
+        multiSelect: false,
+      },
+      {
+        type: 'number',
+        name: 'volatilityDecayPerDay',
+        label: 'Volatility decay per day',
+        helpText: 'How much price sensitivity a meme loses each day after launch.',
+        defaultValue: 0.1,
+        onValidate: ({ value }) => (value !== undefined && (value < 0 || value > 1) ? 'Must be between 0 and 1' : undefined),
+      },
+      {
+        type: 'number',
+        name: 'volumeFactorCap',
+        label: 'Volume factor cap',
+        helpText: 'The most trade volume can amplify a price move, as a multiplier.',
+        defaultValue: 2,
+        onValidate: ({ value }) => (value !== undefined && value < 1 ? 'Must be at least 1' : undefined),
+      },
+      {
+        type: 'number',
+        name: 'circuitBreakerPercent',
+        label: 'Circuit breaker (%)',
+        helpText: 'The largest move allowed in one tick, up or down.',
+        defaultValue: 30,
+        onValidate: ({ value }) => (value !== undefined && (value <= 0 || value > 100) ? 'Must be between 0 and 100' : undefined),
+      },
+      {
+        type: 'number',
+        name: 'priceFloor',
+        label: 'Price floor (₽)',
+        defaultValue: 0.1,
+        onValidate: ({ value }) => (value !== undefined && value <= 0 ? 'Must be above 0' : undefined),
+      },
+    ],
+  },
+  {
+    type: 'group',
+    label: 'Income',
+    helpText: 'What creators and holders earn besides price moves.',
+    fields: [
+      {
+        type: 'number',
+        name: 'royaltyPercent',
+        label: 'Creator royalty (%)',
+        helpText: 'Charged to the trader on every trade and paid to the meme\'s creator. 0 turns royalties off.',
+        defaultValue: 2,
+        onValidate: ({ value }) => (value !== undefined && (value < 0 || value > 10) ? 'Must be between 0 and 10' : undefined),
+      },
+      {
+        type: 'number',
+        name: 'dividendPerEngagementPoint',
+        label: 'Dividend per engagement point (₽)',
+        helpText: 'Paid out daily to a meme\'s holders for each point its engagement grows past its previous high. 0 turns dividends off.',
+        defaultValue: 0.5,
+        onValidate: ({ value }) => (value !== undefined && value < 0 ? 'Must be 0 or more' : undefined),
+      },
+    ],
+  },
+  {
+    type: 'group',
+    label: 'Safeguards',
+    helpText: 'Limits that keep traders from gaming prices. Suspicious activity is flagged for mods to review.',
+    fields: [
+      {
+        type: 'number',
+        name: 'minAccountAgeDays',
+        label: 'Minimum account age (days)',
+        helpText: 'Younger accounts are rate limited.',
+        defaultValue: 30,
+        onValidate: ({ value }) => (value !== undefined && value < 0 ? 'Must be 0 or more' : undefined),
+      },
+      {
+        type: 'number',
+        name: 'minAccountKarma',
+        label: 'Minimum account karma',
+        helpText: 'Accounts with less post and comment karma are rate limited.',
+        defaultValue: 50,
+        onValidate: ({ value }) => (value !== undefined && value < 0 ? 'Must be 0 or more' : undefined),
+      },
+      {
+        type: 'number',
+        name: 'limitedTradesPerHour',
+        label: 'Trades per hour for rate limited accounts',
+        defaultValue: 5,
+        onValidate: ({ value }) => (value !== undefined && (!Number.isInteger(value) || value < 1) ? 'Must be a whole number of at least 1' : undefined),
+      },
+      {
+        type: 'number',
+        name: 'maxPositionPercent',
+        label: 'Position cap (% of a meme\'s shares)',
+        helpText: 'The most of any one meme a single trader may hold.',
+        defaultValue: 25,
+        onValidate: ({ value }) => (value !== undefined && (value <= 0 || value > 100) ? 'Must be between 0 and 100' : undefined),
+      },
+      {
+        type: 'number',
+        name: 'roundTripWindowMinutes',
+        label: 'Round trip window (minutes)',
+        helpText: 'Volume from trades reversed within this window doesn\'t count towards engagement.',
+        defaultValue: 60,
+        onValidate: ({ value }) => (value !== undefined && value < 0 ? 'Must be 0 or more' : undefined),
+      },
+      {
+        type: 'number',
+        name: 'countedVolumePerDay',
+        label: 'Counted volume per trader per day (shares)',
+        helpText: 'How many shares of one meme a single trader can add to its engagement each day.',
+        defaultValue: 100,
+        onValidate: ({ value }) => (value !== undefined && value < 0 ? 'Must be 0 or more' : undefined),
+      },
+      {
+        type: 'number',
+        name: 'karmaGainPerTick',
+        label: 'Karma counted per tick',
+        helpText: 'The most post karma a meme can gain towards its price in one market tick. Bigger jumps are flagged.',
+        defaultValue: 200,
+        onValidate: ({ value }) => (value !== undefined && value < 1 ? 'Must be at least 1' : undefined),
+      },
+    ],
+  },
+  {
+    type: 'group',
+    label: 'Seasons',
+    helpText: 'What happens to the market when a season ends.',
+    fields: [
+      {
+        type: 'select',
+        name: 'seasonMemePolicy',
+        label: 'Memes at season end',
+        options: [
+          { label: 'Carry over at their closing price', value: 'carry-over' },
+          { label: 'Delist them', value: 'delist' },
+        ],
+        defaultValue: ['carry-over'],
+        multiSelect: false,
+      },
+      {
+        type: 'number',
+        name: 'seasonWinnerCount',
+        label: 'Winners awarded flair',
+        helpText: 'How many of the richest traders get season flair. 0 turns flair off.',
+        defaultValue: 3,
+        onValidate: ({ value }) => (value !== undefined && (value < 0 || value > 25) ? 'Must be between 0 and 25' : undefined),
+      },
+    ],
+  },
+  {
+    type: 'group',
+    label: 'Market report',
+    helpText: 'A post summing up the last 24 hours of trading, submitted once a day.',
+    fields: [
+      {
+        type: 'boolean',
+        name: 'marketReportEnabled',
+        label: 'Post a daily market report',
+        defaultValue: true,
+      },
+      {
+        type: 'number',
+        name: 'marketReportHour',
+        label: 'Hour to post (0-23)',
+        defaultValue: 9,
+        onValidate: ({ value }) =>
+          (value !== undefined && (!Number.isInteger(value) || value < 0 || value > 23) ? 'Must be a whole hour from 0 to 23' : undefined),
+      },
+      {
+        type: 'string',
+        name: 'marketReportTimezone',
+        label: 'Timezone',
+        helpText: 'An IANA timezone name, like America/New_York or Europe/London.',
+        defaultValue: 'UTC',
+        onValidate: ({ value }) => (value && !isValidTimezone(value) ? 'Unknown timezone' : undefined),
+      },
+    ],
+  },
+  {
+    type: 'group',
+    label: 'Content',
+    helpText: 'What creators may write on their memes. Links are never allowed.',
+    fields: [
+      {
+        type: 'paragraph',
+        name: 'blockedWords',
+        label: 'Blocked words',
+        helpText: 'Comma separated. Titles and captions containing any of these are refused.',
+        defaultValue: '',
+      },
+    ],
+  },
+  {
+    type: 'group',
+    label: 'Notifications',
+    helpText: 'Price alerts, order fills and milestones. Every notification lands in the in-app inbox.',
+    fields: [
+      {
+        type: 'number',
+        name: 'notificationMessagesPerHour',
+        label: 'Private messages per trader per hour',
+        helpText: 'Notifications past this only go to the inbox. 0 turns private messages off.',
+        defaultValue: 5,
+        onValidate: ({ value }) => (value !== undefined && (!Number.isInteger(value) || value < 0) ? 'Must be a whole number of 0 or more' : undefined),
+      },
+      {
+        type: 'number',
+        name: 'maxAlertsPerTrader',
+        label: 'Price alerts per trader',
+        defaultValue: 20,
+        onValidate: ({ value }) => (value !== undefined && (!Number.isInteger(value) || value < 1) ? 'Must be a whole number of at least 1' : undefined),
+      },
+    ],
+  },
+]);
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface PricingSettings {
+  modelId: string;
+  volatilityDecayPerDay: number;
+  volumeFactorCap: number;
+  circuitBreakerPercent: number;
+  priceFloor: number;
+}
+
+export async function getPricingSettings(context: Pick<Devvit.Context, 'settings'>): Promise<PricingSettings> {
+  const { settings } = context;
+  const values = await settings.getAll();
+
+  return {
+    modelId: (values.pricingModel as string[] | undefined)?.[0] ?? 'engagement',
+    volatilityDecayPerDay: (values.volatilityDecayPerDay as number | undefined) ?? 0.1,
+    volumeFactorCap: (values.volumeFactorCap as number | undefined) ?? 2,
+    circuitBreakerPercent: (values.circuitBreakerPercent as number | undefined) ?? 30,
+    priceFloor: (values.priceFloor as number | undefined) ?? 0.1,
+  };
+}
+
+export interface IncomeSettings {
+  // Fraction of each trade's total paid to the creator
+  royaltyRate: number;
+  dividendPerEngagementPoint: number;
+}
+
+export async function getIncomeSettings(context: Pick<Devvit.Context, 'settings'>): Promise<IncomeSettings> {
+  const { settings } = context;
+  const values = await settings.getAll();
+
+  return {
+    royaltyRate: ((values.royaltyPercent as number | undefined) ?? 2) / 100,
+    dividendPerEngagementPoint: (values.dividendPerEngagementPoint as number | undefined) ?? 0.5,
+  };
+}
+
+export interface SafeguardSettings {
+  minAccountAgeDays: number;
+  minAccountKarma: number;
+  limitedTradesPerHour: number;
+  maxPositionPercent: number;
+  roundTripWindowMs: number;
+  countedVolumePerDay: number;
+  karmaGainPerTick: number;
+}
+
+export async function getSafeguardSettings(context: Pick<Devvit.Context, 'settings'>): Promise<SafeguardSettings> {
+  const { settings } = context;
+  const values = await settings.getAll();
+
+  return {
+    minAccountAgeDays: (values.minAccountAgeDays as number | undefined) ?? 30,
+    minAccountKarma: (values.minAccountKarma as number | undefined) ?? 50,
+    limitedTradesPerHour: (values.limitedTradesPerHour as number | undefined) ?? 5,
+    maxPositionPercent: (values.maxPositionPercent as number | undefined) ?? 25,
+    roundTripWindowMs: ((values.roundTripWindowMinutes as number | undefined) ?? 60) * 60 * 1000,
+    countedVolumePerDay: (values.countedVolumePerDay as number | undefined) ?? 100,
+    karmaGainPerTick: (values.karmaGainPerTick as number | undefined) ?? 200,
+  };
+}
+
+export type SeasonMemePolicy = 'carry-over' | 'delist';
+
+export interface SeasonSettings {
+  memePolicy: SeasonMemePolicy;
+  winnerCount: number;
+}
+
+export async function getSeasonSettings(context: Pick<Devvit.Context, 'settings'>): Promise<SeasonSettings> {
+  const { settings } = context;
+  const values = await settings.getAll();
+
+  return {
+    memePolicy: ((values.seasonMemePolicy as string[] | undefined)?.[0] ?? 'carry-over') as SeasonMemePolicy,
+    winnerCount: (values.seasonWinnerCount as number | undefined) ?? 3,
+  };
+}
+
+export interface MarketReportSettings {
+  enabled: boolean;
+  hour: number;
+  timezone: string;
+}
+
+export async function getMarketReportSettings(context: Pick<Devvit.Context, 'settings'>): Promise<MarketReportSettings> {
+  const { settings } = context;
+  const values = await settings.getAll();
+  const timezone = (values.marketReportTimezone as string | undefined) || 'UTC';
+
+  return {
+    enabled: (values.marketReportEnabled as boolean | undefined) ?? true,
+    hour: (values.marketReportHour as number | undefined) ?? 9,
+    timezone: isValidTimezone(timezone) ? timezone : 'UTC',
+  };
+}
+
+export interface NotificationSettings {
+  messagesPerHour: number;
+  maxAlertsPerTrader: number;
+}
+
+export async function getNotificationSettings(context: Pick<Devvit.Context, 'settings'>): Promise<NotificationSettings> {
+  const { settings } = context;
+  const values = await settings.getAll();
+
+  return {
+    messagesPerHour: (values.notificationMessagesPerHour as number | undefined) ?? 5,
+    maxAlertsPerTrader: (values.maxAlertsPerTrader as number | undefined) ?? 20,
+  };
+}
+
+export interface ContentSettings {
+  // Lowercase, with blanks dropped
+  blockedWords: string[];
+}
+
+export async function getContentSettings(context: Pick<Devvit.Context, 'settings'>): Promise<ContentSettings> {
+  const { settings } = context;
+  const values = await settings.getAll();
+
+  return {
+    blockedWords: ((values.blockedWords as string | undefined) ?? '')
+      .split(',')
+      .map(word => word.trim().toLowerCase())
+      .filter(word => word.length > 0),
+  };
+}
@@ -0,0 +1,375 @@
+import { Devvit } from '@devvit/public-api';
+import { assertModerator, requireCurrentUser } from './permissions';
+import { flag, id, invalidField, Rule, text, validate } from './validation';
+import {
+  getLibraryTemplates,
+  getTemplate,
+  getTemplateStats,
+  MemeTemplate,
+  saveTemplate,
+  TemplateStats,
+} from '../storage/templateRegistry';
+
+// File types a template image may have, and the media type each uploads as
+const IMAGE_TYPES: Record<string, 'image' | 'gif'> = {
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  webp: 'image',
+  gif: 'gif',
+};
+
+// Images already hosted by Reddit, such as those from a form's image field,
+// don't need uploading again
+const REDDIT_MEDIA_HOSTS = ['i.redd.it', 'preview.redd.it'];
+
+const MAX_URL_LENGTH = 2048;
+const MAX_NAME_LENGTH = 60;
+const MAX_TAGS = 5;
+const MAX_TAG_LENGTH = 24;
+
+export interface TemplateEntry {
+  template: MemeTemplate;
+  stats: TemplateStats;
+}
+
+// Check that a URL points straight at an image we can host. Returns the
+// media type to upload it as.
+export function validateTemplateUrl(imageUrl: string): 'image' | 'gif' {
+  if (imageUrl.length > MAX_URL_LENGTH) {
+    throw new Error('That image link is too long');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(imageUrl);
+  } catch {
+    throw new Error('That isn\'t a valid link');
+  }
+  if (url.protocol !== 'https:') {
+    throw new Error('Image links must start with https://');
+  }
+
+  const extension = url.pathname.split('.').pop()?.toLowerCase() ?? '';
+  const type = IMAGE_TYPES[extension];
+  if (!type) {
+    throw new Error('Link directly to a PNG, JPEG, WebP or GIF image');
+  }
+  return type;
+}
+
+// Validate an image link and copy it onto Reddit's media hosting, so a
+// template never depends on a third-party host staying up
+async function hostTemplateImage(imageUrl: string, context: Devvit.Context): Promise<string> {
+  const { media } = context;
+
+  const type = validateTemplateUrl(imageUrl);
+  if (REDDIT_MEDIA_HOSTS.includes(new URL(imageUrl).hostname)) {
+    return imageUrl;
+  }
+
+  const asset = await media.upload({ url: imageUrl, type });
+  return asset.mediaUrl;
+}
+
+const templateName = text({ label: 'Name', maxLength: MAX_NAME_LENGTH, required: true });
+
+const imageLink: Rule<string> = value => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error('Upload or link an image for the template');
+  }
+  validateTemplateUrl(value.trim());
+  return value.trim();
+};
+
+const templateTags: Rule<string[]> = value => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    throw new Error('Tags must be a list of words');
+  }
+  if (value.length > MAX_TAGS) {
+    throw new Error(`Use at most ${MAX_TAGS} tags`);
+  }
+  const invalid = value.find(tag => !new RegExp(`^[a-z0-9-]{1,${MAX_TAG_LENGTH}}$`).test(tag));
+  if (invalid !== undefined) {
+    throw new Error(`Tags are lowercase letters, numbers and dashes, up to ${MAX_TAG_LENGTH} long: "${invalid}" isn't`);
+  }
+  return value;
+};
+
+// Comma separated tags, lowercased and deduplicated
+export function parseTags(text: string): string[] {
+  const tags = text
+    .split(',')
+    .map(tag => tag.trim().toLowerCase())
+    .filter(tag => tag.length > 0);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+// The template a new meme will use. Library templates must still be active;
+// custom ones can only be used by whoever uploaded them. Failures are
+// reported against the submission's `templateId` field.
+export async function resolveTemplate(
+  templateId: string,
+  creatorId: string,
+  context: Pick<Devvit.Context, 'redis'>
+): Promise<MemeTemplate> {
+  const template = await getTemplate(templateId, context);
+
+  if (!template) {
+    throw invalidField('templateId', 'That template no longer exists');
+  }
+  if (template.status === 'retired') {
+    throw invalidField('templateId', `${template.name} has been retired. Pick another template.`);
+  }
+  if (template.status === 'custom' && template.createdBy !== creatorId) {
+    throw invalidField('templateId', 'You can only use custom templates you uploaded');
+  }
+  return template;
+}
+
+// Active library templates with how their memes have performed
+export async function getTemplateLibrary(
+  _args: Record<string, never>,
+  context: Devvit.Context
+): Promise<TemplateEntry[]> {
+  try {
+    const templates = (await getLibraryTemplates(context)).filter(template => template.status === 'active');
+    return await Promise.all(templates.map(async template => ({
+      template,
+      stats: await getTemplateStats(template.id, context),
+    })));
+  } catch (error) {
+    console.error('Error loading template library:', error);
+    throw error;
+  }
+}
+
+// Upload a creator's own template image for their next meme
+export async function uploadCustomTemplate(
+  upload: { name: string; imageUrl: string },
+  context: Devvit.Context
+): Promise<MemeTemplate> {
+  try {
+    const { name, imageUrl } = validate({ name: templateName, imageUrl: imageLink }, upload);
+    const currentUser = await requireCurrentUser(context);
+
+    const template: MemeTemplate = {
+      id: `template_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      name,
+      imageUrl: await hostTemplateImage(imageUrl, context),
+      tags: [],
+      status: 'custom',
+      createdAt: new Date().toISOString(),
+      createdBy: currentUser.id,
+    };
+    await saveTemplate(template, context);
+
+    return template;
+  } catch (error) {
+    console.error('Error uploading custom template:', error);
+    throw error;
+  }
+}
+
+// Add a template to the library for every creator to use
+export async function addTemplate(
+  addition: { name: string; imageUrl: string; tags: string[] },
+  context: Devvit.Context
+): Promise<MemeTemplate> {
+  try {
+    await assertModerator(context, 'add templates');
+    const { name, imageUrl, tags } = validate({ name: templateName, imageUrl: imageLink, tags: templateTags }, addition);
+    const currentUser = await requireCurrentUser(context);
+
+    const template: MemeTemplate = {
+      id: `template_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      name,
+      imageUrl: await hostTemplateImage(imageUrl, context),
+      tags,
+      status: 'active',
+      createdAt: new Date().toISOString(),
+      createdBy: currentUser.id,
+    };
+    await saveTemplate(template, context);
+
+    return template;
+  } catch (error) {
+    console.error('Error adding template:', error);
+    throw error;
+  }
+}
+
+// Rename, retag, retire or restore a library template. Memes already listed
+// with a retired template are unaffected.
+export async function updateTemplate(
+  update: { templateId: string; name: string; tags: string[]; retired: boolean },
+  context: Devvit.Context
+): Promise<MemeTemplate> {
+  const { templateId } = update;
+
+  try {
+    await assertModerator(context, 'manage templates');
+    const { name, tags, retired } = validate({
+      templateId: id('Template'),
+      name: templateName,
+      tags: templateTags,
+      retired: flag(),
+    }, update);
+
+    const template = await getTemplate(templateId, context);
+    if (!template || template.status === 'custom') {
+      throw new Error(`Template not found: ${templateId}`);
+    }
+
+    const updated: MemeTemplate = {
+      ...template,
+      name,
+      tags,
+      status: retired ? 'retired' : 'active',
+      retiredAt: retired ? template.retiredAt ?? new Date().toISOString() : undefined,
+    };
+    await saveTemplate(updated, context);
+
+    return updated;
+  } catch (error) {
+    console.error(`Error updating template ${templateId}:`, error);
+    throw error;
+  }
+}
+
+const addTemplateForm = Devvit.createForm(
+  {
+    title: 'Add a meme template',
+    description: 'Upload an image or link one directly. Linked images are copied to Reddit.',
+    fields: [
+      { type: 'string', name: 'name', label: 'Name', required: true },
+      { type: 'image', name: 'image', label: 'Upload an image' },
+      { type: 'string', name: 'imageUrl', label: 'Or link an image', placeholder: 'https://…/template.png' },
+      { type: 'string', name: 'tags', label: 'Tags', helpText: 'Comma separated, e.g. classic, reaction' },
+    ],
+    acceptLabel: 'Add template',
+  },
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    const imageUrl = values.image || values.imageUrl;
+    if (!imageUrl) {
+      ui.showToast('Upload or link an image for the template');
+      return;
+    }
+
+    try {
+      const template = await addTemplate({
+        name: values.name ?? '',
+        imageUrl,
+        tags: parseTags(values.tags ?? ''),
+      }, context);
+      ui.showToast(`${template.name} is now in the template library`);
+    } catch (error) {
+      console.error('Error adding template:', error);
+      ui.showToast(error instanceof Error ? error.message : 'Could not add this template');
+    }
+  }
+);
+
+const editTemplateForm = Devvit.createForm(
+  (data) => ({
+    title: `Edit ${data.name}`,
+    description: `Used by ${data.uses} listed memes.`,
+    fields: [
+      { type: 'string', name: 'templateId', label: 'Template', defaultValue: data.templateId, disabled: true },
+      { type: 'string', name: 'name', label: 'Name', defaultValue: data.name, required: true },
+      { type: 'string', name: 'tags', label: 'Tags', defaultValue: data.tags, helpText: 'Comma separated' },
+      {
+        type: 'boolean',
+        name: 'retired',
+        label: 'Retired',
+        helpText: 'Retired templates can\'t be picked for new memes',
+        defaultValue: data.retired,
+      },
+    ],
+    acceptLabel: 'Save',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    try {
+      const template = await updateTemplate({
+        templateId: values.templateId!,
+        name: values.name ?? '',
+        tags: parseTags(values.tags ?? ''),
+        retired: !!values.retired,
+      }, context);
+      ui.showToast(`${template.name} ${template.status === 'retired' ? 'is retired' : 'saved'}`);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      ui.showToast(error instanceof Error ? error.message : 'Could not save this template');
+    }
+  }
+);
+
+const chooseTemplateForm = Devvit.createForm(
+  (data) => ({
+    title: 'Manage meme templates',
+    fields: [
+      {
+        type: 'select',
+        name: 'templateId',
+        label: 'Template',
+        options: data.templates,
+        required: true,
+      },
+    ],
+    acceptLabel: 'Edit',
+  }),
+  async ({ values }, context) => {
+    const { ui } = context;
+
+    const template = await getTemplate(values.templateId[0], context);
+    if (!template) {
+      ui.showToast('That template no longer exists');
+      return;
+    }
+
+    const stats = await getTemplateStats(template.id, context);
+    ui.showForm(editTemplateForm, {
+      templateId: template.id,
+      name: template.name,
+      tags: template.tags.join(', '),
+      retired: template.status === 'retired',
+      uses: stats.uses,
+    });
+  }
+);
+
+Devvit.addMenuItem({
+  label: 'Add a meme template',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: (_event, context) => {
+    context.ui.showForm(addTemplateForm);
+  },
+});
+
+Devvit.addMenuItem({
+  label: 'Manage meme templates',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (_event, context) => {
+    const { ui } = context;
+
+    const templates = await getLibraryTemplates(context);
+    if (templates.length === 0) {
+      ui.showToast('The template library is empty');
+      return;
+    }
+
+    ui.showForm(chooseTemplateForm, {
+      templates: templates.map(template => ({
+        label: template.status === 'retired' ? `${template.name} (retired)` : template.name,
+        value: template.id,
+      })),
+    });
+  },
+});
@@ -0,0 +1,413 @@
+import { Devvit, JobContext } from '@devvit/public-api';
+import { quoteOrder, TradeQuote } from './amm';
+import { notifyPriceChange } from './notifications';
+import { matchOrders } from './orderBook';
+import { requireCurrentUser } from './permissions';
+import {
+  assessTradeVolume,
+  enforceTradeRateLimit,
+  flagIncident,
+  positionCap,
+  queueCountedVolume,
+  queueFilledTrade,
+} from './safeguards';
+import { getIncomeSettings, getSafeguardSettings } from './settings';
+import { recordTradeHistory } from '../storage/marketHistory';
+import {
+  getMeme,
+  GrantProceeds,
+  grantProceedsKey,
+  indexHolding,
+  indexMeme,
+  MemeData,
+  Portfolio,
+  positionLots,
+  RealizedPnl,
+  realizedPnlKey,
+} from '../storage/memeRegistry';
+import { getTradingBan, getTradingHalt } from '../storage/marketControls';
+import { isMarketOpen } from '../storage/seasonRegistry';
+import {
+  applyLedgerEntry,
+  ensureWallet,
+  InsufficientFundsError,
+  LedgerEntry,
+  queueWalletWrite,
+  readWallet,
+  roundCoins,
+  WalletData,
+  walletKey,
+} from '../storage/userPortfolios';
+
+// How many times an order is retried when another trade touches the same keys
+const MAX_ORDER_ATTEMPTS = 5;
+
+export type TradeSide = 'buy' | 'sell';
+
+export type TradeErrorCode =
+  | 'INVALID_QUANTITY'
+  | 'MEME_NOT_FOUND'
+  | 'INSUFFICIENT_FUNDS'
+  | 'INSUFFICIENT_SHARES'
+  | 'SLIPPAGE_EXCEEDED'
+  | 'ORDER_CONFLICT'
+  | 'MARKET_CLOSED'
+  | 'RATE_LIMITED'
+  | 'POSITION_LIMIT'
+  | 'TRADING_HALTED'
+  | 'TRADING_BANNED';
+
+// Thrown when an order cannot be filled; `code` lets the UI explain why
+export class TradeError extends Error {
+  constructor(public readonly code: TradeErrorCode, message: string) {
+    super(message);
+    this.name = 'TradeError';
+  }
+}
+
+// A filled order, appended to `trades:<memeId>`
+export interface TradeRecord {
+  id: string;
+  memeId: string;
+  userId: string;
+  side: TradeSide;
+  shares: number;
+  // Average fill price along the bonding curve
+  price: number;
+  total: number;
+  // Profit against the average cost basis; only set on sells of bought shares
+  realizedPnl?: number;
+  // Paid by the trader to the meme's creator on top of `total`
+  royalty?: number;
+  // The resting order this trade filled, if any
+  orderId?: string;
+  timestamp: string;
+}
+
+// The most recent fills on a meme, newest first
+export async function readRecentTrades(
+  memeId: string,
+  count: number,
+  context: Pick<Devvit.Context, 'redis'>
+): Promise<TradeRecord[]> {
+  const { redis } = context;
+  const members = await redis.zRange(`trades:${memeId}`, 0, count - 1, { by: 'rank', reverse: true });
+  return members.map(({ member }) => JSON.parse(member));
+}
+
+export interface TradeResult {
+  trade: TradeRecord;
+  meme: MemeData;
+  balance: number;
+}
+
+// A quote plus the creator royalty the trader would pay
+export interface OrderQuote extends TradeQuote {
+  royalty: number;
+}
+
+// The royalty due on a trade. Creators trading their own meme pay none.
+export function royaltyFor(meme: MemeData, userId: string | undefined, total: number, royaltyRate: number): number {
+  if (meme.creatorId === userId) return 0;
+  return roundCoins(total * royaltyRate);
+}
+
+// Price an order against the meme's bonding curve without placing it
+export async function quoteTrade({ memeId, side, shares }: { memeId: string; side: TradeSide; shares: number }, context: Devvit.Context): Promise<OrderQuote> {
+  const { reddit } = context;
+
+  try {
+    if (!Number.isInteger(shares) || shares <= 0) {
+      throw new TradeError('INVALID_QUANTITY', 'Share quantity must be a positive whole number');
+    }
+
+    const meme = await getMeme(memeId, context);
+    if (!meme) {
+      throw new TradeError('MEME_NOT_FOUND', `Meme not found: ${memeId}`);
+    }
+
+    const quote = quoteOrder(meme, side, shares);
+    const [currentUser, { royaltyRate }] = await Promise.all([reddit.getCurrentUser(), getIncomeSettings(context)]);
+    return { ...quote, royalty: royaltyFor(meme, currentUser?.id, quote.total, royaltyRate) };
+  } catch (error) {
+    console.error(`Error quoting ${side} of meme ${memeId}:`, error);
+    throw error;
+  }
+}
+
+// Buy shares from a meme's available float. With `limitPrice` set, the order
+// fails instead of filling at a worse average price.
+export async function buyShares({ memeId, shares, limitPrice }: { memeId: string; shares: number; limitPrice?: number }, context: Devvit.Context): Promise<TradeResult> {
+  try {
+    const currentUser = await requireCurrentUser(context);
+    await enforceTradeRateLimit(currentUser, context);
+    const result = await executeOrder(currentUser.id, memeId, 'buy', shares, context, limitPrice);
+    await matchOrdersAfterTrade(memeId, context);
+    return result;
+  } catch (error) {
+    console.error(`Error buying shares of meme ${memeId}:`, error);
+    throw error;
+  }
+}
+
+// Sell shares back into a meme's available float. With `limitPrice` set, the
+// order fails instead of filling at a worse average price.
+export async function sellShares({ memeId, shares, limitPrice }: { memeId: string; shares: number; limitPrice?: number }, context: Devvit.Context): Promise<TradeResult> {
+  try {
+    const currentUser = await requireCurrentUser(context);
+    await enforceTradeRateLimit(currentUser, context);
+    const result = await executeOrder(currentUser.id, memeId, 'sell', shares, context, limitPrice);
+    await matchOrdersAfterTrade(memeId, context);
+    return result;
+  } catch (error) {
+    console.error(`Error selling shares of meme ${memeId}:`, error);
+    throw error;
+  }
+}
+
+// Fill resting orders the trade's price move has crossed. The trade itself
+// has already gone through, so a matching failure is only logged.
+async function matchOrdersAfterTrade(memeId: string, context: JobContext): Promise<void> {
+  try {
+    await matchOrders(memeId, context);
+  } catch (error) {
+    console.error(`Error matching orders on meme ${memeId}:`, error);
+  }
+}
+
+// Throw if moderators have halted trading in the meme or banned the trader
+export async function assertCanTrade(userId: string, memeId: string, context: Pick<Devvit.Context, 'redis'>): Promise<void> {
+  const halt = await getTradingHalt(memeId, context);
+  if (halt) {
+    throw new TradeError('TRADING_HALTED', `Trading is halted: ${halt.reason}`);
+  }
+  if (await getTradingBan(userId, context)) {
+    throw new TradeError('TRADING_BANNED', 'You are banned from trading');
+  }
+}
+
+// Fill an order atomically. The meme, the user's portfolio and the user's
+// wallet are watched so that a concurrent order on any of them aborts this
+// transaction and we retry against fresh state instead of overselling. The
+// creator's royalty is credited in the same transaction. Fills of resting
+// orders pass the order's ID, which is kept on the trade.
+export async function executeOrder(
+  userId: string,
+  memeId: string,
+  side: TradeSide,
+  shares: number,
+  context: Pick<Devvit.Context, 'redis' | 'reddit' | 'settings'>,
+  limitPrice?: number,
+  orderId?: string
+): Promise<TradeResult> {
+  const { redis } = context;
+
+  if (!Number.isInteger(shares) || shares <= 0) {
+    throw new TradeError('INVALID_QUANTITY', 'Share quantity must be a positive whole number');
+  }
+
+  if (!(await isMarketOpen(context))) {
+    throw new TradeError('MARKET_CLOSED', 'The market is closed between seasons');
+  }
+  await assertCanTrade(userId, memeId, context);
+
+  const memeKey = `memes:${memeId}`;
+  const portfolioKey = `portfolio:${userId}`;
+  const realizedKey = realizedPnlKey(userId);
+  const grantedKey = grantProceedsKey(userId);
+
+  await ensureWallet(userId, context);
+  const { royaltyRate } = await getIncomeSettings(context);
+  const safeguards = await getSafeguardSettings(context);
+
+  for (let attempt = 0; attempt < MAX_ORDER_ATTEMPTS; attempt++) {
+    // Watch the creator's wallet too, so their royalty lands with the trade
+    const creatorId = (await getMeme(memeId, context))?.creatorId;
+    const watched = [memeKey, portfolioKey, realizedKey, grantedKey, walletKey(userId)];
+    if (creatorId && creatorId !== userId) {
+      await ensureWallet(creatorId, context);
+      watched.push(walletKey(creatorId));
+    }
+    const txn = await redis.watch(...watched);
+
+    const memeJson = await redis.get(memeKey);
+    if (!memeJson) {
+      await txn.unwatch();
+      throw new TradeError('MEME_NOT_FOUND', `Meme not found: ${memeId}`);
+    }
+
+    const meme: MemeData = JSON.parse(memeJson);
+    if (meme.delistedAt) {
+      await txn.unwatch();
+      throw new TradeError('MEME_NOT_FOUND', `${meme.title} has been delisted`);
+    }
+    const portfolio: Portfolio = JSON.parse(await redis.get(portfolioKey) || '{}');
+    const realized: RealizedPnl = JSON.parse(await redis.get(realizedKey) || '{}');
+    const grantProceeds: GrantProceeds = JSON.parse(await redis.get(grantedKey) || '{}');
+    const wallet = (await readWallet(userId, context))!;
+
+    const position = portfolio[memeId] || { shares: 0, averageBuyPrice: 0 };
+    const lots = positionLots(position);
+    const tradeId = `trade_${Date.now()}_${Math.floor(Math.random() * 1000)}`;
+    let realizedPnl: number | undefined;
+    const ledgerEntries: LedgerEntry[] = [];
+
+    if (side === 'buy' && meme.availableShares < shares) {
+      await txn.unwatch();
+      throw new TradeError('INSUFFICIENT_SHARES', `Only ${meme.availableShares} shares are available`);
+    }
+    if (side === 'sell' && position.shares < shares) {
+      await txn.unwatch();
+      throw new TradeError('INSUFFICIENT_SHARES', `You only hold ${position.shares} shares`);
+    }
+    const cap = positionCap(meme, safeguards);
+    if (side === 'buy' && position.shares + shares > cap) {
+      await txn.unwatch();
+      throw new TradeError(
+        'POSITION_LIMIT',
+        `Nobody may hold more than ${cap} shares of ${meme.title}; you can buy ${Math.max(0, cap - position.shares)} more`
+      );
+    }
+
+    // Only honest volume feeds engagement, and through it the price
+    const volume = await assessTradeVolume(userId, memeId, side, shares, safeguards, context);
+
+    // Fill along the bonding curve; the order moves the spot price as it goes
+    const quote = quoteOrder(meme, side, shares);
+    const price = quote.averagePrice;
+    const total = roundCoins(quote.total);
+    const royalty = royaltyFor(meme, userId, total, royaltyRate);
+
+    if (limitPrice !== undefined && (side === 'buy' ? price > limitPrice : price < limitPrice)) {
+      await txn.unwatch();
+      throw new TradeError(
+        'SLIPPAGE_EXCEEDED',
+        `The price moved to ₽${price.toFixed(2)} per share, past your limit of ₽${limitPrice.toFixed(2)}`
+      );
+    }
+
+    if (side === 'buy') {
+      try {
+        ledgerEntries.push(applyLedgerEntry(wallet, -total, 'buy', tradeId));
+        if (royalty > 0) {
+          ledgerEntries.push(applyLedgerEntry(wallet, -royalty, 'fee', tradeId));
+        }
+      } catch (error) {
+        await txn.unwatch();
+        if (error instanceof InsufficientFundsError) {
+          throw new TradeError('INSUFFICIENT_FUNDS', error.message);
+        }
+        throw error;
+      }
+
+      // Blend the new lot into the weighted average cost basis of the
+      // bought shares; granted shares stay at zero cost
+      const heldCost = lots.bought * position.averageBuyPrice;
+      position.averageBuyPrice = (heldCost + total) / (lots.bought + shares);
+      position.shares += shares;
+      position.grantedShares = lots.granted;
+      portfolio[memeId] = position;
+
+      meme.availableShares -= shares;
+    } else {
+      // Bought shares are sold before granted ones, so they take the top of
+      // the curve. Only they realize P&L; the granted shares' proceeds are
+      // tracked apart. Selling leaves the cost basis of the remaining shares
+      // unchanged.
+      const boughtSold = Math.min(shares, lots.bought);
+      const boughtProceeds = boughtSold === shares ? total : roundCoins(quoteOrder(meme, side, boughtSold).total);
+      if (boughtSold > 0) {
+        realizedPnl = roundCoins(boughtProceeds - position.averageBuyPrice * boughtSold);
+        realized[memeId] = roundCoins((realized[memeId] || 0) + realizedPnl);
+      }
+      if (boughtSold < shares) {
+        grantProceeds[memeId] = roundCoins((grantProceeds[memeId] || 0) + total - boughtProceeds);
+      }
+
+      position.shares -= shares;
+      position.grantedShares = lots.granted - (shares - boughtSold);
+      if (position.shares === position.grantedShares) {
+        position.averageBuyPrice = 0;
+      }
+      if (position.shares === 0) {
+        delete portfolio[memeId];
+      } else {
+        portfolio[memeId] = position;
+      }
+
+      meme.availableShares += shares;
+      ledgerEntries.push(applyLedgerEntry(wallet, total, 'sell', tradeId));
+      if (royalty > 0) {
+        ledgerEntries.push(applyLedgerEntry(wallet, -royalty, 'fee', tradeId));
+      }
+    }
+
+    let creatorWallet: WalletData | null = null;
+    let royaltyEntry: LedgerEntry | null = null;
+    if (royalty > 0) {
+      creatorWallet = (await readWallet(meme.creatorId, context))!;
+      royaltyEntry = applyLedgerEntry(creatorWallet, royalty, 'royalty', tradeId);
+    }
+
+    const previousPrice = meme.currentSharePrice;
+    meme.currentSharePrice = quote.spotAfter;
+    meme.tradeVolume += shares;
+    meme.discountedVolume = (meme.discountedVolume || 0) + shares - volume.countedShares;
+
+    const timestamp = new Date().toISOString();
+    const trade: TradeRecord = {
+      id: tradeId,
+      memeId,
+      userId,
+      side,
+      shares,
+      price,
+      total,
+      realizedPnl,
+      royalty: royalty > 0 ? royalty : undefined,
+      orderId,
+      timestamp,
+    };
+
+    await txn.multi();
+    await txn.set(memeKey, JSON.stringify(meme));
+    await indexMeme(meme, context, txn);
+    await txn.set(portfolioKey, JSON.stringify(portfolio));
+    await indexHolding(memeId, userId, portfolio[memeId]?.shares ?? 0, context, txn);
+    await txn.set(realizedKey, JSON.stringify(realized));
+    if (side === 'sell' && shares > lots.bought) {
+      await txn.set(grantedKey, JSON.stringify(grantProceeds));
+    }
+    for (const entry of ledgerEntries) {
+      await queueWalletWrite(txn, wallet, entry);
+    }
+    if (creatorWallet && royaltyEntry) {
+      await queueWalletWrite(txn, creatorWallet, royaltyEntry);
+    }
+    await txn.zAdd(`trades:${memeId}`, { member: JSON.stringify(trade), score: Date.now() });
+    await queueCountedVolume(txn, memeId, userId, volume.countedShares);
+    await queueFilledTrade(txn, userId);
+    const results = await txn.exec();
+
+    // An aborted transaction returns no replies; another order won the race
+    if (results && results.length > 0) {
+      // The order is already filled, so a history failure must not undo it
+      try {
+        await recordTradeHistory(trade, context);
+      } catch (error) {
+        console.error(`Error recording history for trade ${trade.id}:`, error);
+      }
+      if (volume.incident) {
+        await flagIncident(memeId, {
+          ...volume.incident,
+          references: [trade.id, ...volume.incident.references],
+        }, context);
+      }
+      await notifyPriceChange(meme, previousPrice, 'trade', context);
+
+      return { trade, meme, balance: wallet.balance };
+    }
+  }
+
+  throw new TradeError('ORDER_CONFLICT', 'The market is busy right now, please try again');
+}
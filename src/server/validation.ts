@@ -0,0 +1,211 @@
+// Every service that takes user input checks it against a schema: one rule
+// per field. A rule returns the field's cleaned-up value or throws an Error
+// whose message is shown next to the field. All fields are checked before
+// anything fails, so a form can point at every mistake at once.
+export type Rule<T> = (value: unknown) => T;
+
+export type Schema<T> = { [K in keyof T]-?: Rule<T[K]> };
+
+// A problem with one input field, named as the service's argument names it
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Thrown when input fails its schema. `message` joins every field's message
+// for callers that can only show a toast.
+export class ValidationError extends Error {
+  constructor(public readonly fieldErrors: FieldError[]) {
+    super(fieldErrors.map(fieldError => fieldError.message).join('. '));
+    this.name = 'ValidationError';
+  }
+
+  // Messages keyed by field, which can cross into form data
+  byField(): Record<string, string> {
+    return Object.fromEntries(this.fieldErrors.map(({ field, message }) => [field, message]));
+  }
+}
+
+// Reject one field from outside a schema, e.g. after a registry lookup
+export function invalidField(field: string, message: string): ValidationError {
+  return new ValidationError([{ field, message }]);
+}
+
+// Check every field of `input` against `schema`, returning the cleaned-up
+// values. Fields not in the schema are dropped.
+export function validate<T>(schema: Schema<T>, input: unknown): T {
+  const record = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const output = {} as T;
+  const fieldErrors: FieldError[] = [];
+
+  for (const field of Object.keys(schema) as (keyof T & string)[]) {
+    try {
+      output[field] = schema[field](record[field]);
+    } catch (error) {
+      fieldErrors.push({ field, message: error instanceof Error ? error.message : 'This value isn\'t allowed' });
+    }
+  }
+
+  if (fieldErrors.length > 0) {
+    throw new ValidationError(fieldErrors);
+  }
+  return output;
+}
+
+// Control and zero-width characters, which can hide text or break layouts
+const INVISIBLE_CHARACTERS = /[\u0000-\u001f\u007f-\u009f\u200b-\u200f\u2028-\u202e\u2060-\u2064\ufeff]/g;
+
+const LINK_PATTERN = /\bhttps?:\/\/|\bwww\.|\b[a-z0-9-]+\.(com|net|org|io|gg|ly|me|co)\b/i;
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// Whether `text` contains any of `words` as a whole word, ignoring case
+function containsBlockedWord(text: string, words: string[]): boolean {
+  const lower = text.toLowerCase();
+  return words.some(word => {
+    const escaped = word.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(lower);
+  });
+}
+
+// Single-line text with invisible characters stripped and whitespace
+// collapsed. Links and mod-blocked words are refused.
+export function text({
+  label,
+  maxLength,
+  required = false,
+  allowLinks = false,
+  blockedWords = [],
+}: {
+  label: string;
+  maxLength: number;
+  required?: boolean;
+  allowLinks?: boolean;
+  blockedWords?: string[];
+}): Rule<string> {
+  return value => {
+    if (isBlank(value)) {
+      if (required) throw new Error(`${label} is required`);
+      return '';
+    }
+    if (typeof value !== 'string') {
+      throw new Error(`${label} must be text`);
+    }
+
+    const cleaned = value.replace(INVISIBLE_CHARACTERS, ' ').replace(/\s+/g, ' ').trim();
+    if (!cleaned && required) {
+      throw new Error(`${label} is required`);
+    }
+    if (cleaned.length > maxLength) {
+      throw new Error(`${label} can be at most ${maxLength} characters`);
+    }
+    if (!allowLinks && LINK_PATTERN.test(cleaned)) {
+      throw new Error(`${label} can't contain links`);
+    }
+    if (containsBlockedWord(cleaned, blockedWords)) {
+      throw new Error(`${label} contains a word this community doesn't allow`);
+    }
+    return cleaned;
+  };
+}
+
+export function number({
+  label,
+  min,
+  max,
+  integer = false,
+}: {
+  label: string;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}): Rule<number> {
+  return value => {
+    if (isBlank(value)) {
+      throw new Error(`${label} is required`);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(`${label} must be a number`);
+    }
+    if (integer && !Number.isInteger(value)) {
+      throw new Error(`${label} must be a whole number`);
+    }
+    if (min !== undefined && max !== undefined && (value < min || value > max)) {
+      throw new Error(`${label} must be between ${min} and ${max}`);
+    }
+    if (min !== undefined && value < min) {
+      throw new Error(`${label} must be at least ${min}`);
+    }
+    if (max !== undefined && value > max) {
+      throw new Error(`${label} must be at most ${max}`);
+    }
+    return value;
+  };
+}
+
+// The ID of a stored record. Whether the record exists is for the service
+// to check.
+export function id(label: string): Rule<string> {
+  return value => {
+    if (isBlank(value)) {
+      throw new Error(`Choose a ${label.toLowerCase()}`);
+    }
+    if (typeof value !== 'string' || !ID_PATTERN.test(value)) {
+      throw new Error(`That ${label.toLowerCase()} doesn't exist`);
+    }
+    return value;
+  };
+}
+
+export function oneOf<T extends string>(label: string, allowed: readonly T[]): Rule<T> {
+  return value => {
+    if (typeof value !== 'string' || !allowed.includes(value as T)) {
+      throw new Error(`Choose a valid ${label.toLowerCase()}`);
+    }
+    return value as T;
+  };
+}
+
+// A set of choices from a registry, deduplicated
+export function someOf(label: string, allowed: readonly string[], { max }: { max: number }): Rule<string[]> {
+  return value => {
+    if (isBlank(value)) return [];
+    if (!Array.isArray(value)) {
+      throw new Error(`${label} must be a list`);
+    }
+
+    const chosen = Array.from(new Set(value));
+    const unknown = chosen.filter(item => typeof item !== 'string' || !allowed.includes(item));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown ${label.toLowerCase()}: ${unknown.map(String).join(', ')}`);
+    }
+    if (chosen.length > max) {
+      throw new Error(`Choose at most ${max} ${label.toLowerCase()}`);
+    }
+    return chosen as string[];
+  };
+}
+
+// A yes/no choice; anything but `true` is no
+export function flag(): Rule<boolean> {
+  return value => value === true;
+}
+
+// Let a field be left out, in which case it comes back undefined
+export function optional<T>(rule: Rule<T>): Rule<T | undefined> {
+  return value => (isBlank(value) ? undefined : rule(value));
+}
+
+// Form field help text, replaced by the field's error when it has one
+export function fieldHelp(
+  errors: Record<string, string> | undefined,
+  field: string,
+  helpText?: string
+): string | undefined {
+  const error = errors?.[field];
+  return error ? `⚠️ ${error}` : helpText;
+}
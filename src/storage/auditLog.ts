@@ -0,0 +1,61 @@
+import { Devvit } from '@devvit/public-api';
+
+export type AuditAction =
+  | 'halt-market'
+  | 'resume-market'
+  | 'halt-meme'
+  | 'resume-meme'
+  | 'delist-meme'
+  | 'adjust-balance'
+  | 'repair-wallet'
+  | 'ban-trader'
+  | 'unban-trader'
+  | 'set-parameters';
+
+// One mod action, appended to the `audit:log` sorted set scored by time
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  actorId: string;
+  actorName: string;
+  // What was acted on, e.g. a meme title or a username
+  target?: string;
+  details: string;
+  timestamp: string;
+}
+
+const AUDIT_LOG_KEY = 'audit:log';
+
+// Entries kept before the oldest are trimmed
+const AUDIT_RETENTION = 1000;
+
+type RedisContext = Pick<Devvit.Context, 'redis'>;
+
+export async function appendAuditEntry(
+  entry: Omit<AuditEntry, 'id' | 'timestamp'>,
+  context: RedisContext
+): Promise<AuditEntry> {
+  const { redis } = context;
+
+  const logged: AuditEntry = {
+    id: `audit_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+    ...entry,
+    timestamp: new Date().toISOString(),
+  };
+
+  await redis.zAdd(AUDIT_LOG_KEY, { member: JSON.stringify(logged), score: Date.parse(logged.timestamp) });
+  await redis.zRemRangeByRank(AUDIT_LOG_KEY, 0, -(AUDIT_RETENTION + 1));
+  return logged;
+}
+
+// A page of the audit log, newest first
+export async function readAuditLog(context: RedisContext, offset = 0, count = 20): Promise<AuditEntry[]> {
+  const { redis } = context;
+  const members = await redis.zRange(AUDIT_LOG_KEY, offset, offset + count - 1, { by: 'rank', reverse: true });
+  return members.map(({ member }) => JSON.parse(member));
+}
+
+export async function countAuditEntries(context: RedisContext): Promise<number> {
+  const { redis } = context;
+  return await redis.zCard(AUDIT_LOG_KEY);
+}
@@ -0,0 +1,19 @@
+// Categories a meme can be listed under. Every category gets its own set of
+// marketplace indexes (`index:<sort>:<category>`), so the list is fixed here
+// rather than taken from whatever creators type.
+export interface MemeCategory {
+  id: string;
+  label: string;
+}
+
+export const MEME_CATEGORIES: MemeCategory[] = [
+  { id: 'reaction', label: 'Reaction' },
+  { id: 'gaming', label: 'Gaming' },
+  { id: 'politics', label: 'Politics' },
+  { id: 'movies', label: 'Movies/TV' },
+  { id: 'animals', label: 'Animals' },
+  { id: 'tech', label: 'Tech' },
+  { id: 'sports', label: 'Sports' },
+];
+
+export const MEME_CATEGORY_IDS: string[] = MEME_CATEGORIES.map(category => category.id);
@@ -0,0 +1,187 @@
+import { Devvit } from '@devvit/public-api';
+
+// What tripped a flag:
+// - `round-trip`: a trader reversed their own trade within the window
+// - `mirrored-trades`: two traders took opposite sides of the same size
+//   within the window, as alt accounts trading with each other would
+// - `volume-cap`: a trader went past the volume one trader can count per day
+// - `karma-spike`: a meme's post gained more karma in one tick than counts
+export type FlagKind = 'round-trip' | 'mirrored-trades' | 'volume-cap' | 'karma-spike';
+
+// Only `open` flags sit in the review queue
+export type FlagStatus = 'open' | 'dismissed' | 'upheld';
+
+// One incident behind a flag
+export interface FlagEvidence {
+  at: string;
+  note: string;
+  // Trade IDs or other records the note refers to
+  references: string[];
+}
+
+// Suspicious activity waiting for a mod, stored as JSON under `flag:<id>`.
+// Repeat incidents for the same kind, meme and traders pile up as evidence
+// on the one open flag instead of opening new ones.
+export interface SuspicionFlag {
+  id: string;
+  kind: FlagKind;
+  memeId: string;
+  // The traders involved, sorted; empty for karma spikes
+  userIds: string[];
+  status: FlagStatus;
+  createdAt: string;
+  updatedAt: string;
+  // Oldest first, trimmed to the most recent incidents
+  evidence: FlagEvidence[];
+  reviewedAt?: string;
+  reviewerName?: string;
+  reviewNote?: string;
+}
+
+// Open flags, scored by when they were raised, oldest reviewed first
+const OPEN_QUEUE_KEY = 'flags:open';
+
+// Incidents kept on a flag
+const MAX_EVIDENCE = 20;
+
+// How many times a flag update is retried when it races another one
+const MAX_FLAG_ATTEMPTS = 5;
+
+type RedisContext = Pick<Devvit.Context, 'redis'>;
+
+function flagKey(flagId: string): string {
+  return `flag:${flagId}`;
+}
+
+// The open flag, if any, for one kind of activity by the same traders on the
+// same meme
+function subjectKey(kind: FlagKind, memeId: string, userIds: string[]): string {
+  return `flags:subject:${kind}:${memeId}:${userIds.join(',')}`;
+}
+
+// Record an incident, adding it to the subject's open flag or raising a new
+// one. Returns the flag.
+export async function recordFlag(
+  { kind, memeId, userIds, note, references }: {
+    kind: FlagKind;
+    memeId: string;
+    userIds: string[];
+    note: string;
+    references: string[];
+  },
+  context: RedisContext
+): Promise<SuspicionFlag> {
+  const { redis } = context;
+  const sortedUserIds = [...userIds].sort();
+  const subject = subjectKey(kind, memeId, sortedUserIds);
+  const now = new Date().toISOString();
+  const evidence: FlagEvidence = { at: now, note, references };
+
+  for (let attempt = 0; attempt < MAX_FLAG_ATTEMPTS; attempt++) {
+    const txn = await redis.watch(subject);
+    const openId = await redis.get(subject);
+    const existing = openId ? await getFlag(openId, context) : null;
+
+    const flag: SuspicionFlag = existing && existing.status === 'open'
+      ? {
+          ...existing,
+          updatedAt: now,
+          evidence: [...existing.evidence, evidence].slice(-MAX_EVIDENCE),
+        }
+      : {
+          id: `flag_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+          kind,
+          memeId,
+          userIds: sortedUserIds,
+          status: 'open',
+          createdAt: now,
+          updatedAt: now,
+          evidence: [evidence],
+        };
+
+    await txn.multi();
+    await txn.set(flagKey(flag.id), JSON.stringify(flag));
+    await txn.set(subject, flag.id);
+    await txn.zAdd(OPEN_QUEUE_KEY, { member: flag.id, score: Date.parse(flag.createdAt) });
+    const results = await txn.exec();
+
+    if (results && results.length > 0) {
+      return flag;
+    }
+  }
+
+  throw new Error(`Could not record ${kind} flag on meme ${memeId}`);
+}
+
+export async function getFlag(flagId: string, context: RedisContext): Promise<SuspicionFlag | null> {
+  const { redis } = context;
+  const flagJson = await redis.get(flagKey(flagId));
+  return flagJson ? JSON.parse(flagJson) : null;
+}
+
+// Fetch many flags in one round trip, skipping any that no longer exist
+export async function getFlags(flagIds: string[], context: RedisContext): Promise<SuspicionFlag[]> {
+  const { redis } = context;
+  if (flagIds.length === 0) return [];
+
+  const flagJsons = await redis.mGet(flagIds.map(flagKey));
+  return flagJsons
+    .filter((flagJson): flagJson is string => !!flagJson)
+    .map(flagJson => JSON.parse(flagJson));
+}
+
+// A page of the review queue, oldest first
+export async function readOpenFlagIds(context: RedisContext, offset = 0, count = 20): Promise<string[]> {
+  const { redis } = context;
+  const members = await redis.zRange(OPEN_QUEUE_KEY, offset, offset + count - 1, { by: 'rank' });
+  return members.map(({ member }) => member);
+}
+
+export async function countOpenFlags(context: RedisContext): Promise<number> {
+  const { redis } = context;
+  return await redis.zCard(OPEN_QUEUE_KEY);
+}
+
+// Close an open flag as dismissed or upheld. The flag leaves the queue and
+// its subject is freed, so a later incident raises a fresh flag.
+export async function closeFlag(
+  flagId: string,
+  status: Exclude<FlagStatus, 'open'>,
+  { reviewerName, note }: { reviewerName: string; note?: string },
+  context: RedisContext
+): Promise<SuspicionFlag> {
+  const { redis } = context;
+
+  for (let attempt = 0; attempt < MAX_FLAG_ATTEMPTS; attempt++) {
+    const txn = await redis.watch(flagKey(flagId));
+    const flag = await getFlag(flagId, context);
+    if (!flag) {
+      await txn.unwatch();
+      throw new Error(`Flag not found: ${flagId}`);
+    }
+    if (flag.status !== 'open') {
+      await txn.unwatch();
+      throw new Error(`This flag was already ${flag.status}`);
+    }
+
+    const closed: SuspicionFlag = {
+      ...flag,
+      status,
+      reviewedAt: new Date().toISOString(),
+      reviewerName,
+      reviewNote: note,
+    };
+
+    await txn.multi();
+    await txn.set(flagKey(flagId), JSON.stringify(closed));
+    await txn.zRem(OPEN_QUEUE_KEY, [flagId]);
+    await txn.del(subjectKey(flag.kind, flag.memeId, flag.userIds));
+    const results = await txn.exec();
+
+    if (results && results.length > 0) {
+      return closed;
+    }
+  }
+
+  throw new Error(`Could not update flag ${flagId}, please try again`);
+}
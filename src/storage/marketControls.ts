@@ -0,0 +1,113 @@
+import { Devvit } from '@devvit/public-api';
+
+// Economic knobs mods can turn from the control panel, stored as JSON under
+// `market:params`. Anything missing falls back to the defaults.
+export interface MarketParameters {
+  // MemeCoins each new wallet opens with, and what wallets reset to each season
+  startingBalance: number;
+  minIpoPrice: number;
+  maxIpoPrice: number;
+  // The IPO listing fee is this many times the initial share price
+  ipoFeeMultiplier: number;
+  tickIntervalMinutes: number;
+}
+
+export const DEFAULT_MARKET_PARAMETERS: MarketParameters = {
+  startingBalance: 1000,
+  minIpoPrice: 1,
+  maxIpoPrice: 100,
+  ipoFeeMultiplier: 10,
+  tickIntervalMinutes: 60,
+};
+
+// Intervals the market tick's cron schedule can express evenly
+export const TICK_INTERVAL_OPTIONS = [15, 30, 60, 120, 180, 360];
+
+// A pause on trading, globally or for one meme
+export interface TradingHalt {
+  haltedAt: string;
+  haltedBy: string;
+  reason: string;
+}
+
+// A trader barred from the market, stored in the `trading:bans` hash
+export interface TradingBan {
+  userId: string;
+  username: string;
+  bannedAt: string;
+  bannedBy: string;
+  reason: string;
+}
+
+const PARAMETERS_KEY = 'market:params';
+
+// Active halts keyed by meme ID, or by GLOBAL_HALT for the whole market
+const HALTS_KEY = 'trading:halts';
+const GLOBAL_HALT = 'global';
+
+const BANS_KEY = 'trading:bans';
+
+type RedisContext = Pick<Devvit.Context, 'redis'>;
+
+export async function getMarketParameters(context: RedisContext): Promise<MarketParameters> {
+  const { redis } = context;
+  const paramsJson = await redis.get(PARAMETERS_KEY);
+  return { ...DEFAULT_MARKET_PARAMETERS, ...(paramsJson ? JSON.parse(paramsJson) : {}) };
+}
+
+export async function saveMarketParameters(params: MarketParameters, context: RedisContext): Promise<void> {
+  const { redis } = context;
+  await redis.set(PARAMETERS_KEY, JSON.stringify(params));
+}
+
+// Halt trading in one meme, or the whole market when `memeId` is null
+export async function saveTradingHalt(memeId: string | null, halt: TradingHalt, context: RedisContext): Promise<void> {
+  const { redis } = context;
+  await redis.hSet(HALTS_KEY, { [memeId ?? GLOBAL_HALT]: JSON.stringify(halt) });
+}
+
+export async function clearTradingHalt(memeId: string | null, context: RedisContext): Promise<boolean> {
+  const { redis } = context;
+  return (await redis.hDel(HALTS_KEY, [memeId ?? GLOBAL_HALT])) > 0;
+}
+
+// The halt stopping trades in a meme, if any. A market-wide halt wins.
+export async function getTradingHalt(memeId: string | null, context: RedisContext): Promise<TradingHalt | null> {
+  const { redis } = context;
+
+  const globalJson = await redis.hGet(HALTS_KEY, GLOBAL_HALT);
+  if (globalJson) return JSON.parse(globalJson);
+  if (!memeId) return null;
+
+  const memeJson = await redis.hGet(HALTS_KEY, memeId);
+  return memeJson ? JSON.parse(memeJson) : null;
+}
+
+// IDs of the memes halted one by one, leaving out any market-wide halt
+export async function readHaltedMemeIds(context: RedisContext): Promise<string[]> {
+  const { redis } = context;
+  const halts = await redis.hGetAll(HALTS_KEY);
+  return Object.keys(halts).filter(key => key !== GLOBAL_HALT);
+}
+
+export async function saveTradingBan(ban: TradingBan, context: RedisContext): Promise<void> {
+  const { redis } = context;
+  await redis.hSet(BANS_KEY, { [ban.userId]: JSON.stringify(ban) });
+}
+
+export async function clearTradingBan(userId: string, context: RedisContext): Promise<boolean> {
+  const { redis } = context;
+  return (await redis.hDel(BANS_KEY, [userId])) > 0;
+}
+
+export async function getTradingBan(userId: string, context: RedisContext): Promise<TradingBan | null> {
+  const { redis } = context;
+  const banJson = await redis.hGet(BANS_KEY, userId);
+  return banJson ? JSON.parse(banJson) : null;
+}
+
+export async function getTradingBans(context: RedisContext): Promise<TradingBan[]> {
+  const { redis } = context;
+  const bans = await redis.hGetAll(BANS_KEY);
+  return Object.values(bans).map(banJson => JSON.parse(banJson));
+}
@@ -0,0 +1,208 @@
+import { Devvit } from '@devvit/public-api';
+import { MemeValuation } from './memeRegistry';
+
+export type CandleResolution = 'hour' | 'day' | 'week';
+
+// One OHLC bucket. `volume` is shares traded and `turnover` the MemeCoins
+// that changed hands during the bucket.
+export interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  turnover: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+// Bucket width and how many buckets are kept at each resolution. Hourly
+// candles must cover at least a day and daily candles at least a week, since
+// the coarser resolutions are rebuilt from them.
+const RESOLUTIONS: Record<CandleResolution, { bucketMs: number; retention: number }> = {
+  hour: { bucketMs: HOUR_MS, retention: 24 * 14 },
+  day: { bucketMs: DAY_MS, retention: 365 },
+  week: { bucketMs: WEEK_MS, retention: 52 * 5 },
+};
+
+// How many times a candle write is retried when it races another write
+const MAX_HISTORY_ATTEMPTS = 5;
+
+type RedisContext = Pick<Devvit.Context, 'redis'>;
+
+function historyKey(memeId: string, resolution: CandleResolution): string {
+  return `history:${memeId}:${resolution}`;
+}
+
+// Start of the bucket containing `time`. Weeks start on Monday (UTC); the
+// epoch fell on a Thursday, hence the three day shift.
+export function bucketStart(time: number, resolution: CandleResolution): number {
+  if (resolution === 'week') {
+    return Math.floor((time + 3 * DAY_MS) / WEEK_MS) * WEEK_MS - 3 * DAY_MS;
+  }
+  const { bucketMs } = RESOLUTIONS[resolution];
+  return Math.floor(time / bucketMs) * bucketMs;
+}
+
+// Record a revaluation as a price print in the meme's candles
+export async function updateMarketHistory(valuation: MemeValuation, context: RedisContext): Promise<void> {
+  await recordPricePrint(valuation.memeId, {
+    price: valuation.currentPrice,
+    openPrice: valuation.previousPrice,
+    time: Date.parse(valuation.timestamp),
+  }, context);
+}
+
+// Record a filled trade as a price print with volume
+export async function recordTradeHistory(
+  trade: { memeId: string; price: number; shares: number; total: number; timestamp: string },
+  context: RedisContext
+): Promise<void> {
+  await recordPricePrint(trade.memeId, {
+    price: trade.price,
+    time: Date.parse(trade.timestamp),
+    volume: trade.shares,
+    turnover: trade.total,
+  }, context);
+}
+
+// Fold a price print into the hourly candle, then roll the hour up into its
+// day and the day up into its week
+async function recordPricePrint(
+  memeId: string,
+  {
+    price,
+    time,
+    openPrice = price,
+    volume = 0,
+    turnover = 0,
+  }: { price: number; time: number; openPrice?: number; volume?: number; turnover?: number },
+  context: RedisContext
+): Promise<void> {
+  const { redis } = context;
+  const key = historyKey(memeId, 'hour');
+  const start = bucketStart(time, 'hour');
+
+  for (let attempt = 0; attempt < MAX_HISTORY_ATTEMPTS; attempt++) {
+    const txn = await redis.watch(key);
+    const [existing] = await readCandles(memeId, 'hour', { from: start, to: start }, context);
+
+    const candle: Candle = existing
+      ? {
+          ...existing,
+          high: Math.max(existing.high, price),
+          low: Math.min(existing.low, price),
+          close: price,
+          volume: existing.volume + volume,
+          turnover: existing.turnover + turnover,
+        }
+      : {
+          time: start,
+          open: openPrice,
+          high: Math.max(openPrice, price),
+          low: Math.min(openPrice, price),
+          close: price,
+          volume,
+          turnover,
+        };
+
+    await txn.multi();
+    await txn.zRemRangeByScore(key, start, start);
+    await txn.zAdd(key, { member: JSON.stringify(candle), score: start });
+    await txn.zRemRangeByRank(key, 0, -(RESOLUTIONS.hour.retention + 1));
+    const results = await txn.exec();
+
+    if (results && results.length > 0) {
+      await rollUp(memeId, 'hour', 'day', time, context);
+      await rollUp(memeId, 'day', 'week', time, context);
+      return;
+    }
+  }
+
+  throw new Error(`Could not record price history for meme ${memeId}`);
+}
+
+// Rebuild the coarse candle containing `time` from its finer candles
+async function rollUp(
+  memeId: string,
+  finer: CandleResolution,
+  coarser: CandleResolution,
+  time: number,
+  context: RedisContext
+): Promise<void> {
+  const { redis } = context;
+  const start = bucketStart(time, coarser);
+  const end = start + RESOLUTIONS[coarser].bucketMs - 1;
+
+  const parts = await readCandles(memeId, finer, { from: start, to: end }, context);
+  const candle = mergeCandles(parts, start);
+  if (!candle) return;
+
+  const key = historyKey(memeId, coarser);
+  await redis.zRemRangeByScore(key, start, start);
+  await redis.zAdd(key, { member: JSON.stringify(candle), score: start });
+  await redis.zRemRangeByRank(key, 0, -(RESOLUTIONS[coarser].retention + 1));
+}
+
+// Combine consecutive candles, oldest first, into one spanning bucket
+export function mergeCandles(candles: Candle[], time: number): Candle | null {
+  if (candles.length === 0) return null;
+
+  return {
+    time,
+    open: candles[0].open,
+    high: Math.max(...candles.map(candle => candle.high)),
+    low: Math.min(...candles.map(candle => candle.low)),
+    close: candles[candles.length - 1].close,
+    volume: candles.reduce((sum, candle) => sum + candle.volume, 0),
+    turnover: candles.reduce((sum, candle) => sum + candle.turnover, 0),
+  };
+}
+
+async function readCandles(
+  memeId: string,
+  resolution: CandleResolution,
+  { from, to }: { from: number; to: number },
+  context: RedisContext
+): Promise<Candle[]> {
+  const { redis } = context;
+  const members = await redis.zRange(historyKey(memeId, resolution), from, to, { by: 'score' });
+  return members.map(({ member }) => JSON.parse(member));
+}
+
+// Candles for a chart or report, oldest first. Defaults to everything
+// retained at the resolution; `limit` keeps only the most recent candles.
+export async function getCandles(
+  memeId: string,
+  resolution: CandleResolution,
+  context: RedisContext,
+  { from = 0, to = Date.now(), limit }: { from?: number; to?: number; limit?: number } = {}
+): Promise<Candle[]> {
+  const candles = await readCandles(memeId, resolution, { from, to }, context);
+  return limit !== undefined ? candles.slice(-limit) : candles;
+}
+
+// Fetch a range of candles for a meme's price chart
+export async function getPriceHistory({
+  memeId,
+  resolution = 'hour',
+  from,
+  to,
+  limit,
+}: {
+  memeId: string;
+  resolution?: CandleResolution;
+  from?: number;
+  to?: number;
+  limit?: number;
+}, context: Devvit.Context): Promise<Candle[]> {
+  try {
+    return await getCandles(memeId, resolution, context, { from, to, limit });
+  } catch (error) {
+    console.error(`Error loading price history for meme ${memeId}:`, error);
+    return [];
+  }
+}
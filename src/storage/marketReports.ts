@@ -0,0 +1,275 @@
+import { Devvit } from '@devvit/public-api';
+import { bucketStart, getCandles, mergeCandles } from './marketHistory';
+import { getMemes, getMemeSortScore, MemeData, readMemeIndex } from './memeRegistry';
+import { TradeRecord, TradeSide } from '../server/tradingEngine';
+
+// How a meme moved over the report's 24 hours
+export interface ReportMover {
+  memeId: string;
+  title: string;
+  creatorName: string;
+  openPrice: number;
+  closePrice: number;
+  changePercent: number;
+  volume: number;
+  turnover: number;
+}
+
+export interface ReportIpo {
+  memeId: string;
+  title: string;
+  creatorName: string;
+  initialSharePrice: number;
+  closePrice: number;
+}
+
+export interface ReportTrade {
+  memeId: string;
+  title: string;
+  side: TradeSide;
+  shares: number;
+  price: number;
+  total: number;
+  timestamp: string;
+}
+
+// A frozen snapshot of one day's trading, stored as JSON under `report:<id>`.
+// Posts render this rather than live data so they stay accurate later.
+export interface MarketReport {
+  id: string;
+  // The local date the report covers, in `timezone`
+  date: string;
+  timezone: string;
+  periodStart: string;
+  periodEnd: string;
+  memeCount: number;
+  totalMarketCap: number;
+  // Against the previous report, or null for the first one
+  marketCapChangePercent: number | null;
+  totalVolume: number;
+  totalTurnover: number;
+  gainers: ReportMover[];
+  losers: ReportMover[];
+  mostTraded: ReportMover[];
+  newIpos: ReportIpo[];
+  biggestTrades: ReportTrade[];
+  createdAt: string;
+  postId?: string;
+}
+
+const REPORT_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+// Entries kept in each of the report's lists
+const REPORT_LIST_SIZE = 5;
+
+// Memes are read from the index in batches while building a report
+const REPORT_SCAN_BATCH = 50;
+
+const LATEST_REPORT_KEY = 'report:latest';
+const REPORT_DRAFT_KEY = 'report:draft';
+
+type RedisContext = Pick<Devvit.Context, 'redis'>;
+
+function reportKey(reportId: string): string {
+  return `report:${reportId}`;
+}
+
+// Price and volume of one meme over the period, from its hourly candles
+async function measureMover(meme: MemeData, periodStart: number, context: RedisContext): Promise<ReportMover> {
+  const candles = await getCandles(meme.id, 'hour', context, { from: bucketStart(periodStart, 'hour') });
+  const period = mergeCandles(candles, periodStart);
+  const openPrice = period ? period.open : meme.currentSharePrice;
+
+  return {
+    memeId: meme.id,
+    title: meme.title,
+    creatorName: meme.creatorName,
+    openPrice,
+    closePrice: meme.currentSharePrice,
+    changePercent: openPrice > 0 ? (meme.currentSharePrice / openPrice - 1) * 100 : 0,
+    volume: period ? period.volume : 0,
+    turnover: period ? period.turnover : 0,
+  };
+}
+
+async function readPeriodTrades(meme: MemeData, periodStart: number, periodEnd: number, context: RedisContext): Promise<ReportTrade[]> {
+  const { redis } = context;
+
+  const members = await redis.zRange(`trades:${meme.id}`, periodStart, periodEnd, { by: 'score' });
+  return members.map(({ member }) => {
+    const trade: TradeRecord = JSON.parse(member);
+    return {
+      memeId: meme.id,
+      title: meme.title,
+      side: trade.side,
+      shares: trade.shares,
+      price: trade.price,
+      total: trade.total,
+      timestamp: trade.timestamp,
+    };
+  });
+}
+
+// A report being compiled, stored as JSON under `report:draft`. The scan
+// over the market runs in batches across job runs, so only the running
+// totals and the leaders of each list are kept between them.
+export interface MarketReportDraft {
+  date: string;
+  timezone: string;
+  periodStart: number;
+  periodEnd: number;
+  // Position in the oldest-first meme index the scan has reached
+  cursor: number;
+  memeCount: number;
+  totalMarketCap: number;
+  totalVolume: number;
+  totalTurnover: number;
+  gainers: ReportMover[];
+  losers: ReportMover[];
+  mostTraded: ReportMover[];
+  // The latest listings seen, oldest first
+  newIpos: ReportIpo[];
+  biggestTrades: ReportTrade[];
+}
+
+// Start a report over the 24 hours up to `now`
+export function createMarketReportDraft(date: string, timezone: string, now: number): MarketReportDraft {
+  return {
+    date,
+    timezone,
+    periodStart: now - REPORT_PERIOD_MS,
+    periodEnd: now,
+    cursor: 0,
+    memeCount: 0,
+    totalMarketCap: 0,
+    totalVolume: 0,
+    totalTurnover: 0,
+    gainers: [],
+    losers: [],
+    mostTraded: [],
+    newIpos: [],
+    biggestTrades: [],
+  };
+}
+
+function keepTop<T>(list: T[], items: T[], compare: (a: T, b: T) => number): T[] {
+  return [...list, ...items].sort(compare).slice(0, REPORT_LIST_SIZE);
+}
+
+// Fold the next memes into the draft, stopping early once `deadline` has
+// passed. Returns true once every listed meme is in.
+export async function advanceMarketReport(
+  draft: MarketReportDraft,
+  deadline: number,
+  context: RedisContext
+): Promise<boolean> {
+  const { periodStart, periodEnd } = draft;
+
+  while (true) {
+    const batchStart = draft.cursor;
+    const memeIds = await readMemeIndex('created', context, { offset: batchStart, count: REPORT_SCAN_BATCH, ascending: true });
+    const memes = await getMemes(memeIds, context);
+
+    for (const meme of memes) {
+      if (Date.now() > deadline) return false;
+
+      const mover = await measureMover(meme, periodStart, context);
+      draft.memeCount++;
+      draft.totalMarketCap += getMemeSortScore(meme, 'marketCap');
+      draft.totalVolume += mover.volume;
+      draft.totalTurnover += mover.turnover;
+
+      if (mover.changePercent > 0) {
+        draft.gainers = keepTop(draft.gainers, [mover], (a, b) => b.changePercent - a.changePercent);
+      } else if (mover.changePercent < 0) {
+        draft.losers = keepTop(draft.losers, [mover], (a, b) => a.changePercent - b.changePercent);
+      }
+      if (mover.volume > 0) {
+        draft.mostTraded = keepTop(draft.mostTraded, [mover], (a, b) => b.volume - a.volume);
+      }
+
+      if (Date.parse(meme.createdAt) >= periodStart) {
+        draft.newIpos = [...draft.newIpos, {
+          memeId: meme.id,
+          title: meme.title,
+          creatorName: meme.creatorName,
+          initialSharePrice: meme.initialSharePrice,
+          closePrice: meme.currentSharePrice,
+        }].slice(-REPORT_LIST_SIZE);
+      }
+
+      draft.biggestTrades = keepTop(
+        draft.biggestTrades,
+        await readPeriodTrades(meme, periodStart, periodEnd, context),
+        (a, b) => b.total - a.total
+      );
+
+      draft.cursor = batchStart + memeIds.indexOf(meme.id) + 1;
+    }
+    // Index entries whose meme has gone are passed over too
+    draft.cursor = batchStart + memeIds.length;
+
+    if (memeIds.length < REPORT_SCAN_BATCH) return true;
+  }
+}
+
+// Freeze a finished draft into the report that gets posted
+export async function finishMarketReport(draft: MarketReportDraft, context: RedisContext): Promise<MarketReport> {
+  const previous = await getLatestMarketReport(context);
+
+  return {
+    id: `report_${draft.date}`,
+    date: draft.date,
+    timezone: draft.timezone,
+    periodStart: new Date(draft.periodStart).toISOString(),
+    periodEnd: new Date(draft.periodEnd).toISOString(),
+    memeCount: draft.memeCount,
+    totalMarketCap: draft.totalMarketCap,
+    marketCapChangePercent: previous && previous.totalMarketCap > 0
+      ? (draft.totalMarketCap / previous.totalMarketCap - 1) * 100
+      : null,
+    totalVolume: draft.totalVolume,
+    totalTurnover: draft.totalTurnover,
+    gainers: draft.gainers,
+    losers: draft.losers,
+    mostTraded: draft.mostTraded,
+    newIpos: [...draft.newIpos].reverse(),
+    biggestTrades: draft.biggestTrades,
+    createdAt: new Date(draft.periodEnd).toISOString(),
+  };
+}
+
+export async function getMarketReportDraft(context: RedisContext): Promise<MarketReportDraft | null> {
+  const { redis } = context;
+  const draftJson = await redis.get(REPORT_DRAFT_KEY);
+  return draftJson ? JSON.parse(draftJson) : null;
+}
+
+export async function saveMarketReportDraft(draft: MarketReportDraft, context: RedisContext): Promise<void> {
+  const { redis } = context;
+  await redis.set(REPORT_DRAFT_KEY, JSON.stringify(draft));
+}
+
+export async function clearMarketReportDraft(context: RedisContext): Promise<void> {
+  const { redis } = context;
+  await redis.del(REPORT_DRAFT_KEY);
+}
+
+export async function saveMarketReport(report: MarketReport, context: RedisContext): Promise<void> {
+  const { redis } = context;
+
+  await redis.set(reportKey(report.id), JSON.stringify(report));
+  await redis.set(LATEST_REPORT_KEY, report.id);
+}
+
+export async function getMarketReport(reportId: string, context: RedisContext): Promise<MarketReport | null> {
+  const { redis } = context;
+  const reportJson = await redis.get(reportKey(reportId));
+  return reportJson ? JSON.parse(reportJson) : null;
+}
+
+export async function getLatestMarketReport(context: RedisContext): Promise<MarketReport | null> {
+  const { redis } = context;
+  const reportId = await redis.get(LATEST_REPORT_KEY);
+  return reportId ? getMarketReport(reportId, context) : null;
+}
@@ -0,0 +1,454 @@
+import { Devvit, TxClientLike } from '@devvit/public-api';
+import { getPostRecord, savePostRecord } from './postRegistry';
+import { readTraderIds } from './userPortfolios';
+
+// Shared data shapes for memes and share positions stored in Redis
+
+export interface PricePoint {
+  timestamp: string;
+  price: number;
+}
+
+// Shares granted free to a meme's creator at IPO
+export const CREATOR_SHARES = 100;
+
+// Stored as JSON under `memes:<memeId>`
+export interface MemeData {
+  id: string;
+  creatorId: string;
+  creatorName: string;
+  createdAt: string;
+  templateId: string;
+  templateUrl: string;
+  title: string;
+  topText: string;
+  bottomText: string;
+  categories: string[];
+  initialSharePrice: number;
+  currentSharePrice: number;
+  totalShares: number;
+  availableShares: number;
+  tradeVolume: number;
+  // Part of `tradeVolume` left out of engagement: round trips, mirrored
+  // trades and volume past a trader's daily allowance
+  discountedVolume?: number;
+  priceHistory: PricePoint[];
+  engagementScore: number;
+  // Post karma counted towards engagement so far, which trails the real score
+  // while gains are capped per tick
+  countedKarma?: number;
+  lastUpdated: string;
+  postId?: string;
+  // Set when a season ends by delisting; the record stays so its post still renders
+  delistedAt?: string;
+}
+
+// Result of a single revaluation pass
+export interface MemeValuation {
+  memeId: string;
+  previousPrice: number;
+  currentPrice: number;
+  priceChangePercent: number;
+  marketCap: number;
+  engagementScore: number;
+  // Set when the meme's post was read this tick
+  countedKarma?: number;
+  timestamp: string;
+}
+
+// A user's holding in one meme
+export interface PortfolioPosition {
+  shares: number;
+  // Cost basis of the bought shares only; granted shares cost nothing
+  averageBuyPrice: number;
+  // How many of `shares` were granted to the creator at IPO rather than bought
+  grantedShares?: number;
+}
+
+// Stored as JSON under `portfolio:<userId>`, keyed by meme ID
+export type Portfolio = Record<string, PortfolioPosition>;
+
+// Profit taken on sells, per meme, stored as JSON under `realized:<userId>`.
+// Kept apart from the portfolio so it outlives positions that are sold out.
+export type RealizedPnl = Record<string, number>;
+
+export function realizedPnlKey(userId: string): string {
+  return `realized:${userId}`;
+}
+
+// What a creator took for selling their granted shares, per meme, stored as
+// JSON under `grant_proceeds:<userId>`. Granted shares cost nothing, so their
+// proceeds are kept out of realized P&L.
+export type GrantProceeds = Record<string, number>;
+
+export function grantProceedsKey(userId: string): string {
+  return `grant_proceeds:${userId}`;
+}
+
+// Split a position into granted and bought shares. Positions written before
+// grants were tracked only have a zero cost basis if they were all granted.
+export function positionLots(position: PortfolioPosition): { granted: number; bought: number } {
+  const granted = position.grantedShares ?? (position.averageBuyPrice === 0 ? position.shares : 0);
+  return { granted, bought: position.shares - granted };
+}
+
+// Sorted-set indexes over all listed memes. Each one also exists per
+// category as `index:<sort>:<category>`.
+export type MemeSortKey = 'created' | 'change' | 'volume' | 'marketCap' | 'price';
+
+export const MEME_SORT_KEYS: MemeSortKey[] = ['created', 'change', 'volume', 'marketCap', 'price'];
+
+// Set once the legacy JSON-array indexes have been converted
+const INDEX_MIGRATED_KEY = 'index:migrated';
+const HOLDERS_MIGRATED_KEY = 'holders:migrated';
+// Set once creators without a wallet have been backfilled too; installs that
+// ran the first backfill before creators were covered still need this one
+const CREATOR_HOLDERS_MIGRATED_KEY = 'holders:migrated:creators';
+
+// Traders or memes read per step of the holder backfill
+const HOLDERS_MIGRATION_BATCH_SIZE = 100;
+
+// How many times linking a post is retried when it races another meme update
+const MAX_LINK_ATTEMPTS = 5;
+
+type RedisContext = Pick<Devvit.Context, 'redis'>;
+
+export function indexKey(sort: MemeSortKey, category?: string | null): string {
+  return category ? `index:${sort}:${category}` : `index:${sort}`;
+}
+
+// Every meme a user has launched, scored by creation time
+export function creatorIndexKey(creatorId: string): string {
+  return `index:creator:${creatorId}`;
+}
+
+// Everyone holding shares in a meme, scored by how many they hold
+export function holdersKey(memeId: string): string {
+  return `holders:${memeId}`;
+}
+
+// Price change between the two most recent price points
+export function getPriceChangePercent(meme: MemeData): number {
+  if (meme.priceHistory.length < 2) return 0;
+  const current = meme.priceHistory[meme.priceHistory.length - 1].price;
+  const previous = meme.priceHistory[meme.priceHistory.length - 2].price;
+  return (current - previous) / previous;
+}
+
+// The score a meme is ranked by in the given index
+export function getMemeSortScore(meme: MemeData, sort: MemeSortKey): number {
+  switch (sort) {
+    case 'created':
+      return Date.parse(meme.createdAt);
+    case 'change':
+      return getPriceChangePercent(meme);
+    case 'volume':
+      return meme.tradeVolume;
+    case 'marketCap':
+      return meme.totalShares * meme.currentSharePrice;
+    case 'price':
+      return meme.currentSharePrice;
+  }
+}
+
+// Write a meme's current scores into every index it belongs to. Pass an open
+// transaction to queue the writes alongside the meme update itself.
+export async function indexMeme(
+  meme: MemeData,
+  context: RedisContext,
+  txn?: TxClientLike
+): Promise<void> {
+  const { redis } = context;
+  const client = txn || redis;
+
+  for (const sort of MEME_SORT_KEYS) {
+    const member = { member: meme.id, score: getMemeSortScore(meme, sort) };
+    await client.zAdd(indexKey(sort), member);
+    for (const category of meme.categories) {
+      await client.zAdd(indexKey(sort, category), member);
+    }
+  }
+
+  await client.zAdd(creatorIndexKey(meme.creatorId), {
+    member: meme.id,
+    score: getMemeSortScore(meme, 'created'),
+  });
+}
+
+// Drop a meme from every index so it no longer appears in listings
+export async function unindexMeme(meme: MemeData, context: RedisContext): Promise<void> {
+  const { redis } = context;
+
+  for (const sort of MEME_SORT_KEYS) {
+    await redis.zRem(indexKey(sort), [meme.id]);
+    for (const category of meme.categories) {
+      await redis.zRem(indexKey(sort, category), [meme.id]);
+    }
+  }
+
+  await redis.zRem(creatorIndexKey(meme.creatorId), [meme.id]);
+}
+
+// Drop the ID of a meme whose record is gone from the global indexes. Its
+// category entries can't be found without the record; listings skip them.
+export async function pruneMissingMeme(memeId: string, context: RedisContext): Promise<void> {
+  const { redis } = context;
+
+  for (const sort of MEME_SORT_KEYS) {
+    await redis.zRem(indexKey(sort), [memeId]);
+  }
+}
+
+// Ranged read of meme IDs from an index, highest score first by default
+export async function readMemeIndex(
+  sort: MemeSortKey,
+  context: RedisContext,
+  { category = null, offset = 0, count = 20, ascending = false }: {
+    category?: string | null;
+    offset?: number;
+    count?: number;
+    ascending?: boolean;
+  } = {}
+): Promise<string[]> {
+  const { redis } = context;
+  const members = await redis.zRange(indexKey(sort, category), offset, offset + count - 1, {
+    by: 'rank',
+    reverse: !ascending,
+  });
+  return members.map(({ member }) => member);
+}
+
+// A point in an index listing: the score and ID of the last meme read. A
+// listing resumes just past it, in sort order, so memes whose scores move
+// between pages don't shift the rest of the listing the way an offset would.
+export interface IndexCursor {
+  score: number;
+  memeId: string;
+}
+
+// Whether `entry` comes at or before `cursor` in the listing. Equal scores
+// are ordered by ID, as Redis orders them.
+export function isAtOrBeforeCursor(entry: IndexCursor, cursor: IndexCursor, ascending: boolean): boolean {
+  if (entry.score !== cursor.score) {
+    return ascending ? entry.score < cursor.score : entry.score > cursor.score;
+  }
+  return ascending ? entry.memeId <= cursor.memeId : entry.memeId >= cursor.memeId;
+}
+
+// Ranged read of an index with scores, starting just past `after`, or from
+// the top without one. The start is found by binary search over ranks.
+export async function readMemeIndexAfter(
+  sort: MemeSortKey,
+  context: RedisContext,
+  { category = null, after = null, count = 20, ascending = false }: {
+    category?: string | null;
+    after?: IndexCursor | null;
+    count?: number;
+    ascending?: boolean;
+  } = {}
+): Promise<IndexCursor[]> {
+  const { redis } = context;
+  const key = indexKey(sort, category);
+  const options = { by: 'rank' as const, reverse: !ascending };
+
+  let start = 0;
+  if (after) {
+    let end = await redis.zCard(key);
+    while (start < end) {
+      const middle = Math.floor((start + end) / 2);
+      const [entry] = await redis.zRange(key, middle, middle, options);
+      if (entry && isAtOrBeforeCursor({ score: entry.score, memeId: entry.member }, after, ascending)) {
+        start = middle + 1;
+      } else {
+        end = middle;
+      }
+    }
+  }
+
+  const members = await redis.zRange(key, start, start + count - 1, options);
+  return members.map(({ member, score }) => ({ score, memeId: member }));
+}
+
+// IDs of every meme a user has launched, newest first
+export async function readCreatorMemeIds(creatorId: string, context: RedisContext): Promise<string[]> {
+  const { redis } = context;
+  const members = await redis.zRange(creatorIndexKey(creatorId), 0, -1, { by: 'rank', reverse: true });
+  return members.map(({ member }) => member);
+}
+
+// Record how many shares a user now holds in a meme, dropping them from the
+// holders once they hold none. Pass an open transaction to queue the write
+// alongside the portfolio update.
+export async function indexHolding(
+  memeId: string,
+  userId: string,
+  shares: number,
+  context: RedisContext,
+  txn?: TxClientLike
+): Promise<void> {
+  const { redis } = context;
+  const client = txn || redis;
+
+  if (shares > 0) {
+    await client.zAdd(holdersKey(memeId), { member: userId, score: shares });
+  } else {
+    await client.zRem(holdersKey(memeId), [userId]);
+  }
+}
+
+// The biggest holders of a meme, most shares first
+export async function readTopHolders(
+  memeId: string,
+  count: number,
+  context: RedisContext
+): Promise<{ userId: string; shares: number }[]> {
+  const { redis } = context;
+  const members = await redis.zRange(holdersKey(memeId), 0, count - 1, { by: 'rank', reverse: true });
+  return members.map(({ member, score }) => ({ userId: member, shares: score }));
+}
+
+// Every holder of a meme, for paying them all
+export async function readHolders(
+  memeId: string,
+  context: RedisContext
+): Promise<{ userId: string; shares: number }[]> {
+  const { redis } = context;
+  const members = await redis.zRange(holdersKey(memeId), 0, -1, { by: 'rank' });
+  return members.map(({ member, score }) => ({ userId: member, shares: score }));
+}
+
+export async function countHolders(memeId: string, context: RedisContext): Promise<number> {
+  const { redis } = context;
+  return redis.zCard(holdersKey(memeId));
+}
+
+export async function getMeme(memeId: string, context: RedisContext): Promise<MemeData | null> {
+  const { redis } = context;
+  const memeJson = await redis.get(`memes:${memeId}`);
+  return memeJson ? JSON.parse(memeJson) : null;
+}
+
+// Fetch many memes in one round trip, skipping any that no longer exist
+export async function getMemes(memeIds: string[], context: RedisContext): Promise<MemeData[]> {
+  const { redis } = context;
+  if (memeIds.length === 0) return [];
+
+  const memeJsons = await redis.mGet(memeIds.map(memeId => `memes:${memeId}`));
+  return memeJsons
+    .filter((memeJson): memeJson is string => !!memeJson)
+    .map(memeJson => JSON.parse(memeJson));
+}
+
+// Point a meme at the Reddit post whose karma and comments drive its price.
+// A post can only back one meme.
+export async function linkMemePost(memeId: string, postId: string, context: RedisContext): Promise<MemeData> {
+  const { redis } = context;
+
+  const existing = await getPostRecord(postId, context);
+  if (existing && existing.kind === 'meme' && existing.memeId !== memeId) {
+    throw new Error(`Post ${postId} is already linked to meme ${existing.memeId}`);
+  }
+  if (existing && existing.kind !== 'meme') {
+    throw new Error(`Post ${postId} is an app post and can't back a meme`);
+  }
+
+  for (let attempt = 0; attempt < MAX_LINK_ATTEMPTS; attempt++) {
+    const txn = await redis.watch(`memes:${memeId}`);
+    const meme = await getMeme(memeId, context);
+    if (!meme) {
+      await txn.unwatch();
+      throw new Error(`Meme not found: ${memeId}`);
+    }
+
+    meme.postId = postId;
+
+    await txn.multi();
+    await txn.set(`memes:${memeId}`, JSON.stringify(meme));
+    const results = await txn.exec();
+
+    if (results && results.length > 0) {
+      await savePostRecord(postId, { kind: 'meme', memeId }, context);
+      return meme;
+    }
+  }
+
+  throw new Error(`Could not link post ${postId} to meme ${memeId}`);
+}
+
+// One-shot conversion of the old `meme_index` and `category:<name>` JSON
+// arrays into sorted-set indexes. Safe to call repeatedly.
+export async function migrateLegacyMemeIndex(context: RedisContext): Promise<number> {
+  const { redis } = context;
+
+  if (await redis.get(INDEX_MIGRATED_KEY)) {
+    return 0;
+  }
+
+  const memeIds: string[] = JSON.parse(await redis.get('meme_index') || '[]');
+  const categories = new Set<string>();
+  let migrated = 0;
+
+  for (const memeId of memeIds) {
+    const meme = await getMeme(memeId, context);
+    if (!meme) continue;
+
+    await indexMeme(meme, context);
+    meme.categories.forEach(category => categories.add(category));
+    migrated++;
+  }
+
+  // The legacy arrays are no longer read or written anywhere
+  await redis.del('meme_index', ...Array.from(categories, category => `category:${category}`));
+  await redis.set(INDEX_MIGRATED_KEY, new Date().toISOString());
+
+  return migrated;
+}
+
+async function indexPortfolioHoldings(userId: string, context: RedisContext): Promise<void> {
+  const { redis } = context;
+  const portfolio: Portfolio = JSON.parse(await redis.get(`portfolio:${userId}`) || '{}');
+  for (const [memeId, position] of Object.entries(portfolio)) {
+    await indexHolding(memeId, userId, position.shares, context);
+  }
+}
+
+// One-shot backfill of the holder indexes from every trader's portfolio, and
+// from every listed meme's creator, since creators granted shares before
+// wallets existed may never have traded. Safe to call repeatedly.
+export async function migrateHolderIndex(context: RedisContext): Promise<number> {
+  const { redis } = context;
+  const indexed = new Set<string>();
+
+  if (!(await redis.get(HOLDERS_MIGRATED_KEY))) {
+    for (let offset = 0; ; offset += HOLDERS_MIGRATION_BATCH_SIZE) {
+      const userIds = await readTraderIds(context, offset, HOLDERS_MIGRATION_BATCH_SIZE);
+
+      for (const userId of userIds) {
+        await indexPortfolioHoldings(userId, context);
+        indexed.add(userId);
+      }
+
+      if (userIds.length < HOLDERS_MIGRATION_BATCH_SIZE) break;
+    }
+
+    await redis.set(HOLDERS_MIGRATED_KEY, new Date().toISOString());
+  }
+
+  if (!(await redis.get(CREATOR_HOLDERS_MIGRATED_KEY))) {
+    for (let offset = 0; ; offset += HOLDERS_MIGRATION_BATCH_SIZE) {
+      const memeIds = await readMemeIndex('created', context, { offset, count: HOLDERS_MIGRATION_BATCH_SIZE });
+
+      for (const meme of await getMemes(memeIds, context)) {
+        if (indexed.has(meme.creatorId)) continue;
+        await indexPortfolioHoldings(meme.creatorId, context);
+        indexed.add(meme.creatorId);
+      }
+
+      if (memeIds.length < HOLDERS_MIGRATION_BATCH_SIZE) break;
+    }
+
+    await redis.set(CREATOR_HOLDERS_MIGRATED_KEY, new Date().toISOString());
+  }
+
+  return indexed.size;
+}
@@ -0,0 +1,130 @@
+import { Devvit } from '@devvit/public-api';
+import { MemeData } from './memeRegistry';
+
+// Where a listing is in review. Only `pending` listings sit in the queue;
+// `changes-requested` ones wait for their creator to resubmit.
+export type ListingStatus = 'pending' | 'changes-requested' | 'approved' | 'rejected';
+
+// A meme waiting to go on the market, stored as JSON under `listing:<id>`.
+// The draft only becomes a real meme under `memes:<id>` once a mod approves
+// it, so nothing can index, value or trade it before then.
+export interface MemeListing {
+  // The ID the meme will be listed under
+  id: string;
+  draft: MemeData;
+  status: ListingStatus;
+  // IPO fee charged at submission, refunded if the listing is rejected
+  fee: number;
+  submittedAt: string;
+  // Bumped each time the creator resubmits after edits were requested
+  revision: number;
+  reviewedAt?: string;
+  reviewerName?: string;
+  // Why it was rejected, or what the creator should change
+  reviewNote?: string;
+}
+
+// Pending listings, scored by when they were (re)submitted, oldest reviewed first
+const PENDING_QUEUE_KEY = 'listings:pending';
+
+// How many times a review is retried when it races another one
+const MAX_REVIEW_ATTEMPTS = 5;
+
+type RedisContext = Pick<Devvit.Context, 'redis'>;
+
+function listingKey(listingId: string): string {
+  return `listing:${listingId}`;
+}
+
+// Every listing a user has submitted, scored by first submission
+function creatorListingsKey(creatorId: string): string {
+  return `listings:creator:${creatorId}`;
+}
+
+// Store a new listing and put it at the back of the review queue
+export async function saveNewListing(listing: MemeListing, context: RedisContext): Promise<void> {
+  const { redis } = context;
+  const score = Date.parse(listing.submittedAt);
+
+  await redis.set(listingKey(listing.id), JSON.stringify(listing));
+  await redis.zAdd(PENDING_QUEUE_KEY, { member: listing.id, score });
+  await redis.zAdd(creatorListingsKey(listing.draft.creatorId), { member: listing.id, score });
+}
+
+export async function getListing(listingId: string, context: RedisContext): Promise<MemeListing | null> {
+  const { redis } = context;
+  const listingJson = await redis.get(listingKey(listingId));
+  return listingJson ? JSON.parse(listingJson) : null;
+}
+
+// Fetch many listings in one round trip, skipping any that no longer exist
+export async function getListings(listingIds: string[], context: RedisContext): Promise<MemeListing[]> {
+  const { redis } = context;
+  if (listingIds.length === 0) return [];
+
+  const listingJsons = await redis.mGet(listingIds.map(listingKey));
+  return listingJsons
+    .filter((listingJson): listingJson is string => !!listingJson)
+    .map(listingJson => JSON.parse(listingJson));
+}
+
+// A page of the review queue, oldest first
+export async function readPendingListingIds(context: RedisContext, offset = 0, count = 20): Promise<string[]> {
+  const { redis } = context;
+  const members = await redis.zRange(PENDING_QUEUE_KEY, offset, offset + count - 1, { by: 'rank' });
+  return members.map(({ member }) => member);
+}
+
+export async function countPendingListings(context: RedisContext): Promise<number> {
+  const { redis } = context;
+  return await redis.zCard(PENDING_QUEUE_KEY);
+}
+
+// IDs of every listing a user has submitted, newest first
+export async function readCreatorListingIds(creatorId: string, context: RedisContext): Promise<string[]> {
+  const { redis } = context;
+  const members = await redis.zRange(creatorListingsKey(creatorId), 0, -1, { by: 'rank', reverse: true });
+  return members.map(({ member }) => member);
+}
+
+// Move a listing on from one of the `from` statuses, applying `update` to it.
+// The queue follows the new status in the same transaction, so two mods
+// reviewing at once can't both act on the same listing.
+export async function transitionListing(
+  listingId: string,
+  from: ListingStatus[],
+  update: (listing: MemeListing) => void,
+  context: RedisContext
+): Promise<MemeListing> {
+  const { redis } = context;
+
+  for (let attempt = 0; attempt < MAX_REVIEW_ATTEMPTS; attempt++) {
+    const txn = await redis.watch(listingKey(listingId));
+    const listing = await getListing(listingId, context);
+    if (!listing) {
+      await txn.unwatch();
+      throw new Error(`Listing not found: ${listingId}`);
+    }
+    if (!from.includes(listing.status)) {
+      await txn.unwatch();
+      throw new Error(`"${listing.draft.title}" is already ${listing.status.replace('-', ' ')}`);
+    }
+
+    update(listing);
+
+    await txn.multi();
+    await txn.set(listingKey(listingId), JSON.stringify(listing));
+    if (listing.status === 'pending') {
+      await txn.zAdd(PENDING_QUEUE_KEY, { member: listingId, score: Date.parse(listing.submittedAt) });
+    } else {
+      await txn.zRem(PENDING_QUEUE_KEY, [listingId]);
+    }
+    const results = await txn.exec();
+
+    if (results && results.length > 0) {
+      return listing;
+    }
+  }
+
+  throw new Error(`Could not update listing ${listingId}, please try again`);
+}
@@ -0,0 +1,190 @@
+import { Devvit } from '@devvit/public-api';
+
+// What a price alert watches for:
+// - `above`: the price rises to or past `threshold`
+// - `below`: the price falls to or past `threshold`
+// - `move`: the price moves at least `threshold` percent, either way, in one
+//   market tick
+export type AlertKind = 'above' | 'below' | 'move';
+
+// Stored as JSON under `alert:<id>`. Alerts stay set until their owner
+// deletes them; `above` and `below` fire again each time the price crosses
+// back over the threshold.
+export interface PriceAlert {
+  id: string;
+  userId: string;
+  memeId: string;
+  kind: AlertKind;
+  // A price in MemeCoins, or a percentage for `move`
+  threshold: number;
+  createdAt: string;
+  lastTriggeredAt?: string;
+}
+
+export type NotificationKind = 'price-alert' | 'order-filled' | 'order-failed' | 'milestone';
+
+// One message in a user's in-app inbox
+export interface Notification {
+  id: string;
+  kind: NotificationKind;
+  subject: string;
+  text: string;
+  memeId?: string;
+  createdAt: string;
+}
+
+// What a user wants to hear about. Price alerts are opted into one by one,
+// so only the other kinds can be muted.
+export interface NotificationPreferences {
+  privateMessages: boolean;
+  orderFills: boolean;
+  milestones: boolean;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  privateMessages: true,
+  orderFills: true,
+  milestones: true,
+};
+
+// Notifications kept in an inbox before the oldest are trimmed
+const INBOX_RETENTION = 50;
+
+type RedisContext = Pick<Devvit.Context, 'redis'>;
+
+function alertKey(alertId: string): string {
+  return `alert:${alertId}`;
+}
+
+// A meme's alerts, scored by when they were set
+function memeAlertsKey(memeId: string): string {
+  return `alerts:meme:${memeId}`;
+}
+
+// A user's alerts, scored by when they were set
+function userAlertsKey(userId: string): string {
+  return `alerts:user:${userId}`;
+}
+
+// A user's notifications as JSON, scored by time
+function inboxKey(userId: string): string {
+  return `inbox:${userId}`;
+}
+
+// When the user last opened their inbox, in epoch milliseconds
+function inboxReadKey(userId: string): string {
+  return `inbox:read:${userId}`;
+}
+
+function preferencesKey(userId: string): string {
+  return `notify:prefs:${userId}`;
+}
+
+// Milestones each meme has passed, as the highest market cap reached, keyed
+// by meme ID
+const MILESTONES_KEY = 'milestones:memes';
+
+export async function saveAlert(alert: PriceAlert, context: RedisContext): Promise<void> {
+  const { redis } = context;
+  const score = Date.parse(alert.createdAt);
+
+  await redis.set(alertKey(alert.id), JSON.stringify(alert));
+  await redis.zAdd(memeAlertsKey(alert.memeId), { member: alert.id, score });
+  await redis.zAdd(userAlertsKey(alert.userId), { member: alert.id, score });
+}
+
+export async function deleteAlert(alert: PriceAlert, context: RedisContext): Promise<void> {
+  const { redis } = context;
+
+  await redis.del(alertKey(alert.id));
+  await redis.zRem(memeAlertsKey(alert.memeId), [alert.id]);
+  await redis.zRem(userAlertsKey(alert.userId), [alert.id]);
+}
+
+export async function getAlert(alertId: string, context: RedisContext): Promise<PriceAlert | null> {
+  const { redis } = context;
+  const alertJson = await redis.get(alertKey(alertId));
+  return alertJson ? JSON.parse(alertJson) : null;
+}
+
+async function readAlerts(key: string, context: RedisContext): Promise<PriceAlert[]> {
+  const { redis } = context;
+
+  const members = await redis.zRange(key, 0, -1, { by: 'rank' });
+  if (members.length === 0) return [];
+
+  const alertJsons = await redis.mGet(members.map(({ member }) => alertKey(member)));
+  return alertJsons
+    .filter((alertJson): alertJson is string => !!alertJson)
+    .map(alertJson => JSON.parse(alertJson));
+}
+
+// Every alert set on a meme, oldest first
+export async function readMemeAlerts(memeId: string, context: RedisContext): Promise<PriceAlert[]> {
+  return readAlerts(memeAlertsKey(memeId), context);
+}
+
+// Every alert a user has set, oldest first
+export async function readUserAlerts(userId: string, context: RedisContext): Promise<PriceAlert[]> {
+  return readAlerts(userAlertsKey(userId), context);
+}
+
+export async function countUserAlerts(userId: string, context: RedisContext): Promise<number> {
+  const { redis } = context;
+  return await redis.zCard(userAlertsKey(userId));
+}
+
+export async function appendNotification(userId: string, notification: Notification, context: RedisContext): Promise<void> {
+  const { redis } = context;
+  const key = inboxKey(userId);
+
+  await redis.zAdd(key, { member: JSON.stringify(notification), score: Date.parse(notification.createdAt) });
+  await redis.zRemRangeByRank(key, 0, -(INBOX_RETENTION + 1));
+}
+
+// A user's latest notifications, newest first
+export async function readNotifications(userId: string, context: RedisContext, count = 20): Promise<Notification[]> {
+  const { redis } = context;
+  const members = await redis.zRange(inboxKey(userId), 0, count - 1, { by: 'rank', reverse: true });
+  return members.map(({ member }) => JSON.parse(member));
+}
+
+// How many notifications arrived since the user last opened their inbox
+export async function countUnreadNotifications(userId: string, context: RedisContext): Promise<number> {
+  const { redis } = context;
+
+  const readAt = Number(await redis.get(inboxReadKey(userId)) ?? 0);
+  const unread = await redis.zRange(inboxKey(userId), readAt + 1, Number.MAX_SAFE_INTEGER, { by: 'score' });
+  return unread.length;
+}
+
+export async function markNotificationsRead(userId: string, context: RedisContext): Promise<void> {
+  const { redis } = context;
+  await redis.set(inboxReadKey(userId), String(Date.now()));
+}
+
+export async function getNotificationPreferences(userId: string, context: RedisContext): Promise<NotificationPreferences> {
+  const { redis } = context;
+  const preferencesJson = await redis.get(preferencesKey(userId));
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...(preferencesJson ? JSON.parse(preferencesJson) : {}) };
+}
+
+export async function saveNotificationPreferences(
+  userId: string,
+  preferences: NotificationPreferences,
+  context: RedisContext
+): Promise<void> {
+  const { redis } = context;
+  await redis.set(preferencesKey(userId), JSON.stringify(preferences));
+}
+
+// The highest milestone a meme has been announced for, or 0
+export async function getReachedMilestone(memeId: string, context: RedisContext): Promise<number> {
+  const { redis } = context;
+  return Number(await redis.hGet(MILESTONES_KEY, memeId) ?? 0);
+}
+
+export async function saveReachedMilestone(memeId: string, milestone: number, context: RedisContext): Promise<void> {
+  const { redis } = context;
+  await redis.hSet(MILESTONES_KEY, { [memeId]: String(milestone) });
+}
@@ -0,0 +1,57 @@
+import { Devvit } from '@devvit/public-api';
+import { NetWorthPeriod } from '../server/leaderboards';
+
+// One line of a statement. Amounts are null when the owner hid balances.
+export interface StatementHolding {
+  title: string;
+  // Share of the holdings value
+  allocationPercent: number;
+  value: number | null;
+  // Change since purchase, or null for creator shares that were never bought
+  changePercent: number | null;
+  unrealizedPnl: number | null;
+  isCreator: boolean;
+}
+
+// A frozen snapshot of a user's portfolio, stored as JSON under
+// `statement:<id>` so the post never changes after it's submitted
+export interface PortfolioStatement {
+  id: string;
+  userId: string;
+  username: string;
+  period: NetWorthPeriod;
+  // When set, every MemeCoin amount below was left out at creation
+  hideBalances: boolean;
+  netWorth: number | null;
+  cash: number | null;
+  unrealizedPnl: number | null;
+  realizedPnl: number | null;
+  // Unrealized gain as a percent of what the bought shares cost
+  unrealizedPnlPercent: number | null;
+  // Return over the period, net of grants and stipends
+  returnPercent: number | null;
+  rank: number | null;
+  traderCount: number;
+  holdings: StatementHolding[];
+  // Net worth over the period as percent change from its first point
+  sparkline: number[];
+  createdAt: string;
+  postId?: string;
+}
+
+type RedisContext = Pick<Devvit.Context, 'redis'>;
+
+function statementKey(statementId: string): string {
+  return `statement:${statementId}`;
+}
+
+export async function savePortfolioStatement(statement: PortfolioStatement, context: RedisContext): Promise<void> {
+  const { redis } = context;
+  await redis.set(statementKey(statement.id), JSON.stringify(statement));
+}
+
+export async function getPortfolioStatement(statementId: string, context: RedisContext): Promise<PortfolioStatement | null> {
+  const { redis } = context;
+  const statementJson = await redis.get(statementKey(statementId));
+  return statementJson ? JSON.parse(statementJson) : null;
+}
@@ -0,0 +1,28 @@
+import { Devvit } from '@devvit/public-api';
+
+// The app has a single custom post type; each submitted post records what it
+// should render under `post:<postId>`
+export type PostRecord =
+  | { kind: 'market' }
+  | { kind: 'meme'; memeId: string }
+  | { kind: 'market-report'; reportId: string }
+  | { kind: 'portfolio-statement'; statementId: string }
+  | { kind: 'listing-queue' };
+
+type RedisContext = Pick<Devvit.Context, 'redis'>;
+
+export async function savePostRecord(postId: string, record: PostRecord, context: RedisContext): Promise<void> {
+  const { redis } = context;
+  await redis.set(`post:${postId}`, JSON.stringify(record));
+}
+
+export async function getPostRecord(postId: string, context: RedisContext): Promise<PostRecord | null> {
+  const { redis } = context;
+  const recordJson = await redis.get(`post:${postId}`);
+  return recordJson ? JSON.parse(recordJson) : null;
+}
+
+export async function deletePostRecord(postId: string, context: RedisContext): Promise<void> {
+  const { redis } = context;
+  await redis.del(`post:${postId}`);
+}
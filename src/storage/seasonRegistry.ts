@@ -0,0 +1,107 @@
+import { Devvit } from '@devvit/public-api';
+import { LeaderboardEntry, LeaderboardId } from '../server/leaderboards';
+import { SeasonMemePolicy } from '../server/settings';
+
+// A season trades from `startsAt` to `endsAt`. Trading is paused while one is
+// scheduled but not started, and while an ended one is being archived.
+export type SeasonStatus = 'scheduled' | 'active' | 'closing' | 'archived';
+
+export interface Season {
+  id: string;
+  number: number;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  status: SeasonStatus;
+  archivedAt?: string;
+}
+
+// A meme as it stood when its season closed
+export interface ClosingPrice {
+  memeId: string;
+  title: string;
+  creatorName: string;
+  closingPrice: number;
+  marketCap: number;
+}
+
+// Everything kept from a finished season, stored as JSON under `season:<id>`
+export interface SeasonArchive {
+  season: Season;
+  memePolicy: SeasonMemePolicy;
+  leaderboards: Record<LeaderboardId, LeaderboardEntry[]>;
+  // Traders awarded flair, best first
+  winners: LeaderboardEntry[];
+}
+
+type RedisContext = Pick<Devvit.Context, 'redis'>;
+
+// The season in progress, or the next one if none is
+export const CURRENT_SEASON_KEY = 'season:current';
+
+// A season a moderator has lined up to follow the current one
+export const NEXT_SEASON_KEY = 'season:next';
+
+// Archived season IDs, scored by when they ended
+const SEASON_INDEX_KEY = 'seasons';
+
+export function seasonArchiveKey(seasonId: string): string {
+  return `season:${seasonId}`;
+}
+
+// Closing prices of every meme listed at the end of a season, keyed by meme ID
+export function closingPricesKey(seasonId: string): string {
+  return `season:${seasonId}:prices`;
+}
+
+export async function getCurrentSeason(context: RedisContext): Promise<Season | null> {
+  const { redis } = context;
+  const seasonJson = await redis.get(CURRENT_SEASON_KEY);
+  return seasonJson ? JSON.parse(seasonJson) : null;
+}
+
+export async function getNextSeason(context: RedisContext): Promise<Season | null> {
+  const { redis } = context;
+  const seasonJson = await redis.get(NEXT_SEASON_KEY);
+  return seasonJson ? JSON.parse(seasonJson) : null;
+}
+
+// Markets without seasons configured trade all the time
+export async function isMarketOpen(context: RedisContext): Promise<boolean> {
+  const season = await getCurrentSeason(context);
+  return !season || season.status === 'active';
+}
+
+export async function saveSeasonArchive(archive: SeasonArchive, context: RedisContext): Promise<void> {
+  const { redis } = context;
+
+  await redis.set(seasonArchiveKey(archive.season.id), JSON.stringify(archive));
+  await redis.zAdd(SEASON_INDEX_KEY, { member: archive.season.id, score: Date.parse(archive.season.endsAt) });
+}
+
+export async function getSeasonArchive(seasonId: string, context: RedisContext): Promise<SeasonArchive | null> {
+  const { redis } = context;
+  const archiveJson = await redis.get(seasonArchiveKey(seasonId));
+  return archiveJson ? JSON.parse(archiveJson) : null;
+}
+
+// Archived seasons, most recent first
+export async function listArchivedSeasons(context: RedisContext): Promise<Season[]> {
+  const { redis } = context;
+
+  const members = await redis.zRange(SEASON_INDEX_KEY, 0, -1, { by: 'rank', reverse: true });
+  if (members.length === 0) return [];
+
+  const archiveJsons = await redis.mGet(members.map(({ member }) => seasonArchiveKey(member)));
+  return archiveJsons
+    .filter((archiveJson): archiveJson is string => !!archiveJson)
+    .map(archiveJson => (JSON.parse(archiveJson) as SeasonArchive).season);
+}
+
+export async function getClosingPrices(seasonId: string, context: RedisContext): Promise<ClosingPrice[]> {
+  const { redis } = context;
+  const prices = await redis.hGetAll(closingPricesKey(seasonId));
+  return Object.values(prices ?? {})
+    .map(priceJson => JSON.parse(priceJson) as ClosingPrice)
+    .sort((a, b) => b.marketCap - a.marketCap);
+}
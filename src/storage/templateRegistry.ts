@@ -0,0 +1,160 @@
+import { Devvit } from '@devvit/public-api';
+import { getMemes, readMemeIndex } from './memeRegistry';
+
+// Library templates are offered to every creator until a mod retires them.
+// Custom templates are uploaded by one creator for their own memes and never
+// appear in the library.
+export type TemplateStatus = 'active' | 'retired' | 'custom';
+
+// Stored as JSON under `template:<id>`
+export interface MemeTemplate {
+  id: string;
+  name: string;
+  imageUrl: string;
+  // Lowercase labels mods use to group templates, e.g. "classic"
+  tags: string[];
+  status: TemplateStatus;
+  createdAt: string;
+  // Who added it: a mod for library templates, the uploader for custom ones
+  createdBy: string;
+  retiredAt?: string;
+}
+
+// How a template's memes have done since they listed
+export interface TemplateStats {
+  // Memes listed with the template
+  uses: number;
+  // Average change from IPO price to current price across the sampled memes,
+  // as a percentage; null until a meme using the template has listed
+  averageReturn: number | null;
+  totalMarketCap: number;
+  best: { memeId: string; title: string; returnPercent: number } | null;
+}
+
+// Templates every install starts with. Their IDs match the memes listed
+// before the library moved into Redis.
+const DEFAULT_TEMPLATES: { id: string; name: string; imageUrl: string; tags: string[] }[] = [
+  { id: 'drake', name: 'Drake Hotline Bling', imageUrl: 'https://i.imgur.com/dZLQxdu.png', tags: ['classic', 'choice'] },
+  { id: 'distracted', name: 'Distracted Boyfriend', imageUrl: 'https://i.imgur.com/tpLdFRn.png', tags: ['classic', 'choice'] },
+  { id: 'button', name: 'Two Buttons', imageUrl: 'https://i.imgur.com/sYkuXlX.png', tags: ['classic', 'choice'] },
+  { id: 'change', name: 'Change My Mind', imageUrl: 'https://i.imgur.com/tKDx1uo.jpeg', tags: ['classic', 'opinion'] },
+];
+
+// Every library template, active or retired, scored by when it was added
+const LIBRARY_KEY = 'templates:library';
+const SEEDED_KEY = 'templates:seeded';
+
+// Memes are read in batches of this size when backfilling template usage
+const BACKFILL_BATCH_SIZE = 100;
+
+// Performance is measured over a template's most recently listed memes
+const STATS_SAMPLE_SIZE = 25;
+
+type RedisContext = Pick<Devvit.Context, 'redis'>;
+
+function templateKey(templateId: string): string {
+  return `template:${templateId}`;
+}
+
+// Memes listed with a template, scored by listing time
+function templateMemesKey(templateId: string): string {
+  return `template:memes:${templateId}`;
+}
+
+export async function saveTemplate(template: MemeTemplate, context: RedisContext): Promise<void> {
+  const { redis } = context;
+
+  await redis.set(templateKey(template.id), JSON.stringify(template));
+  if (template.status !== 'custom') {
+    await redis.zAdd(LIBRARY_KEY, { member: template.id, score: Date.parse(template.createdAt) });
+  }
+}
+
+export async function getTemplate(templateId: string, context: RedisContext): Promise<MemeTemplate | null> {
+  const { redis } = context;
+  const templateJson = await redis.get(templateKey(templateId));
+  return templateJson ? JSON.parse(templateJson) : null;
+}
+
+// Every library template in the order they were added, retired ones included
+export async function getLibraryTemplates(context: RedisContext): Promise<MemeTemplate[]> {
+  const { redis } = context;
+
+  const members = await redis.zRange(LIBRARY_KEY, 0, -1, { by: 'rank' });
+  if (members.length === 0) return [];
+
+  const templateJsons = await redis.mGet(members.map(({ member }) => templateKey(member)));
+  return templateJsons
+    .filter((templateJson): templateJson is string => !!templateJson)
+    .map(templateJson => JSON.parse(templateJson));
+}
+
+// Count a newly listed meme towards its template's stats
+export async function recordTemplateUse(
+  templateId: string,
+  memeId: string,
+  listedAt: string,
+  context: RedisContext
+): Promise<void> {
+  const { redis } = context;
+  await redis.zAdd(templateMemesKey(templateId), { member: memeId, score: Date.parse(listedAt) });
+}
+
+export async function getTemplateStats(templateId: string, context: RedisContext): Promise<TemplateStats> {
+  const { redis } = context;
+  const key = templateMemesKey(templateId);
+
+  const [uses, members] = await Promise.all([
+    redis.zCard(key),
+    redis.zRange(key, 0, STATS_SAMPLE_SIZE - 1, { by: 'rank', reverse: true }),
+  ]);
+  const memes = await getMemes(members.map(({ member }) => member), context);
+
+  let best: TemplateStats['best'] = null;
+  let totalReturn = 0;
+  let totalMarketCap = 0;
+  for (const meme of memes) {
+    const returnPercent = (meme.currentSharePrice / meme.initialSharePrice - 1) * 100;
+    totalReturn += returnPercent;
+    totalMarketCap += meme.totalShares * meme.currentSharePrice;
+    if (!best || returnPercent > best.returnPercent) {
+      best = { memeId: meme.id, title: meme.title, returnPercent };
+    }
+  }
+
+  return {
+    uses,
+    averageReturn: memes.length > 0 ? totalReturn / memes.length : null,
+    totalMarketCap,
+    best,
+  };
+}
+
+// Fill an empty library with the default templates and count the memes
+// already listed with them. Safe to call repeatedly.
+export async function seedTemplateLibrary(context: RedisContext): Promise<number> {
+  const { redis } = context;
+
+  if (await redis.get(SEEDED_KEY)) {
+    return 0;
+  }
+
+  const createdAt = new Date().toISOString();
+  for (const template of DEFAULT_TEMPLATES) {
+    if (await getTemplate(template.id, context)) continue;
+    await saveTemplate({ ...template, status: 'active', createdAt, createdBy: 'system' }, context);
+  }
+
+  let counted = 0;
+  for (let offset = 0; ; offset += BACKFILL_BATCH_SIZE) {
+    const memeIds = await readMemeIndex('created', context, { offset, count: BACKFILL_BATCH_SIZE });
+    for (const meme of await getMemes(memeIds, context)) {
+      await recordTemplateUse(meme.templateId, meme.id, meme.createdAt, context);
+      counted++;
+    }
+    if (memeIds.length < BACKFILL_BATCH_SIZE) break;
+  }
+
+  await redis.set(SEEDED_KEY, createdAt);
+  return counted;
+}
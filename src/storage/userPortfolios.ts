@@ -0,0 +1,358 @@
+import { Devvit, TxClientLike } from '@devvit/public-api';
+import { assertModerator, requireCurrentUser } from '../server/permissions';
+import { getMarketParameters } from './marketControls';
+
+// MemeCoins a user can claim once every 24 hours
+export const DAILY_STIPEND = 100;
+const STIPEND_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// How many times a wallet update is retried when it races another update
+const MAX_WALLET_ATTEMPTS = 5;
+
+export type LedgerReason =
+  | 'grant'
+  | 'stipend'
+  | 'ipo'
+  | 'refund'
+  | 'buy'
+  | 'sell'
+  | 'royalty'
+  | 'dividend'
+  | 'fee'
+  | 'adjustment'
+  | 'season';
+
+// Credits handed out rather than earned, which returns should leave out
+const DEPOSIT_REASONS: LedgerReason[] = ['grant', 'stipend'];
+
+// Every user with a wallet, scored by when they joined, so market-wide jobs
+// can walk all traders without scanning keys
+const TRADER_INDEX_KEY = 'traders';
+
+// Stored as JSON under `wallet:<userId>`
+export interface WalletData {
+  userId: string;
+  balance: number;
+  createdAt: string;
+  lastStipendAt: string | null;
+  // Running total of grants and stipends; absent on wallets that predate it
+  deposits?: number;
+  // Running totals of income earned from other traders' trades and from
+  // holding shares; absent until the first payment
+  royalties?: number;
+  dividends?: number;
+}
+
+// One credit (positive amount) or debit (negative amount). Entries are only
+// ever appended to `ledger:<userId>`, scored by time, so the ledger can be
+// replayed to audit or rebuild a balance.
+export interface LedgerEntry {
+  id: string;
+  userId: string;
+  amount: number;
+  reason: LedgerReason;
+  // What the entry relates to, e.g. a meme or trade ID
+  reference?: string;
+  balanceAfter: number;
+  timestamp: string;
+}
+
+export interface WalletAudit {
+  userId: string;
+  storedBalance: number;
+  ledgerBalance: number;
+  entryCount: number;
+  drift: number;
+  repaired: boolean;
+}
+
+export class InsufficientFundsError extends Error {
+  constructor(public readonly balance: number, public readonly required: number) {
+    super(`This costs ₽${required.toFixed(2)} but your balance is ₽${balance.toFixed(2)}`);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+type RedisContext = Pick<Devvit.Context, 'redis'>;
+
+export function walletKey(userId: string): string {
+  return `wallet:${userId}`;
+}
+
+export function ledgerKey(userId: string): string {
+  return `ledger:${userId}`;
+}
+
+// Balances are kept to the nearest hundredth of a MemeCoin
+export function roundCoins(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Read a wallet without creating it
+export async function readWallet(userId: string, context: RedisContext): Promise<WalletData | null> {
+  const { redis } = context;
+  const walletJson = await redis.get(walletKey(userId));
+  return walletJson ? JSON.parse(walletJson) : null;
+}
+
+// Return the user's wallet, opening it with the starting grant on first visit
+export async function ensureWallet(userId: string, context: RedisContext): Promise<WalletData> {
+  const { redis } = context;
+
+  const existing = await readWallet(userId, context);
+  if (existing) {
+    // Wallets opened before the trader index existed join it on their next visit
+    if ((await redis.zScore(TRADER_INDEX_KEY, userId)) === undefined) {
+      await redis.zAdd(TRADER_INDEX_KEY, { member: userId, score: Date.parse(existing.createdAt) });
+    }
+    return existing;
+  }
+
+  const wallet: WalletData = {
+    userId,
+    balance: 0,
+    createdAt: new Date().toISOString(),
+    lastStipendAt: null,
+  };
+  // New wallets open with the starting balance mods have set
+  const { startingBalance } = await getMarketParameters(context);
+  const entry = applyLedgerEntry(wallet, startingBalance, 'grant');
+
+  // Only the first concurrent visit gets to open the wallet and log the grant
+  const created = await redis.set(walletKey(userId), JSON.stringify(wallet), { nx: true });
+  if (!created) {
+    return (await readWallet(userId, context))!;
+  }
+
+  await redis.zAdd(ledgerKey(userId), { member: JSON.stringify(entry), score: Date.parse(entry.timestamp) });
+  await redis.zAdd(TRADER_INDEX_KEY, { member: userId, score: Date.parse(wallet.createdAt) });
+  return wallet;
+}
+
+// A page of trader IDs in the order they joined
+export async function readTraderIds(context: RedisContext, offset: number, count: number): Promise<string[]> {
+  const { redis } = context;
+  const members = await redis.zRange(TRADER_INDEX_KEY, offset, offset + count - 1, { by: 'rank' });
+  return members.map(({ member }) => member);
+}
+
+// Apply a credit or debit to an in-memory wallet and build its ledger entry.
+// Callers that already run their own transaction persist both with
+// `queueWalletWrite`; everyone else should use `adjustBalance`.
+export function applyLedgerEntry(
+  wallet: WalletData,
+  amount: number,
+  reason: LedgerReason,
+  reference?: string
+): LedgerEntry {
+  const rounded = roundCoins(amount);
+  if (wallet.balance + rounded < 0) {
+    throw new InsufficientFundsError(wallet.balance, -rounded);
+  }
+
+  wallet.balance = roundCoins(wallet.balance + rounded);
+  if (DEPOSIT_REASONS.includes(reason)) {
+    wallet.deposits = roundCoins((wallet.deposits || 0) + rounded);
+  }
+  if (reason === 'royalty') {
+    wallet.royalties = roundCoins((wallet.royalties || 0) + rounded);
+  }
+  if (reason === 'dividend') {
+    wallet.dividends = roundCoins((wallet.dividends || 0) + rounded);
+  }
+
+  return {
+    id: `ledger_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+    userId: wallet.userId,
+    amount: rounded,
+    reason,
+    reference,
+    balanceAfter: wallet.balance,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+// Queue the wallet and its new ledger entry inside an open MULTI block
+export async function queueWalletWrite(txn: TxClientLike, wallet: WalletData, entry: LedgerEntry): Promise<void> {
+  await txn.set(walletKey(wallet.userId), JSON.stringify(wallet));
+  await txn.zAdd(ledgerKey(wallet.userId), { member: JSON.stringify(entry), score: Date.parse(entry.timestamp) });
+}
+
+// Atomically credit (positive) or debit (negative) a user's wallet
+export async function adjustBalance(
+  userId: string,
+  amount: number,
+  reason: LedgerReason,
+  context: RedisContext,
+  reference?: string
+): Promise<LedgerEntry> {
+  const { redis } = context;
+
+  await ensureWallet(userId, context);
+
+  for (let attempt = 0; attempt < MAX_WALLET_ATTEMPTS; attempt++) {
+    const txn = await redis.watch(walletKey(userId));
+    const wallet = (await readWallet(userId, context))!;
+
+    let entry: LedgerEntry;
+    try {
+      entry = applyLedgerEntry(wallet, amount, reason, reference);
+    } catch (error) {
+      await txn.unwatch();
+      throw error;
+    }
+
+    await txn.multi();
+    await queueWalletWrite(txn, wallet, entry);
+    const results = await txn.exec();
+
+    // An aborted transaction returns no replies; retry against fresh state
+    if (results && results.length > 0) {
+      return entry;
+    }
+  }
+
+  throw new Error(`Could not update wallet for user ${userId}, please try again`);
+}
+
+// Bring a wallet back to the starting balance for a new season. The change
+// is logged like any other entry so the ledger still sums to the balance.
+export async function resetWallet(userId: string, context: RedisContext, reference?: string): Promise<LedgerEntry | null> {
+  const { redis } = context;
+  const { startingBalance } = await getMarketParameters(context);
+
+  for (let attempt = 0; attempt < MAX_WALLET_ATTEMPTS; attempt++) {
+    const txn = await redis.watch(walletKey(userId));
+    const wallet = await readWallet(userId, context);
+    if (!wallet || wallet.balance === startingBalance) {
+      await txn.unwatch();
+      return null;
+    }
+
+    const entry = applyLedgerEntry(wallet, startingBalance - wallet.balance, 'season', reference);
+
+    await txn.multi();
+    await queueWalletWrite(txn, wallet, entry);
+    const results = await txn.exec();
+
+    if (results && results.length > 0) {
+      return entry;
+    }
+  }
+
+  throw new Error(`Could not reset wallet for user ${userId}, please try again`);
+}
+
+// Credit the daily stipend if a full day has passed since the last claim
+export async function claimDailyStipend(userId: string, context: RedisContext): Promise<LedgerEntry | null> {
+  const { redis } = context;
+
+  await ensureWallet(userId, context);
+
+  for (let attempt = 0; attempt < MAX_WALLET_ATTEMPTS; attempt++) {
+    const txn = await redis.watch(walletKey(userId));
+    const wallet = (await readWallet(userId, context))!;
+
+    if (wallet.lastStipendAt && Date.now() - Date.parse(wallet.lastStipendAt) < STIPEND_INTERVAL_MS) {
+      await txn.unwatch();
+      return null;
+    }
+
+    const entry = applyLedgerEntry(wallet, DAILY_STIPEND, 'stipend');
+    wallet.lastStipendAt = entry.timestamp;
+
+    await txn.multi();
+    await queueWalletWrite(txn, wallet, entry);
+    const results = await txn.exec();
+
+    if (results && results.length > 0) {
+      return entry;
+    }
+  }
+
+  throw new Error(`Could not claim stipend for user ${userId}, please try again`);
+}
+
+// Newest-first page of a user's ledger
+export async function getLedgerEntries(
+  userId: string,
+  context: RedisContext,
+  limit = 50,
+  offset = 0
+): Promise<LedgerEntry[]> {
+  const { redis } = context;
+  const members = await redis.zRange(ledgerKey(userId), offset, offset + limit - 1, { by: 'rank', reverse: true });
+  return members.map(({ member }) => JSON.parse(member));
+}
+
+// Replay the ledger and compare the sum with the stored balance. With
+// `repair` set, a drifted wallet is overwritten with the ledger balance.
+export async function rebuildBalanceFromLedger(
+  userId: string,
+  context: RedisContext,
+  repair = false
+): Promise<WalletAudit> {
+  const { redis } = context;
+
+  for (let attempt = 0; attempt < MAX_WALLET_ATTEMPTS; attempt++) {
+    const txn = await redis.watch(walletKey(userId), ledgerKey(userId));
+    const wallet = await readWallet(userId, context);
+    const members = await redis.zRange(ledgerKey(userId), 0, -1, { by: 'rank' });
+
+    const ledgerBalance = roundCoins(
+      members.reduce((sum, { member }) => sum + (JSON.parse(member) as LedgerEntry).amount, 0)
+    );
+    const storedBalance = wallet ? wallet.balance : 0;
+    const drift = roundCoins(storedBalance - ledgerBalance);
+
+    const audit: WalletAudit = {
+      userId,
+      storedBalance,
+      ledgerBalance,
+      entryCount: members.length,
+      drift,
+      repaired: false,
+    };
+
+    if (!repair || drift === 0 || !wallet) {
+      await txn.unwatch();
+      return audit;
+    }
+
+    wallet.balance = ledgerBalance;
+    await txn.multi();
+    await txn.set(walletKey(userId), JSON.stringify(wallet));
+    const results = await txn.exec();
+
+    if (results && results.length > 0) {
+      return { ...audit, repaired: true };
+    }
+  }
+
+  throw new Error(`Could not rebuild wallet for user ${userId}, please try again`);
+}
+
+// Recent credits and debits for the current user, newest first
+export async function getMyLedger(
+  { limit = 50, offset = 0 }: { limit?: number; offset?: number },
+  context: Devvit.Context
+): Promise<LedgerEntry[]> {
+  try {
+    const currentUser = await requireCurrentUser(context);
+    return await getLedgerEntries(currentUser.id, context, limit, offset);
+  } catch (error) {
+    console.error('Error loading ledger:', error);
+    return [];
+  }
+}
+
+// Compare a user's stored balance with their ledger (moderators only)
+export async function auditWallet({ userId, repair = false }: { userId: string; repair?: boolean }, context: Devvit.Context): Promise<WalletAudit> {
+  try {
+    await assertModerator(context, 'audit wallets');
+    return await rebuildBalanceFromLedger(userId, context, repair);
+  } catch (error) {
+    console.error(`Error auditing wallet for user ${userId}:`, error);
+    throw error;
+  }
+}